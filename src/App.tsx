@@ -9,7 +9,18 @@ import Auth from "./pages/Auth";
 import Questions from "./pages/Questions";
 import QuestionDetail from "./pages/QuestionDetail";
 import AskQuestion from "./pages/AskQuestion";
+import EditQuestion from "./pages/EditQuestion";
+import Revisions from "./pages/Revisions";
 import Profile from "./pages/Profile";
+import UserProfile from "./pages/UserProfile";
+import Notifications from "./pages/Notifications";
+import Tags from "./pages/Tags";
+import TagDetail from "./pages/TagDetail";
+import ReopenQueue from "./pages/ReopenQueue";
+import Trash from "./pages/Trash";
+import Moderation from "./pages/Moderation";
+import Admin from "./pages/Admin";
+import AuditLog from "./pages/AuditLog";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -25,8 +36,20 @@ const App = () => (
             <Route path="/" element={<Questions />} />
             <Route path="/auth" element={<Auth />} />
             <Route path="/questions/:id" element={<QuestionDetail />} />
+            <Route path="/questions/:id/edit" element={<EditQuestion />} />
+            <Route path="/questions/:id/revisions" element={<Revisions />} />
+            <Route path="/questions/:id/answers/:answerId/revisions" element={<Revisions />} />
             <Route path="/ask" element={<AskQuestion />} />
             <Route path="/profile" element={<Profile />} />
+            <Route path="/users/:username" element={<UserProfile />} />
+            <Route path="/notifications" element={<Notifications />} />
+            <Route path="/tags" element={<Tags />} />
+            <Route path="/tags/:name" element={<TagDetail />} />
+            <Route path="/review/reopen" element={<ReopenQueue />} />
+            <Route path="/trash" element={<Trash />} />
+            <Route path="/moderation" element={<Moderation />} />
+            <Route path="/admin" element={<Admin />} />
+            <Route path="/admin/audit" element={<AuditLog />} />
             <Route path="*" element={<NotFound />} />
           </Routes>
         </BrowserRouter>
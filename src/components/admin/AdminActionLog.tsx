@@ -0,0 +1,151 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Badge } from '@/components/ui/badge';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { useToast } from '@/hooks/use-toast';
+import { ADMIN_ACTION_LABELS, AdminActionType, ROLE_LABELS, UserRole } from '@/lib/roles';
+import { History } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+
+interface AdminAction {
+  id: string;
+  action: AdminActionType;
+  question_id: string | null;
+  answer_id: string | null;
+  comment_id: string | null;
+  details: Json;
+  created_at: string;
+  actor: { username: string } | null;
+  target: { username: string } | null;
+}
+
+const LOG_SIZE = 100;
+
+// A one-line summary of the action-specific details recorded by log_admin_action()
+function describeDetails(action: AdminActionType, details: Json): string | null {
+  if (!details || typeof details !== 'object' || Array.isArray(details)) return null;
+
+  switch (action) {
+    case 'role_changed':
+      return `${ROLE_LABELS[details.from as UserRole] ?? details.from} → ${ROLE_LABELS[details.to as UserRole] ?? details.to}`;
+    case 'user_suspended':
+      return `Until ${format(new Date(details.ends_at as string), 'MMM d, yyyy')}: ${details.reason}`;
+    case 'flags_reviewed':
+      return `${details.flags} ${details.flags === 1 ? 'flag' : 'flags'} marked ${details.helpful ? 'helpful' : 'declined'}`;
+    case 'post_approved':
+    case 'post_deleted':
+      return details.held_reason ? `Held for review: ${details.held_reason}` : null;
+    default:
+      return null;
+  }
+}
+
+export function AdminActionLog() {
+  const { toast } = useToast();
+  const [actions, setActions] = useState<AdminAction[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchActions();
+  }, []);
+
+  const fetchActions = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('admin_actions')
+        .select(`
+          id,
+          action,
+          question_id,
+          answer_id,
+          comment_id,
+          details,
+          created_at,
+          actor:profiles!admin_actions_actor_id_fkey (
+            username
+          ),
+          target:profiles!admin_actions_target_user_id_fkey (
+            username
+          )
+        `)
+        .order('created_at', { ascending: false })
+        .limit(LOG_SIZE);
+
+      if (error) throw error;
+      setActions(data || []);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to fetch admin actions",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+      </div>
+    );
+  }
+
+  if (actions.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <History className="w-10 h-10 text-muted-foreground mx-auto mb-3" />
+        <p className="text-muted-foreground">No moderator or admin actions yet.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-gradient-card rounded-xl shadow-lg divide-y">
+      {actions.map((entry) => {
+        const summary = describeDetails(entry.action, entry.details);
+        const postLabel = entry.comment_id ? 'comment' : entry.answer_id ? 'answer' : 'question';
+
+        return (
+          <div key={entry.id} className="flex items-start gap-3 p-4 text-sm">
+            <Badge variant="outline" className="shrink-0">
+              {ADMIN_ACTION_LABELS[entry.action]}
+            </Badge>
+            <div className="flex-1 min-w-0">
+              <p>
+                <span className="font-medium">@{entry.actor?.username ?? 'deleted user'}</span>
+                {entry.target && (
+                  <>
+                    {' → '}
+                    <Link to={`/users/${entry.target.username}`} className="hover:text-primary transition-colors">
+                      @{entry.target.username}
+                    </Link>
+                  </>
+                )}
+                {entry.question_id && (
+                  <>
+                    {' · '}
+                    <Link
+                      to={`/questions/${entry.question_id}${entry.answer_id ? `#answer-${entry.answer_id}` : ''}`}
+                      className="text-primary hover:underline"
+                    >
+                      view {postLabel}
+                    </Link>
+                  </>
+                )}
+              </p>
+              {summary && (
+                <p className="text-muted-foreground mt-0.5 break-words">{summary}</p>
+              )}
+            </div>
+            <span className="text-xs text-muted-foreground shrink-0">
+              {formatDistanceToNow(new Date(entry.created_at), { addSuffix: true })}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/lib/auth';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import {
+  BLOCKED_TERM_KIND_DESCRIPTIONS,
+  BLOCKED_TERM_KIND_LABELS,
+  BLOCKED_TERM_PLACEHOLDERS,
+  BlockedTermKind,
+  DUPLICATE_POSTS_TO_HOLD,
+  DUPLICATE_WINDOW_DAYS,
+  LINK_LIMIT_REPUTATION,
+  MAX_BLOCKED_TERM_LENGTH,
+  MAX_LINKS_BELOW_REPUTATION,
+  normalizeBlockedTerm,
+} from '@/lib/contentFilter';
+import { Plus, X } from 'lucide-react';
+
+interface BlockedTerm {
+  id: string;
+  kind: BlockedTermKind;
+  pattern: string;
+}
+
+// Errors from the blocked_terms constraints, by SQLSTATE
+const TERM_ERRORS: Record<string, string> = {
+  '23505': 'That term is already blocked.',
+  '23514': "That isn't a valid domain name.",
+  '2201B': "That isn't a valid regular expression.",
+};
+
+// Lets admins manage the blocklist used by the content filter
+export function BlockedTermsManager() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [terms, setTerms] = useState<BlockedTerm[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [kind, setKind] = useState<BlockedTermKind>('word');
+  const [pattern, setPattern] = useState('');
+  const [adding, setAdding] = useState(false);
+
+  useEffect(() => {
+    fetchTerms();
+  }, []);
+
+  const fetchTerms = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('blocked_terms')
+        .select('id, kind, pattern')
+        .order('pattern');
+
+      if (error) throw error;
+      setTerms(data || []);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to fetch blocked terms",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const normalized = normalizeBlockedTerm(kind, pattern);
+    if (!user || !normalized) return;
+
+    setAdding(true);
+    try {
+      const { error } = await supabase
+        .from('blocked_terms')
+        .insert({ kind, pattern: normalized, created_by: user.id });
+
+      if (error) {
+        if (TERM_ERRORS[error.code]) {
+          toast({
+            title: "Couldn't add term",
+            description: TERM_ERRORS[error.code],
+            variant: "destructive",
+          });
+          return;
+        }
+        throw error;
+      }
+
+      setPattern('');
+      await fetchTerms();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to add blocked term",
+        variant: "destructive",
+      });
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleRemove = async (termId: string) => {
+    try {
+      const { error } = await supabase
+        .from('blocked_terms')
+        .delete()
+        .eq('id', termId);
+
+      if (error) throw error;
+      setTerms(prev => prev.filter(t => t.id !== termId));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to remove blocked term",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-muted-foreground">
+        New and edited questions and answers that match a blocked term are held for moderator review instead of
+        being published. Posts are also held when their text was already posted {DUPLICATE_POSTS_TO_HOLD} times in
+        the last {DUPLICATE_WINDOW_DAYS} days, or when a user with under {LINK_LIMIT_REPUTATION} reputation
+        includes more than {MAX_LINKS_BELOW_REPUTATION} links. Moderators and admins are never held.
+      </p>
+
+      <form onSubmit={handleAdd} className="flex flex-col sm:flex-row gap-2">
+        <Select value={kind} onValueChange={(value) => setKind(value as BlockedTermKind)}>
+          <SelectTrigger className="sm:w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(BLOCKED_TERM_KIND_LABELS) as BlockedTermKind[]).map((key) => (
+              <SelectItem key={key} value={key}>{BLOCKED_TERM_KIND_LABELS[key]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          value={pattern}
+          onChange={(e) => setPattern(e.target.value)}
+          placeholder={BLOCKED_TERM_PLACEHOLDERS[kind]}
+          maxLength={MAX_BLOCKED_TERM_LENGTH}
+          className={kind === 'regex' ? 'font-mono' : ''}
+        />
+        <Button type="submit" variant="hero" disabled={!pattern.trim() || adding}>
+          <Plus className="w-4 h-4 mr-1" />
+          Block
+        </Button>
+      </form>
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+        </div>
+      ) : (
+        <div className="bg-gradient-card rounded-xl shadow-lg divide-y">
+          {(Object.keys(BLOCKED_TERM_KIND_LABELS) as BlockedTermKind[]).map((key) => {
+            const kindTerms = terms.filter(t => t.kind === key);
+
+            return (
+              <div key={key} className="p-4">
+                <h3 className="font-semibold">{BLOCKED_TERM_KIND_LABELS[key]}</h3>
+                <p className="text-xs text-muted-foreground mb-3">{BLOCKED_TERM_KIND_DESCRIPTIONS[key]}</p>
+                {kindTerms.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Nothing blocked yet.</p>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {kindTerms.map((term) => (
+                      <Badge
+                        key={term.id}
+                        variant="secondary"
+                        className={`gap-1 pr-1 ${key === 'regex' ? 'font-mono' : ''}`}
+                      >
+                        {term.pattern}
+                        <button
+                          type="button"
+                          onClick={() => handleRemove(term.id)}
+                          className="rounded-full p-0.5 hover:bg-destructive/20 hover:text-destructive"
+                          aria-label={`Unblock ${term.pattern}`}
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useAuth } from '@/lib/auth';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { RATE_LIMITED_ACTION_LABELS, RateLimit, RateLimitedAction } from '@/lib/rateLimits';
+import { formatDistanceToNow } from 'date-fns';
+
+type RateLimitValues = Pick<RateLimit, 'max_count' | 'window_hours' | 'new_account_max_count' | 'new_account_hours'>;
+
+const FIELDS: { key: keyof RateLimitValues; label: string; min: number }[] = [
+  { key: 'max_count', label: 'Limit', min: 1 },
+  { key: 'window_hours', label: 'Per (hours)', min: 1 },
+  { key: 'new_account_max_count', label: 'New-account limit', min: 1 },
+  { key: 'new_account_hours', label: 'New for (hours)', min: 0 },
+];
+
+// Lets admins tune the limits enforced by enforce_rate_limit()
+export function RateLimitSettings() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [limits, setLimits] = useState<RateLimit[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, RateLimitValues>>({});
+  const [loading, setLoading] = useState(true);
+  const [savingAction, setSavingAction] = useState<RateLimitedAction | null>(null);
+
+  useEffect(() => {
+    fetchLimits();
+  }, []);
+
+  const fetchLimits = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('rate_limits')
+        .select('*')
+        .order('action');
+
+      if (error) throw error;
+      setLimits(data || []);
+      setDrafts(Object.fromEntries((data || []).map(limit => [limit.action, {
+        max_count: limit.max_count,
+        window_hours: limit.window_hours,
+        new_account_max_count: limit.new_account_max_count,
+        new_account_hours: limit.new_account_hours,
+      }])));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to fetch rate limits",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleChange = (action: RateLimitedAction, key: keyof RateLimitValues, value: string) => {
+    setDrafts(prev => ({ ...prev, [action]: { ...prev[action], [key]: Number(value) } }));
+  };
+
+  const handleSave = async (action: RateLimitedAction) => {
+    if (!user) return;
+
+    setSavingAction(action);
+    try {
+      const { error } = await supabase
+        .from('rate_limits')
+        .update({ ...drafts[action], updated_by: user.id })
+        .eq('action', action);
+
+      if (error) {
+        if (error.code === '23514') {
+          toast({
+            title: "Invalid limits",
+            description: "Limits must be positive, and the new-account limit can't exceed the regular limit.",
+            variant: "destructive",
+          });
+          return;
+        }
+        throw error;
+      }
+
+      toast({
+        title: "Rate limit updated",
+        description: `${RATE_LIMITED_ACTION_LABELS[action]} now use the new limits.`,
+      });
+
+      await fetchLimits();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update rate limit",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingAction(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Limits apply to everyone except moderators and admins. Accounts younger than the "new for" age get the
+        new-account limit instead.
+      </p>
+
+      <div className="bg-gradient-card rounded-xl shadow-lg divide-y">
+        {limits.map((limit) => {
+          const draft = drafts[limit.action];
+          const changed = FIELDS.some(({ key }) => draft[key] !== limit[key]);
+
+          return (
+            <div key={limit.action} className="p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <h3 className="font-semibold">{RATE_LIMITED_ACTION_LABELS[limit.action]}</h3>
+                <span className="text-xs text-muted-foreground">
+                  Updated {formatDistanceToNow(new Date(limit.updated_at), { addSuffix: true })}
+                </span>
+              </div>
+              <div className="grid gap-3 grid-cols-2 sm:grid-cols-5 items-end">
+                {FIELDS.map(({ key, label, min }) => (
+                  <div key={key} className="space-y-1">
+                    <Label htmlFor={`${limit.action}-${key}`} className="text-xs">{label}</Label>
+                    <Input
+                      id={`${limit.action}-${key}`}
+                      type="number"
+                      min={min}
+                      value={draft[key]}
+                      onChange={(e) => handleChange(limit.action, key, e.target.value)}
+                    />
+                  </div>
+                ))}
+                <Button
+                  variant="hero"
+                  onClick={() => handleSave(limit.action)}
+                  disabled={!changed || savingAction === limit.action}
+                >
+                  {savingAction === limit.action ? "Saving..." : "Save"}
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
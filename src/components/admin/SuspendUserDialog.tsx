@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { MAX_SUSPENSION_REASON_LENGTH, SUSPENSION_DURATIONS } from '@/lib/roles';
+import { addDays } from 'date-fns';
+
+interface SuspendUserDialogProps {
+  user: { user_id: string; username: string } | null;
+  onOpenChange: (open: boolean) => void;
+  onSuspended: () => void;
+}
+
+export function SuspendUserDialog({ user, onOpenChange, onSuspended }: SuspendUserDialogProps) {
+  const { toast } = useToast();
+  const [days, setDays] = useState(String(SUSPENSION_DURATIONS[0].days));
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    if (!user || !reason.trim()) return;
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.rpc('suspend_user', {
+        _user_id: user.user_id,
+        _ends_at: addDays(new Date(), Number(days)).toISOString(),
+        _reason: reason.trim(),
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "User suspended",
+        description: `@${user.username} can't post, vote or flag until the suspension ends.`,
+      });
+
+      setReason('');
+      onOpenChange(false);
+      onSuspended();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to suspend user",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!user} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Suspend @{user?.username}</DialogTitle>
+          <DialogDescription>
+            Suspended users can still read the site and sign in, but can't ask, answer, comment, vote or flag.
+            They see the reason below.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="suspension-duration">Duration</Label>
+            <Select value={days} onValueChange={setDays}>
+              <SelectTrigger id="suspension-duration">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SUSPENSION_DURATIONS.map(({ days, label }) => (
+                  <SelectItem key={days} value={String(days)}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="suspension-reason">Reason</Label>
+            <Textarea
+              id="suspension-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={MAX_SUSPENSION_REASON_LENGTH}
+              rows={3}
+              placeholder="e.g. Repeated spam after warnings"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleSubmit}
+            disabled={!reason.trim() || submitting}
+          >
+            {submitting ? "Suspending..." : "Suspend"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
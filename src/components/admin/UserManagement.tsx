@@ -0,0 +1,218 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SuspendUserDialog } from '@/components/admin/SuspendUserDialog';
+import { useAuth } from '@/lib/auth';
+import { useProfile } from '@/hooks/useProfile';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { ROLE_LABELS, UserRole } from '@/lib/roles';
+import { Search, Ban } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+
+interface ManagedUser {
+  user_id: string;
+  username: string;
+  full_name: string;
+  role: UserRole;
+  reputation: number;
+  created_at: string;
+}
+
+const RESULTS_LIMIT = 25;
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Search users, change their roles (admins only) and suspend them
+export function UserManagement() {
+  const { user } = useAuth();
+  const { profile } = useProfile();
+  const { toast } = useToast();
+
+  const [query, setQuery] = useState('');
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [suspendedUntil, setSuspendedUntil] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [suspending, setSuspending] = useState<ManagedUser | null>(null);
+
+  const isAdmin = profile?.role === 'admin';
+
+  useEffect(() => {
+    const timeoutId = setTimeout(fetchUsers, query ? SEARCH_DEBOUNCE_MS : 0);
+    return () => clearTimeout(timeoutId);
+  }, [query]);
+
+  const fetchUsers = async () => {
+    setLoading(true);
+    try {
+      let request = supabase
+        .from('profiles')
+        .select('user_id, username, full_name, role, reputation, created_at')
+        .order('created_at', { ascending: false })
+        .limit(RESULTS_LIMIT);
+
+      const term = query.trim().replace(/[\\%_,()]/g, '\\$&');
+      if (term) {
+        request = request.or(`username.ilike.%${term}%,full_name.ilike.%${term}%`);
+      }
+
+      const { data, error } = await request;
+      if (error) throw error;
+      setUsers(data || []);
+
+      if (data && data.length > 0) {
+        const { data: suspensions, error: suspensionsError } = await supabase
+          .from('user_suspensions')
+          .select('user_id, ends_at')
+          .in('user_id', data.map(u => u.user_id))
+          .is('lifted_at', null)
+          .gt('ends_at', new Date().toISOString());
+
+        if (suspensionsError) throw suspensionsError;
+        setSuspendedUntil(Object.fromEntries((suspensions || []).map(s => [s.user_id, s.ends_at])));
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to fetch users",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRoleChange = async (target: ManagedUser, role: UserRole) => {
+    try {
+      const { error } = await supabase.rpc('set_user_role', { _user_id: target.user_id, _role: role });
+      if (error) throw error;
+
+      toast({
+        title: "Role updated",
+        description: `@${target.username} is now ${ROLE_LABELS[role].toLowerCase()}.`,
+      });
+
+      setUsers(prev => prev.map(u => (u.user_id === target.user_id ? { ...u, role } : u)));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to change role",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleLift = async (target: ManagedUser) => {
+    try {
+      const { error } = await supabase.rpc('lift_suspension', { _user_id: target.user_id });
+      if (error) throw error;
+
+      toast({
+        title: "Suspension lifted",
+        description: `@${target.username} can post again.`,
+      });
+
+      await fetchUsers();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to lift suspension",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+        <Input
+          placeholder="Search by username or name..."
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          className="pl-9"
+        />
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+        </div>
+      ) : users.length === 0 ? (
+        <p className="text-center py-12 text-muted-foreground">No users match "{query}".</p>
+      ) : (
+        <div className="bg-gradient-card rounded-xl shadow-lg divide-y">
+          {users.map((managed) => {
+            const isSelf = managed.user_id === user?.id;
+            const suspended = suspendedUntil[managed.user_id];
+            const isStaff = managed.role !== 'user';
+
+            return (
+              <div key={managed.user_id} className="flex flex-wrap items-center gap-4 p-4">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <Link to={`/users/${managed.username}`} className="font-medium hover:text-primary transition-colors">
+                      @{managed.username}
+                    </Link>
+                    {managed.full_name && (
+                      <span className="text-sm text-muted-foreground truncate">{managed.full_name}</span>
+                    )}
+                    {suspended && (
+                      <Badge variant="destructive" className="shrink-0">
+                        Suspended until {format(new Date(suspended), 'MMM d')}
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {managed.reputation.toLocaleString()} reputation · joined{' '}
+                    {formatDistanceToNow(new Date(managed.created_at), { addSuffix: true })}
+                  </p>
+                </div>
+
+                {isAdmin && !isSelf ? (
+                  <Select value={managed.role} onValueChange={(role) => handleRoleChange(managed, role as UserRole)}>
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(ROLE_LABELS) as UserRole[]).map((role) => (
+                        <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Badge variant="secondary">{ROLE_LABELS[managed.role]}</Badge>
+                )}
+
+                {suspended ? (
+                  <Button variant="outline" size="sm" onClick={() => handleLift(managed)}>
+                    Lift suspension
+                  </Button>
+                ) : (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setSuspending(managed)}
+                    disabled={isSelf || isStaff}
+                    className="text-destructive hover:text-destructive"
+                  >
+                    <Ban className="w-4 h-4 mr-1" />
+                    Suspend
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <SuspendUserDialog
+        user={suspending}
+        onOpenChange={(open) => !open && setSuspending(null)}
+        onSuspended={fetchUsers}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { Badge } from '@/components/ui/badge';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { useUserBadges, BadgeTier } from '@/hooks/useBadges';
+import { cn } from '@/lib/utils';
+import { formatDistanceToNow } from 'date-fns';
+
+const TIERS: BadgeTier[] = ['gold', 'silver', 'bronze'];
+
+const TIER_DOT_CLASSES: Record<BadgeTier, string> = {
+  gold: 'bg-yellow-400',
+  silver: 'bg-slate-400',
+  bronze: 'bg-amber-700',
+};
+
+interface BadgeShowcaseProps {
+  userId: string;
+}
+
+export function BadgeShowcase({ userId }: BadgeShowcaseProps) {
+  const { badges, loading } = useUserBadges(userId);
+
+  if (loading) {
+    return (
+      <div className="text-center py-6">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary mx-auto"></div>
+      </div>
+    );
+  }
+
+  if (badges.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No badges yet. Badges are awarded for accepted answers, well-received posts and popular questions.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center space-x-4 text-sm">
+        {TIERS.map((tier) => (
+          <span key={tier} className="flex items-center space-x-1.5">
+            <span className={cn('h-2.5 w-2.5 rounded-full', TIER_DOT_CLASSES[tier])} />
+            <span className="font-medium">{badges.filter(b => b.badges.tier === tier).length}</span>
+            <span className="text-muted-foreground capitalize">{tier}</span>
+          </span>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {badges.map((award) => (
+          <Tooltip key={award.id}>
+            <TooltipTrigger asChild>
+              <Badge variant="outline" className="flex items-center space-x-1.5 py-1 cursor-default">
+                <span className={cn('h-2 w-2 rounded-full', TIER_DOT_CLASSES[award.badges.tier])} />
+                <span>{award.tag ?? award.badges.name}</span>
+              </Badge>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p>{award.badges.description}</p>
+              <p className="text-xs text-muted-foreground">
+                Awarded {formatDistanceToNow(new Date(award.awarded_at), { addSuffix: true })}
+              </p>
+            </TooltipContent>
+          </Tooltip>
+        ))}
+      </div>
+    </div>
+  );
+}
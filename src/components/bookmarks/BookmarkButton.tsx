@@ -0,0 +1,80 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/lib/auth';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Bookmark } from 'lucide-react';
+
+interface BookmarkButtonProps {
+  questionId?: string;
+  answerId?: string;
+  bookmarked: boolean;
+}
+
+// Saves or unsaves a question or answer for the signed-in user
+export function BookmarkButton({ questionId, answerId, bookmarked: initialBookmarked }: BookmarkButtonProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [bookmarked, setBookmarked] = useState(initialBookmarked);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setBookmarked(initialBookmarked);
+  }, [initialBookmarked]);
+
+  const handleClick = async (e: React.MouseEvent) => {
+    e.stopPropagation(); // Prevent card click when bookmarking
+    if (!user || saving) return;
+
+    setSaving(true);
+    try {
+      if (bookmarked) {
+        const { error } = await supabase
+          .from('bookmarks')
+          .delete()
+          .eq('user_id', user.id)
+          .eq(answerId ? 'answer_id' : 'question_id', answerId || questionId);
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('bookmarks')
+          .insert({
+            user_id: user.id,
+            question_id: answerId ? null : questionId,
+            answer_id: answerId || null,
+          });
+
+        if (error) throw error;
+      }
+
+      setBookmarked(!bookmarked);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update bookmark",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <Button
+      variant="ghost"
+      size="icon-sm"
+      onClick={handleClick}
+      disabled={saving}
+      className={bookmarked ? 'text-primary' : 'text-muted-foreground'}
+      aria-label={bookmarked ? 'Remove bookmark' : 'Bookmark'}
+      aria-pressed={bookmarked}
+    >
+      <Bookmark className={`w-4 h-4 ${bookmarked ? 'fill-current' : ''}`} />
+    </Button>
+  );
+}
@@ -0,0 +1,258 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useBookmarks, SavedItem } from '@/hooks/useBookmarks';
+import { useToast } from '@/hooks/use-toast';
+import { markdownToPlainText } from '@/lib/markdown';
+import { FolderPlus, Pencil, StickyNote, Trash2, X } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+const ALL_ITEMS = 'all';
+const UNSORTED = 'unsorted';
+const MAX_NOTE_LENGTH = 1000;
+const MAX_LIST_NAME_LENGTH = 100;
+
+// The signed-in user's bookmarks, filed into named lists with private notes
+export function SavedItems() {
+  const { items, lists, loading, createList, renameList, deleteList, updateItem, removeItem } = useBookmarks();
+  const { toast } = useToast();
+
+  const [selectedList, setSelectedList] = useState(ALL_ITEMS);
+  const [listName, setListName] = useState('');
+  const [listFormMode, setListFormMode] = useState<'create' | 'rename' | null>(null);
+  const [editingNoteId, setEditingNoteId] = useState<string | null>(null);
+  const [note, setNote] = useState('');
+
+  const currentList = lists.find(l => l.id === selectedList);
+  const visibleItems = items.filter(item =>
+    selectedList === ALL_ITEMS ||
+    (selectedList === UNSORTED ? item.list_id === null : item.list_id === selectedList)
+  );
+
+  const showError = (description: string) => {
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const handleSaveList = async () => {
+    if (!listName.trim()) return;
+
+    if (listFormMode === 'rename' && currentList) {
+      const { error } = await renameList(currentList.id, listName);
+      if (error) return showError("Failed to rename list");
+    } else {
+      const { data, error } = await createList(listName);
+      if (error) return showError("Failed to create list");
+      if (data) setSelectedList(data.id);
+    }
+
+    setListFormMode(null);
+    setListName('');
+  };
+
+  const handleDeleteList = async () => {
+    if (!currentList) return;
+    if (!confirm(`Delete the list "${currentList.name}"? Its items will be kept as unsorted.`)) return;
+
+    const { error } = await deleteList(currentList.id);
+    if (error) return showError("Failed to delete list");
+    setSelectedList(ALL_ITEMS);
+  };
+
+  const handleMove = async (item: SavedItem, listId: string) => {
+    const { error } = await updateItem(item.id, { list_id: listId === UNSORTED ? null : listId });
+    if (error) showError("Failed to move bookmark");
+  };
+
+  const startEditingNote = (item: SavedItem) => {
+    setEditingNoteId(item.id);
+    setNote(item.note || '');
+  };
+
+  const handleSaveNote = async (item: SavedItem) => {
+    const { error } = await updateItem(item.id, { note: note.trim() || null });
+    if (error) return showError("Failed to save note");
+    setEditingNoteId(null);
+  };
+
+  const handleRemove = async (item: SavedItem) => {
+    const { error } = await removeItem(item.id);
+    if (error) showError("Failed to remove bookmark");
+  };
+
+  const itemLink = (item: SavedItem) =>
+    item.answers
+      ? `/questions/${item.answers.question_id}#answer-${item.answer_id}`
+      : `/questions/${item.question_id}`;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={selectedList} onValueChange={setSelectedList}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_ITEMS}>All saved</SelectItem>
+            <SelectItem value={UNSORTED}>Unsorted</SelectItem>
+            {lists.map((list) => (
+              <SelectItem key={list.id} value={list.id}>{list.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => {
+            setListFormMode('create');
+            setListName('');
+          }}
+        >
+          <FolderPlus className="w-4 h-4 mr-1" />
+          New list
+        </Button>
+        {currentList && (
+          <>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setListFormMode('rename');
+                setListName(currentList.name);
+              }}
+            >
+              <Pencil className="w-4 h-4 mr-1" />
+              Rename
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleDeleteList}
+              className="text-destructive hover:text-destructive hover:bg-destructive/10"
+            >
+              <Trash2 className="w-4 h-4 mr-1" />
+              Delete
+            </Button>
+          </>
+        )}
+      </div>
+
+      {listFormMode && (
+        <div className="flex gap-2">
+          <Input
+            placeholder="List name"
+            value={listName}
+            onChange={(e) => setListName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleSaveList();
+            }}
+            maxLength={MAX_LIST_NAME_LENGTH}
+            autoFocus
+          />
+          <Button variant="hero" size="sm" onClick={handleSaveList} disabled={!listName.trim()}>
+            {listFormMode === 'rename' ? 'Rename' : 'Create'}
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setListFormMode(null)}>
+            Cancel
+          </Button>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary mx-auto"></div>
+        </div>
+      ) : visibleItems.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-4">
+          {items.length === 0
+            ? 'Nothing saved yet. Use the bookmark button on a question or answer to save it here.'
+            : 'No saved items in this list.'}
+        </p>
+      ) : (
+        <ul className="divide-y">
+          {visibleItems.map((item) => (
+            <li key={item.id} className="py-3 space-y-2">
+              <div className="flex items-start gap-3">
+                <span className="min-w-[3rem] rounded-md bg-muted px-2 py-1 text-center text-sm font-medium text-muted-foreground">
+                  {item.answers?.score ?? item.questions?.score ?? 0}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <Link to={itemLink(item)} className="block truncate hover:text-primary transition-colors">
+                    {item.answers ? `Answer to: ${item.answers.questions.title}` : item.questions?.title}
+                  </Link>
+                  {item.answers && (
+                    <p className="text-sm text-muted-foreground line-clamp-2">
+                      {markdownToPlainText(item.answers.content)}
+                    </p>
+                  )}
+                  <p className="text-xs text-muted-foreground mt-1">
+                    saved {formatDistanceToNow(new Date(item.created_at), { addSuffix: true })}
+                  </p>
+                </div>
+                <Select value={item.list_id ?? UNSORTED} onValueChange={(value) => handleMove(item, value)}>
+                  <SelectTrigger className="w-36 h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNSORTED}>Unsorted</SelectItem>
+                    {lists.map((list) => (
+                      <SelectItem key={list.id} value={list.id}>{list.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={() => startEditingNote(item)}
+                  aria-label={item.note ? 'Edit note' : 'Add note'}
+                >
+                  <StickyNote className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={() => handleRemove(item)}
+                  className="text-muted-foreground hover:text-destructive"
+                  aria-label="Remove bookmark"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+
+              {editingNoteId === item.id ? (
+                <div className="ml-[3.75rem] space-y-2">
+                  <Textarea
+                    placeholder="A private note about why you saved this"
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    maxLength={MAX_NOTE_LENGTH}
+                    rows={2}
+                    className="text-sm"
+                  />
+                  <div className="flex gap-2">
+                    <Button variant="hero" size="sm" onClick={() => handleSaveNote(item)}>
+                      Save note
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => setEditingNoteId(null)}>
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              ) : item.note && (
+                <p className="ml-[3.75rem] rounded-md bg-muted/50 px-3 py-2 text-sm whitespace-pre-wrap">
+                  {item.note}
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
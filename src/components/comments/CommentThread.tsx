@@ -0,0 +1,326 @@
+import { useState, useEffect } from 'react';
+import { useLocation, Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { MentionTextarea } from '@/components/markdown/MentionTextarea';
+import { FlagButton } from '@/components/moderation/FlagButton';
+import { useAuth } from '@/lib/auth';
+import { useProfile } from '@/hooks/useProfile';
+import { usePrivileges } from '@/hooks/usePrivileges';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { isModerator } from '@/lib/roles';
+import { ChevronUp, Trash2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+interface Comment {
+  id: string;
+  content: string;
+  user_id: string;
+  upvote_count: number;
+  created_at: string;
+  deleted_at: string | null;
+  profiles: {
+    username: string;
+  };
+}
+
+interface CommentThreadProps {
+  questionId?: string;
+  answerId?: string;
+  // Users who may always comment here (the post's author, and the asker on answers)
+  ownerIds?: string[];
+}
+
+const VISIBLE_COMMENTS = 3;
+const MAX_COMMENT_LENGTH = 600;
+
+export function CommentThread({ questionId, answerId, ownerIds = [] }: CommentThreadProps) {
+  const { user } = useAuth();
+  const { profile } = useProfile();
+  const { can, requirement } = usePrivileges(profile);
+  const { toast } = useToast();
+  const location = useLocation();
+
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [votedIds, setVotedIds] = useState<Set<string>>(new Set());
+  const [expanded, setExpanded] = useState(false);
+  const [composing, setComposing] = useState(false);
+  const [newComment, setNewComment] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const canModerate = isModerator(profile);
+  const canComment = !!user && (ownerIds.includes(user.id) || can('comment'));
+
+  useEffect(() => {
+    fetchComments();
+  }, [questionId, answerId, user]);
+
+  useEffect(() => {
+    if (!location.hash.startsWith('#comment-')) return;
+    document.getElementById(location.hash.slice(1))?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [comments, expanded, location.hash]);
+
+  const fetchComments = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('comments')
+        .select(`
+          *,
+          profiles!comments_user_id_fkey (
+            username
+          )
+        `)
+        .eq(answerId ? 'answer_id' : 'question_id', answerId || questionId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setComments(data || []);
+
+      // Reveal a collapsed comment that a notification linked to
+      if (data?.some(c => location.hash === `#comment-${c.id}`)) {
+        setExpanded(true);
+      }
+
+      if (user && data && data.length > 0) {
+        const { data: votesData } = await supabase
+          .from('comment_votes')
+          .select('comment_id')
+          .eq('user_id', user.id)
+          .in('comment_id', data.map(c => c.id));
+
+        setVotedIds(new Set((votesData || []).map(v => v.comment_id)));
+      }
+    } catch (error) {
+      console.error('Failed to fetch comments:', error);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!user || !newComment.trim()) return;
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase
+        .from('comments')
+        .insert({
+          content: newComment.trim(),
+          user_id: user.id,
+          question_id: answerId ? null : questionId,
+          answer_id: answerId || null,
+        });
+
+      if (error) throw error;
+
+      setNewComment('');
+      setComposing(false);
+      setExpanded(true);
+      await fetchComments();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to add comment",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleVote = async (comment: Comment) => {
+    if (!user || comment.user_id === user.id) return;
+
+    try {
+      if (votedIds.has(comment.id)) {
+        const { error } = await supabase
+          .from('comment_votes')
+          .delete()
+          .eq('user_id', user.id)
+          .eq('comment_id', comment.id);
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('comment_votes')
+          .insert({
+            user_id: user.id,
+            comment_id: comment.id,
+          });
+
+        if (error) throw error;
+      }
+
+      await fetchComments();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update vote",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (commentId: string) => {
+    try {
+      const { error } = await supabase
+        .from('comments')
+        .delete()
+        .eq('id', commentId);
+
+      if (error) throw error;
+
+      setComments(prev => prev.filter(c => c.id !== commentId));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete comment",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const hiddenCount = Math.max(0, comments.length - VISIBLE_COMMENTS);
+  const visibleComments = expanded ? comments : comments.slice(0, VISIBLE_COMMENTS);
+
+  return (
+    <div className="mt-4 border-t pt-3">
+      {visibleComments.length > 0 && (
+        <ul className="divide-y">
+          {visibleComments.map((comment) => {
+            const voted = votedIds.has(comment.id);
+            const canDelete = user?.id === comment.user_id || canModerate;
+
+            return (
+              <li
+                key={comment.id}
+                id={`comment-${comment.id}`}
+                className={`group flex items-start gap-2 py-2 text-sm ${comment.deleted_at ? 'opacity-60' : ''}`}
+              >
+                <div className="flex items-center min-w-[3rem]">
+                  <span className={`w-5 text-right text-xs ${comment.upvote_count > 0 ? 'text-foreground font-medium' : 'text-muted-foreground'}`}>
+                    {comment.upvote_count > 0 ? comment.upvote_count : ''}
+                  </span>
+                  {user && user.id !== comment.user_id && (
+                    <button
+                      type="button"
+                      onClick={() => handleVote(comment)}
+                      className={`ml-1 rounded hover:bg-accent ${voted ? 'text-success' : 'text-muted-foreground opacity-60 group-hover:opacity-100'}`}
+                      aria-label={voted ? 'Remove upvote' : 'Upvote comment'}
+                    >
+                      <ChevronUp className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+                <p className="flex-1 whitespace-pre-wrap break-words text-foreground/90">
+                  {comment.content}
+                  <span className="text-muted-foreground">
+                    {' '}–{' '}
+                    <Link to={`/users/${comment.profiles.username}`} className="hover:text-primary transition-colors">
+                      @{comment.profiles.username}
+                    </Link>{' '}
+                    {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+                  </span>
+                  {comment.deleted_at && (
+                    <span className="ml-1 text-xs text-destructive">(hidden after flags)</span>
+                  )}
+                </p>
+                {!comment.deleted_at && (
+                  <FlagButton commentId={comment.id} authorId={comment.user_id} iconOnly />
+                )}
+                {canDelete && (
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(comment.id)}
+                    className="text-muted-foreground hover:text-destructive opacity-0 group-hover:opacity-100 transition-opacity"
+                    aria-label="Delete comment"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="flex items-center gap-4 mt-1">
+        {hiddenCount > 0 && (
+          <Button
+            variant="link"
+            size="sm"
+            className="px-0 h-auto text-muted-foreground"
+            onClick={() => setExpanded(!expanded)}
+          >
+            {expanded ? 'Show fewer comments' : `Show ${hiddenCount} more ${hiddenCount === 1 ? 'comment' : 'comments'}`}
+          </Button>
+        )}
+        {canComment && !composing && (
+          <Button
+            variant="link"
+            size="sm"
+            className="px-0 h-auto text-muted-foreground"
+            onClick={() => setComposing(true)}
+          >
+            Add a comment
+          </Button>
+        )}
+        {user && !canComment && (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <span tabIndex={0}>
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="px-0 h-auto text-muted-foreground"
+                  disabled
+                >
+                  Add a comment
+                </Button>
+              </span>
+            </TooltipTrigger>
+            <TooltipContent>{requirement('comment')}</TooltipContent>
+          </Tooltip>
+        )}
+      </div>
+
+      {composing && (
+        <div className="mt-2 space-y-2">
+          <MentionTextarea
+            placeholder="Ask for clarification or suggest an improvement..."
+            value={newComment}
+            onValueChange={setNewComment}
+            maxLength={MAX_COMMENT_LENGTH}
+            rows={2}
+            className="text-sm"
+          />
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-muted-foreground">
+              {newComment.length}/{MAX_COMMENT_LENGTH} characters
+            </span>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => {
+                  setComposing(false);
+                  setNewComment('');
+                }}
+                disabled={submitting}
+              >
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                variant="hero"
+                onClick={handleSubmit}
+                disabled={!newComment.trim() || submitting}
+              >
+                {submitting ? "Posting..." : "Add Comment"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
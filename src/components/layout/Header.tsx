@@ -10,14 +10,22 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { useAuth } from '@/lib/auth';
 import { useProfile } from '@/hooks/useProfile';
+import { useUnreadNotificationCount } from '@/hooks/useNotifications';
+import { useBadgeToasts } from '@/hooks/useBadges';
+import { useSuspension } from '@/hooks/useSuspension';
+import { isModerator, ROLE_LABELS } from '@/lib/roles';
 import { useNavigate } from 'react-router-dom';
 import { useToast } from '@/hooks/use-toast';
-import { MessageSquare, Plus, Bell, Sun, Moon, User, LogOut, Settings } from 'lucide-react';
+import { MessageSquare, Plus, Bell, Sun, Moon, User, LogOut, Settings, Tag, Bookmark, LockOpen, Trash2, ShieldCheck, Shield, Ban } from 'lucide-react';
 import { useTheme } from 'next-themes';
+import { format } from 'date-fns';
 
 export function Header() {
   const { user, signOut } = useAuth();
   const { profile } = useProfile();
+  const unreadCount = useUnreadNotificationCount();
+  useBadgeToasts();
+  const suspension = useSuspension();
   const navigate = useNavigate();
   const { toast } = useToast();
   const { theme, setTheme } = useTheme();
@@ -69,6 +77,16 @@ export function Header() {
         </div>
 
         <div className="flex items-center space-x-4">
+          <Button
+            onClick={() => navigate('/tags')}
+            variant="ghost"
+            size="sm"
+            className="flex items-center space-x-2"
+          >
+            <Tag className="w-4 h-4" />
+            <span>Tags</span>
+          </Button>
+
           {user && (
             <Button
               onClick={() => navigate('/ask')}
@@ -103,8 +121,14 @@ export function Header() {
                       {profile?.full_name ? getInitials(profile.full_name) : 'U'}
                     </AvatarFallback>
                   </Avatar>
-                  {/* Notification indicator */}
-                  <div className="absolute -top-1 -right-1 h-3 w-3 bg-destructive rounded-full border-2 border-background"></div>
+                  {unreadCount > 0 && (
+                    <span
+                      className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 flex items-center justify-center bg-destructive text-destructive-foreground text-[10px] font-semibold rounded-full border-2 border-background"
+                      aria-label={`${unreadCount} unread notifications`}
+                    >
+                      {unreadCount > 99 ? '99+' : unreadCount}
+                    </span>
+                  )}
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent className="w-56" align="end">
@@ -112,21 +136,54 @@ export function Header() {
                   <div className="flex flex-col space-y-1 leading-none">
                     <p className="font-medium">{profile?.full_name}</p>
                     <p className="text-sm text-muted-foreground">@{profile?.username}</p>
-                    {profile?.role === 'admin' && (
-                      <Badge variant="secondary" className="w-fit">Admin</Badge>
+                    {isModerator(profile) && (
+                      <Badge variant="secondary" className="w-fit">{ROLE_LABELS[profile.role]}</Badge>
                     )}
                   </div>
                 </div>
                 <DropdownMenuSeparator />
-                <DropdownMenuItem onClick={() => navigate('/profile')}>
+                <DropdownMenuItem
+                  onClick={() => navigate(profile ? `/users/${profile.username}` : '/profile')}
+                >
                   <User className="mr-2 h-4 w-4" />
                   Profile
                 </DropdownMenuItem>
                 <DropdownMenuItem onClick={() => navigate('/notifications')}>
                   <Bell className="mr-2 h-4 w-4" />
                   Notifications
+                  {unreadCount > 0 && (
+                    <Badge variant="destructive" className="ml-auto px-1.5 py-0">
+                      {unreadCount}
+                    </Badge>
+                  )}
                 </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => navigate('/settings')}>
+                {profile && (
+                  <DropdownMenuItem onClick={() => navigate(`/users/${profile.username}?tab=saved`)}>
+                    <Bookmark className="mr-2 h-4 w-4" />
+                    Saved
+                  </DropdownMenuItem>
+                )}
+                <DropdownMenuItem onClick={() => navigate('/review/reopen')}>
+                  <LockOpen className="mr-2 h-4 w-4" />
+                  Reopen queue
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => navigate('/trash')}>
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Trash
+                </DropdownMenuItem>
+                {isModerator(profile) && (
+                  <>
+                    <DropdownMenuItem onClick={() => navigate('/moderation')}>
+                      <ShieldCheck className="mr-2 h-4 w-4" />
+                      Moderation
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => navigate('/admin')}>
+                      <Shield className="mr-2 h-4 w-4" />
+                      Admin
+                    </DropdownMenuItem>
+                  </>
+                )}
+                <DropdownMenuItem onClick={() => navigate('/profile')}>
                   <Settings className="mr-2 h-4 w-4" />
                   Settings
                 </DropdownMenuItem>
@@ -144,6 +201,18 @@ export function Header() {
           )}
         </div>
       </div>
+
+      {suspension && (
+        <div className="border-t border-destructive/40 bg-destructive/10">
+          <div className="container flex items-center gap-2 px-4 py-2 text-sm">
+            <Ban className="w-4 h-4 text-destructive shrink-0" />
+            <span>
+              Your account is suspended until {format(new Date(suspension.ends_at), 'MMM d, yyyy HH:mm')}:{' '}
+              {suspension.reason}. You can't post, vote or flag until then.
+            </span>
+          </div>
+        </div>
+      )}
     </header>
   );
 }
\ No newline at end of file
@@ -0,0 +1,67 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { highlightCode } from '@/lib/highlight';
+import { Check, Copy } from 'lucide-react';
+
+interface CodeBlockProps {
+  code: string;
+  language?: string;
+  tags?: string[];
+}
+
+export function CodeBlock({ code, language, tags }: CodeBlockProps) {
+  const { toast } = useToast();
+  const [copied, setCopied] = useState(false);
+
+  const highlighted = useMemo(() => highlightCode(code, language, tags), [code, language, tags]);
+  const lineCount = code.split('\n').length;
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+      toast({
+        title: "Copied",
+        description: "Code copied to clipboard.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to copy code",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="code-block not-prose relative my-4 overflow-hidden rounded-lg border">
+      <div className="flex items-center justify-between border-b px-3 py-1 bg-muted/50">
+        <span className="text-xs font-mono text-muted-foreground">
+          {highlighted.language ?? 'text'}
+        </span>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon-sm"
+          onClick={handleCopy}
+          aria-label="Copy code"
+        >
+          {copied ? <Check className="w-4 h-4 text-success" /> : <Copy className="w-4 h-4" />}
+        </Button>
+      </div>
+      <div className="flex overflow-x-auto text-sm leading-6 font-mono">
+        <div aria-hidden className="select-none py-3 pl-3 pr-3 text-right text-muted-foreground/60 border-r">
+          {Array.from({ length: lineCount }, (_, i) => (
+            <div key={i}>{i + 1}</div>
+          ))}
+        </div>
+        <pre className="flex-1 py-3 px-4 m-0">
+          {/* highlight.js escapes the source and only emits its own <span> markup */}
+          <code className="hljs" dangerouslySetInnerHTML={{ __html: highlighted.html }} />
+        </pre>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { useMemo } from 'react';
+import { CodeBlock } from '@/components/markdown/CodeBlock';
+import { parseMarkdownBlocks } from '@/lib/markdown';
+import { cn } from '@/lib/utils';
+
+interface MarkdownContentProps {
+  source: string;
+  // Used to infer the language of code blocks without an explicit fence language
+  tags?: string[];
+  className?: string;
+}
+
+export function MarkdownContent({ source, tags, className }: MarkdownContentProps) {
+  const blocks = useMemo(() => parseMarkdownBlocks(source), [source]);
+
+  return (
+    <div
+      className={cn(
+        'prose prose-sm sm:prose-base dark:prose-invert max-w-none break-words',
+        'prose-a:text-primary prose-pre:bg-muted prose-pre:text-foreground prose-code:before:content-none prose-code:after:content-none',
+        className
+      )}
+    >
+      {blocks.map((block, index) =>
+        block.type === 'code' ? (
+          <CodeBlock key={index} code={block.code} language={block.language} tags={tags} />
+        ) : (
+          // parseMarkdownBlocks sanitizes HTML runs against an allowlist
+          <div key={index} className="contents" dangerouslySetInnerHTML={{ __html: block.html }} />
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import { useLayoutEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { MarkdownContent } from '@/components/markdown/MarkdownContent';
+import { MentionTextarea } from '@/components/markdown/MentionTextarea';
+import { applyFormat, htmlToMarkdown, insertText, shortcutFor, EditorState, MarkdownFormat } from '@/lib/editor';
+import { cn } from '@/lib/utils';
+import { Bold, Italic, Link, List, ListOrdered, SquareCode, Quote } from 'lucide-react';
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+const mod = isMac ? '⌘' : 'Ctrl';
+
+const TOOLBAR: { format: MarkdownFormat; label: string; shortcut: string; icon: typeof Bold }[] = [
+  { format: 'bold', label: 'Bold', shortcut: `${mod}+B`, icon: Bold },
+  { format: 'italic', label: 'Italic', shortcut: `${mod}+I`, icon: Italic },
+  { format: 'link', label: 'Link', shortcut: `${mod}+K`, icon: Link },
+  { format: 'bulletList', label: 'Bulleted list', shortcut: `${mod}+Shift+8`, icon: List },
+  { format: 'orderedList', label: 'Numbered list', shortcut: `${mod}+Shift+7`, icon: ListOrdered },
+  { format: 'codeBlock', label: 'Code block', shortcut: `${mod}+Shift+C`, icon: SquareCode },
+  { format: 'quote', label: 'Quote', shortcut: `${mod}+Shift+.`, icon: Quote },
+];
+
+interface MarkdownEditorProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  rows?: number;
+  disabled?: boolean;
+  required?: boolean;
+  className?: string;
+}
+
+export function MarkdownEditor({
+  id,
+  value,
+  onChange,
+  placeholder,
+  rows = 8,
+  disabled,
+  required,
+  className,
+}: MarkdownEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const pendingSelection = useRef<{ start: number; end: number } | null>(null);
+  const [tab, setTab] = useState('write');
+
+  // Restore the caret/selection once the controlled value has been re-rendered
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    if (textarea && pendingSelection.current) {
+      textarea.focus();
+      textarea.setSelectionRange(pendingSelection.current.start, pendingSelection.current.end);
+      pendingSelection.current = null;
+    }
+  }, [value]);
+
+  const currentState = (): EditorState => {
+    const textarea = textareaRef.current;
+    return {
+      value,
+      start: textarea?.selectionStart ?? value.length,
+      end: textarea?.selectionEnd ?? value.length,
+    };
+  };
+
+  const commit = (next: EditorState) => {
+    pendingSelection.current = { start: next.start, end: next.end };
+    onChange(next.value);
+  };
+
+  const handleFormat = (format: MarkdownFormat) => {
+    if (disabled) return;
+    commit(applyFormat(currentState(), format));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const format = shortcutFor(e.nativeEvent);
+    if (format) {
+      e.preventDefault();
+      handleFormat(format);
+    }
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const html = e.clipboardData.getData('text/html');
+    if (!html) return;
+
+    const markdown = htmlToMarkdown(html);
+    if (markdown === null) return;
+
+    e.preventDefault();
+    commit(insertText(currentState(), markdown));
+  };
+
+  return (
+    <Tabs value={tab} onValueChange={setTab} className={cn('w-full', className)}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <TabsList>
+          <TabsTrigger value="write">Write</TabsTrigger>
+          <TabsTrigger value="preview">Preview</TabsTrigger>
+        </TabsList>
+
+        {tab === 'write' && (
+          <div className="flex items-center space-x-1">
+            {TOOLBAR.map(({ format, label, shortcut, icon: Icon }) => (
+              <Tooltip key={format}>
+                <TooltipTrigger asChild>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon-sm"
+                    onClick={() => handleFormat(format)}
+                    disabled={disabled}
+                    aria-label={label}
+                  >
+                    <Icon className="w-4 h-4" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  {label} <span className="text-muted-foreground">({shortcut})</span>
+                </TooltipContent>
+              </Tooltip>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <TabsContent value="write">
+        <MentionTextarea
+          id={id}
+          ref={textareaRef}
+          value={value}
+          onValueChange={onChange}
+          onKeyDown={handleKeyDown}
+          onPaste={handlePaste}
+          placeholder={placeholder}
+          rows={rows}
+          disabled={disabled}
+          required={required}
+          className="font-mono text-sm"
+        />
+        <p className="text-xs text-muted-foreground mt-1">
+          Markdown supported. Type @ to mention someone; pasted formatted text is converted automatically.
+        </p>
+      </TabsContent>
+
+      <TabsContent value="preview">
+        <div className="min-h-[120px] rounded-md border border-input bg-background px-3 py-2">
+          {value.trim() ? (
+            <MarkdownContent source={value} />
+          ) : (
+            <p className="text-sm text-muted-foreground">Nothing to preview yet.</p>
+          )}
+        </div>
+      </TabsContent>
+    </Tabs>
+  );
+}
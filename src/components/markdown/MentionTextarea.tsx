@@ -0,0 +1,143 @@
+import * as React from 'react';
+import { useImperativeHandle, useLayoutEffect, useRef, useState } from 'react';
+import { Textarea, TextareaProps } from '@/components/ui/textarea';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { useProfileSearch } from '@/hooks/useProfileSearch';
+import { getMentionQuery, insertMention } from '@/lib/editor';
+import { cn } from '@/lib/utils';
+
+interface MentionTextareaProps extends Omit<TextareaProps, 'value' | 'onChange'> {
+  value: string;
+  onValueChange: (value: string) => void;
+}
+
+// A Textarea that suggests matching usernames while an @mention is being typed
+export const MentionTextarea = React.forwardRef<HTMLTextAreaElement, MentionTextareaProps>(
+  ({ value, onValueChange, onKeyDown, className, ...props }, ref) => {
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const pendingCaret = useRef<number | null>(null);
+    const [mention, setMention] = useState<{ query: string; start: number } | null>(null);
+    const [activeIndex, setActiveIndex] = useState(0);
+    const { results } = useProfileSearch(mention?.query ?? null);
+
+    useImperativeHandle(ref, () => textareaRef.current as HTMLTextAreaElement);
+
+    useLayoutEffect(() => {
+      if (textareaRef.current && pendingCaret.current !== null) {
+        textareaRef.current.setSelectionRange(pendingCaret.current, pendingCaret.current);
+        pendingCaret.current = null;
+      }
+    }, [value]);
+
+    const updateMention = (textarea: HTMLTextAreaElement) => {
+      const next = textarea.selectionStart === textarea.selectionEnd
+        ? getMentionQuery(textarea.value, textarea.selectionStart)
+        : null;
+      if (next?.query !== mention?.query || next?.start !== mention?.start) {
+        setMention(next);
+        setActiveIndex(0);
+      }
+    };
+
+    const selectUser = (username: string) => {
+      const textarea = textareaRef.current;
+      if (!textarea || !mention) return;
+
+      const next = insertMention(
+        { value, start: textarea.selectionStart, end: textarea.selectionEnd },
+        mention.start,
+        username
+      );
+      pendingCaret.current = next.start;
+      setMention(null);
+      onValueChange(next.value);
+    };
+
+    const open = mention !== null && results.length > 0;
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+      if (open) {
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+          e.preventDefault();
+          const step = e.key === 'ArrowDown' ? 1 : -1;
+          setActiveIndex(index => (index + step + results.length) % results.length);
+          return;
+        }
+        if (e.key === 'Enter' || e.key === 'Tab') {
+          e.preventDefault();
+          selectUser(results[activeIndex].username);
+          return;
+        }
+        if (e.key === 'Escape') {
+          e.preventDefault();
+          setMention(null);
+          return;
+        }
+      }
+      onKeyDown?.(e);
+    };
+
+    const getInitials = (name: string) => {
+      return name
+        .split(' ')
+        .map(n => n[0])
+        .join('')
+        .toUpperCase()
+        .slice(0, 2);
+    };
+
+    return (
+      <div className="relative">
+        <Textarea
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => onValueChange(e.target.value)}
+          onSelect={(e) => updateMention(e.currentTarget)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setMention(null)}
+          className={className}
+          aria-autocomplete="list"
+          aria-expanded={open}
+          {...props}
+        />
+
+        {open && (
+          <ul
+            role="listbox"
+            className="absolute left-2 bottom-2 translate-y-full z-50 w-64 rounded-md border bg-popover p-1 text-popover-foreground shadow-md"
+          >
+            {results.map((profile, index) => (
+              <li
+                key={profile.user_id}
+                role="option"
+                aria-selected={index === activeIndex}
+                // Keep focus in the textarea so the caret position survives
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  selectUser(profile.username);
+                }}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={cn(
+                  'flex items-center gap-2 rounded-sm px-2 py-1.5 text-sm cursor-pointer',
+                  index === activeIndex && 'bg-accent text-accent-foreground'
+                )}
+              >
+                <Avatar className="h-5 w-5">
+                  <AvatarImage src={profile.avatar_url} />
+                  <AvatarFallback className="text-[10px] bg-gradient-primary text-primary-foreground">
+                    {getInitials(profile.full_name || profile.username)}
+                  </AvatarFallback>
+                </Avatar>
+                <span className="font-medium">@{profile.username}</span>
+                {profile.full_name && (
+                  <span className="text-muted-foreground truncate">{profile.full_name}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  }
+);
+MentionTextarea.displayName = 'MentionTextarea';
@@ -0,0 +1,183 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useAuth } from '@/lib/auth';
+import { useProfile } from '@/hooks/useProfile';
+import { usePrivileges } from '@/hooks/usePrivileges';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { FLAG_REASON_DESCRIPTIONS, FLAG_REASON_LABELS, MAX_FLAG_DETAILS_LENGTH, FlagReason } from '@/lib/flags';
+import { Flag } from 'lucide-react';
+
+interface FlagButtonProps {
+  questionId?: string;
+  answerId?: string;
+  commentId?: string;
+  // The post's author, who can't flag their own post
+  authorId: string;
+  // Render a small icon, as next to comments
+  iconOnly?: boolean;
+}
+
+// Lets users report a question, answer or comment to the moderators
+export function FlagButton({ questionId, answerId, commentId, authorId, iconOnly = false }: FlagButtonProps) {
+  const { user } = useAuth();
+  const { profile } = useProfile();
+  const { can, requirement } = usePrivileges(profile);
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState<FlagReason | ''>('');
+  const [details, setDetails] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const kind = commentId ? 'comment' : answerId ? 'answer' : 'question';
+  const needsDetails = reason === 'needs_moderator' && !details.trim();
+
+  const handleSubmit = async () => {
+    if (!user || !reason || needsDetails) return;
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase
+        .from('flags')
+        .insert({
+          user_id: user.id,
+          question_id: questionId ?? null,
+          answer_id: answerId ?? null,
+          comment_id: commentId ?? null,
+          reason,
+          details: details.trim() || null,
+        });
+
+      if (error) {
+        if (error.code === '23505') {
+          toast({
+            title: "Already flagged",
+            description: `You have already flagged this ${kind}.`,
+          });
+          setOpen(false);
+          return;
+        }
+        throw error;
+      }
+
+      toast({
+        title: "Thanks for the flag",
+        description: "A moderator will review it soon.",
+      });
+
+      setOpen(false);
+      setReason('');
+      setDetails('');
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: `Failed to flag ${kind}`,
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!user || user.id === authorId) {
+    return null;
+  }
+
+  const trigger = iconOnly ? (
+    <button
+      type="button"
+      onClick={() => setOpen(true)}
+      disabled={!can('flag')}
+      className="text-muted-foreground hover:text-destructive opacity-0 group-hover:opacity-100 transition-opacity disabled:cursor-not-allowed"
+      aria-label={`Flag ${kind}`}
+    >
+      <Flag className="w-3.5 h-3.5" />
+    </button>
+  ) : (
+    <Button variant="ghost" size="sm" onClick={() => setOpen(true)} disabled={!can('flag')}>
+      <Flag className="w-4 h-4 mr-1" />
+      Flag
+    </Button>
+  );
+
+  return (
+    <>
+      {can('flag') ? (
+        trigger
+      ) : (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <span tabIndex={0}>{trigger}</span>
+          </TooltipTrigger>
+          <TooltipContent>{requirement('flag')}</TooltipContent>
+        </Tooltip>
+      )}
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Why are you flagging this {kind}?</DialogTitle>
+            <DialogDescription>
+              Flags are reviewed by moderators. Use them for content that breaks the rules, not to disagree.
+            </DialogDescription>
+          </DialogHeader>
+
+          <RadioGroup value={reason} onValueChange={(value) => setReason(value as FlagReason)} className="gap-3">
+            {(Object.keys(FLAG_REASON_LABELS) as FlagReason[]).map((key) => (
+              <div key={key} className="flex items-start space-x-3">
+                <RadioGroupItem value={key} id={`flag-reason-${key}`} className="mt-1" />
+                <Label htmlFor={`flag-reason-${key}`} className="font-normal leading-snug">
+                  <span className="font-medium">{FLAG_REASON_LABELS[key]}</span>
+                  <span className="block text-sm text-muted-foreground">{FLAG_REASON_DESCRIPTIONS[key]}</span>
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          {reason && (
+            <div className="space-y-2">
+              <Label htmlFor="flag-details">
+                {reason === 'needs_moderator' ? 'What needs attention?' : 'Anything else? (optional)'}
+              </Label>
+              <Textarea
+                id="flag-details"
+                value={details}
+                onChange={(e) => setDetails(e.target.value)}
+                maxLength={MAX_FLAG_DETAILS_LENGTH}
+                rows={3}
+              />
+              <p className="text-xs text-muted-foreground text-right">
+                {details.length}/{MAX_FLAG_DETAILS_LENGTH} characters
+              </p>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button
+              variant="hero"
+              onClick={handleSubmit}
+              disabled={!reason || needsDetails || submitting}
+            >
+              {submitting ? "Flagging..." : "Flag"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,107 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Badge } from '@/components/ui/badge';
+import { useAuth } from '@/lib/auth';
+import { supabase } from '@/integrations/supabase/client';
+import { FLAG_REASON_LABELS, FlagReason, FlagStatus } from '@/lib/flags';
+import { formatDistanceToNow } from 'date-fns';
+
+interface RaisedFlag {
+  id: string;
+  reason: FlagReason;
+  status: FlagStatus;
+  question_id: string | null;
+  answer_id: string | null;
+  comment_id: string | null;
+  created_at: string;
+}
+
+const RECENT_FLAGS = 10;
+
+const STATUS_VARIANTS: Record<FlagStatus, 'secondary' | 'default' | 'destructive'> = {
+  pending: 'secondary',
+  helpful: 'default',
+  declined: 'destructive',
+};
+
+// The signed-in user's flagging record: how their flags were judged, and the latest ones
+export function FlagHistory() {
+  const { user } = useAuth();
+  const [flags, setFlags] = useState<RaisedFlag[]>([]);
+  const [counts, setCounts] = useState<Record<FlagStatus, number>>({ pending: 0, helpful: 0, declined: 0 });
+
+  useEffect(() => {
+    if (user) {
+      fetchFlags();
+    }
+  }, [user]);
+
+  const fetchFlags = async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('flags')
+        .select('id, reason, status, question_id, answer_id, comment_id, created_at')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      const all = data || [];
+      setFlags(all.slice(0, RECENT_FLAGS));
+      setCounts({
+        pending: all.filter(f => f.status === 'pending').length,
+        helpful: all.filter(f => f.status === 'helpful').length,
+        declined: all.filter(f => f.status === 'declined').length,
+      });
+    } catch (error) {
+      console.error('Failed to fetch flags:', error);
+    }
+  };
+
+  const describe = (flag: RaisedFlag) =>
+    flag.comment_id ? 'a comment' : flag.answer_id ? 'an answer' : 'a question';
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-4 text-center">
+        {(['helpful', 'declined', 'pending'] as FlagStatus[]).map((status) => (
+          <div key={status} className="rounded-lg border p-3">
+            <p className="text-2xl font-bold">{counts[status]}</p>
+            <p className="text-sm text-muted-foreground capitalize">{status}</p>
+          </div>
+        ))}
+      </div>
+
+      {flags.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          You haven't flagged anything yet. Flag posts that are spam, rude or need a moderator's attention.
+        </p>
+      ) : (
+        <ul className="divide-y text-sm">
+          {flags.map((flag) => (
+            <li key={flag.id} className="flex items-center justify-between gap-3 py-2">
+              <span className="min-w-0 truncate">
+                <span className="font-medium">{FLAG_REASON_LABELS[flag.reason]}</span> on{' '}
+                {flag.question_id ? (
+                  <Link to={`/questions/${flag.question_id}`} className="text-primary hover:underline">
+                    {describe(flag)}
+                  </Link>
+                ) : (
+                  describe(flag)
+                )}
+                <span className="text-muted-foreground">
+                  {' '}{formatDistanceToNow(new Date(flag.created_at), { addSuffix: true })}
+                </span>
+              </span>
+              <Badge variant={STATUS_VARIANTS[flag.status]} className="capitalize shrink-0">
+                {flag.status}
+              </Badge>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
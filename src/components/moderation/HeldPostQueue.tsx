@@ -0,0 +1,203 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { markdownToPlainText } from '@/lib/markdown';
+import { Check, X, Clock } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+// A question or answer the content filter held back
+interface HeldPost {
+  kind: 'question' | 'answer';
+  id: string;
+  questionId: string;
+  title: string | null;
+  excerpt: string;
+  reason: string | null;
+  heldAt: string;
+  author: string;
+}
+
+const QUEUE_SIZE = 100;
+
+export function HeldPostQueue() {
+  const { toast } = useToast();
+  const [posts, setPosts] = useState<HeldPost[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchHeldPosts();
+  }, []);
+
+  const fetchHeldPosts = async () => {
+    try {
+      const [questionsResult, answersResult] = await Promise.all([
+        supabase
+          .from('questions')
+          .select(`
+            id,
+            title,
+            description,
+            held_at,
+            held_reason,
+            profiles!questions_user_id_fkey (
+              username
+            )
+          `)
+          .not('held_at', 'is', null)
+          .is('deleted_at', null)
+          .order('held_at', { ascending: true })
+          .limit(QUEUE_SIZE),
+        supabase
+          .from('answers')
+          .select(`
+            id,
+            question_id,
+            content,
+            held_at,
+            held_reason,
+            profiles!answers_user_id_fkey (
+              username
+            )
+          `)
+          .not('held_at', 'is', null)
+          .is('deleted_at', null)
+          .order('held_at', { ascending: true })
+          .limit(QUEUE_SIZE),
+      ]);
+
+      if (questionsResult.error) throw questionsResult.error;
+      if (answersResult.error) throw answersResult.error;
+
+      const held: HeldPost[] = [
+        ...(questionsResult.data || []).map(q => ({
+          kind: 'question' as const,
+          id: q.id,
+          questionId: q.id,
+          title: q.title,
+          excerpt: markdownToPlainText(q.description),
+          reason: q.held_reason,
+          heldAt: q.held_at,
+          author: q.profiles.username,
+        })),
+        ...(answersResult.data || []).map(a => ({
+          kind: 'answer' as const,
+          id: a.id,
+          questionId: a.question_id,
+          title: null,
+          excerpt: markdownToPlainText(a.content),
+          reason: a.held_reason,
+          heldAt: a.held_at,
+          author: a.profiles.username,
+        })),
+      ];
+
+      // Oldest first, so nothing waits in the queue indefinitely
+      setPosts(held.sort((a, b) => a.heldAt.localeCompare(b.heldAt)));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to fetch held posts",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReview = async (post: HeldPost, approve: boolean) => {
+    setReviewingId(post.id);
+    try {
+      const { error } = await supabase.rpc('review_held_post', {
+        _approve: approve,
+        _question_id: post.kind === 'question' ? post.id : undefined,
+        _answer_id: post.kind === 'answer' ? post.id : undefined,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: approve ? "Post approved" : "Post rejected",
+        description: approve
+          ? `The ${post.kind} is now visible to everyone.`
+          : `The ${post.kind} has been deleted.`,
+      });
+
+      setPosts(prev => prev.filter(p => !(p.kind === post.kind && p.id === post.id)));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to review post",
+        variant: "destructive",
+      });
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  if (loading || posts.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="mb-10">
+      <h2 className="text-xl font-semibold mb-1">Held for review</h2>
+      <p className="text-sm text-muted-foreground mb-4">
+        Posts the content filter kept back. Only their authors can see them until they're approved.
+      </p>
+
+      <div className="space-y-4">
+        {posts.map((post) => (
+          <div key={`${post.kind}:${post.id}`} className="bg-gradient-card rounded-xl p-6 shadow-lg border border-warning/30">
+            <div className="flex flex-wrap items-center gap-2 mb-2">
+              <Badge variant="outline" className="capitalize">{post.kind}</Badge>
+              {post.reason && <Badge variant="secondary">{post.reason}</Badge>}
+              <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                <Clock className="w-3 h-3" />
+                by{' '}
+                <Link to={`/users/${post.author}`} className="hover:text-primary">
+                  @{post.author}
+                </Link>
+                {' '}{formatDistanceToNow(new Date(post.heldAt), { addSuffix: true })}
+              </span>
+            </div>
+
+            {post.title && <h3 className="font-semibold mb-1">{post.title}</h3>}
+            <p className="text-sm text-foreground/90 line-clamp-3 mb-2">{post.excerpt}</p>
+            <Link
+              to={`/questions/${post.questionId}${post.kind === 'answer' ? `#answer-${post.id}` : ''}`}
+              className="text-sm text-primary hover:underline"
+            >
+              View {post.kind} in context
+            </Link>
+
+            <div className="flex gap-2 mt-4">
+              <Button
+                size="sm"
+                variant="success"
+                onClick={() => handleReview(post, true)}
+                disabled={reviewingId === post.id}
+              >
+                <Check className="w-4 h-4 mr-1" />
+                Approve
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleReview(post, false)}
+                disabled={reviewingId === post.id}
+                className="text-destructive hover:text-destructive"
+              >
+                <X className="w-4 h-4 mr-1" />
+                Reject
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
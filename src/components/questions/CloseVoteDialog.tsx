@@ -0,0 +1,188 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useAuth } from '@/lib/auth';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import {
+  CLOSE_REASON_DESCRIPTIONS,
+  CLOSE_REASON_LABELS,
+  CLOSE_VOTES_NEEDED,
+  CloseReason,
+  parseQuestionReference,
+} from '@/lib/closing';
+
+interface CloseVoteDialogProps {
+  questionId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Close votes already cast on the question
+  voteCount: number;
+  onVoted: () => void;
+}
+
+export function CloseVoteDialog({ questionId, open, onOpenChange, voteCount, onVoted }: CloseVoteDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [reason, setReason] = useState<CloseReason | ''>('');
+  const [duplicateInput, setDuplicateInput] = useState('');
+  const [duplicate, setDuplicate] = useState<{ id: string; title: string } | null>(null);
+  const [lookingUp, setLookingUp] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleLookup = async () => {
+    const duplicateId = parseQuestionReference(duplicateInput);
+    if (!duplicateId || duplicateId === questionId) {
+      setDuplicate(null);
+      toast({
+        title: "Error",
+        description: "Paste a link to a different question",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLookingUp(true);
+    try {
+      const { data, error } = await supabase
+        .from('questions')
+        .select('id, title')
+        .eq('id', duplicateId)
+        .is('deleted_at', null)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) {
+        toast({
+          title: "Error",
+          description: "No question was found at that link",
+          variant: "destructive",
+        });
+      }
+      setDuplicate(data);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to find question",
+        variant: "destructive",
+      });
+    } finally {
+      setLookingUp(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!user || !reason || (reason === 'duplicate' && !duplicate)) return;
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase
+        .from('close_votes')
+        .insert({
+          question_id: questionId,
+          user_id: user.id,
+          kind: 'close',
+          reason,
+          duplicate_of: reason === 'duplicate' ? duplicate?.id : null,
+        });
+
+      if (error) throw error;
+
+      toast({
+        title: "Close vote recorded",
+        description: "Thanks for helping keep the site tidy.",
+      });
+
+      onOpenChange(false);
+      setReason('');
+      setDuplicateInput('');
+      setDuplicate(null);
+      onVoted();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to vote to close",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Why should this question be closed?</DialogTitle>
+          <DialogDescription>
+            A question closes after {CLOSE_VOTES_NEEDED} votes ({voteCount} so far). Closed questions can't be answered until they are reopened.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={reason} onValueChange={(value) => setReason(value as CloseReason)} className="gap-3">
+          {(Object.keys(CLOSE_REASON_LABELS) as CloseReason[]).map((key) => (
+            <div key={key} className="flex items-start space-x-3">
+              <RadioGroupItem value={key} id={`close-reason-${key}`} className="mt-1" />
+              <Label htmlFor={`close-reason-${key}`} className="font-normal leading-snug">
+                <span className="font-medium">{CLOSE_REASON_LABELS[key]}</span>
+                <span className="block text-sm text-muted-foreground">{CLOSE_REASON_DESCRIPTIONS[key]}</span>
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        {reason === 'duplicate' && (
+          <div className="space-y-2">
+            <Label htmlFor="duplicate-of">Link to the original question</Label>
+            <div className="flex gap-2">
+              <Input
+                id="duplicate-of"
+                placeholder="https://.../questions/..."
+                value={duplicateInput}
+                onChange={(e) => {
+                  setDuplicateInput(e.target.value);
+                  setDuplicate(null);
+                }}
+              />
+              <Button type="button" variant="outline" onClick={handleLookup} disabled={!duplicateInput.trim() || lookingUp}>
+                {lookingUp ? "Finding..." : "Find"}
+              </Button>
+            </div>
+            {duplicate && (
+              <p className="text-sm">
+                Duplicate of{' '}
+                <Link to={`/questions/${duplicate.id}`} target="_blank" className="text-primary hover:underline">
+                  {duplicate.title}
+                </Link>
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button
+            variant="hero"
+            onClick={handleSubmit}
+            disabled={!reason || (reason === 'duplicate' && !duplicate) || submitting}
+          >
+            {submitting ? "Voting..." : "Vote to Close"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,38 @@
+import { Link } from 'react-router-dom';
+import { CLOSE_REASON_DESCRIPTIONS, CLOSE_REASON_LABELS, CloseReason } from '@/lib/closing';
+import { Lock } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+interface ClosedNoticeProps {
+  reason: CloseReason | null;
+  closedAt: string;
+  // The canonical question, for duplicates
+  duplicate?: { id: string; title: string } | null;
+}
+
+export function ClosedNotice({ reason, closedAt, duplicate }: ClosedNoticeProps) {
+  return (
+    <div className="flex items-start gap-3 rounded-lg border border-warning/40 bg-warning/10 p-4 mb-6">
+      <Lock className="w-5 h-5 mt-0.5 text-warning shrink-0" />
+      <div className="text-sm space-y-1">
+        <p className="font-semibold">
+          Closed{reason ? ` as ${CLOSE_REASON_LABELS[reason].toLowerCase()}` : ''}{' '}
+          {formatDistanceToNow(new Date(closedAt), { addSuffix: true })}
+        </p>
+        {reason === 'duplicate' && duplicate ? (
+          <p>
+            This question already has an answer here:{' '}
+            <Link to={`/questions/${duplicate.id}`} className="text-primary font-medium hover:underline">
+              {duplicate.title}
+            </Link>
+          </p>
+        ) : (
+          reason && <p className="text-muted-foreground">{CLOSE_REASON_DESCRIPTIONS[reason]}</p>
+        )}
+        <p className="text-muted-foreground">
+          It is not accepting answers. Users with enough reputation can vote to reopen it.
+        </p>
+      </div>
+    </div>
+  );
+}
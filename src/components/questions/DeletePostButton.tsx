@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { PURGE_AFTER_DAYS } from '@/lib/deletion';
+import { Trash2 } from 'lucide-react';
+
+interface DeletePostButtonProps {
+  questionId?: string;
+  answerId?: string;
+  onDeleted?: () => void;
+  // Render a compact icon button, as on question cards
+  iconOnly?: boolean;
+}
+
+// Soft-deletes a question or answer after confirmation
+export function DeletePostButton({ questionId, answerId, onDeleted, iconOnly = false }: DeletePostButtonProps) {
+  const { toast } = useToast();
+  const [deleting, setDeleting] = useState(false);
+  const kind = answerId ? 'answer' : 'question';
+
+  const handleDelete = async () => {
+    setDeleting(true);
+    try {
+      const { error } = await supabase.rpc('delete_post', answerId
+        ? { _answer_id: answerId }
+        : { _question_id: questionId });
+
+      if (error) throw error;
+
+      toast({
+        title: answerId ? "Answer deleted" : "Question deleted",
+        description: `You can undelete it from your trash for the next ${PURGE_AFTER_DAYS} days.`,
+      });
+
+      onDeleted?.();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: `Failed to delete ${kind}`,
+        variant: "destructive",
+      });
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  return (
+    // The dialog is portalled, but its clicks still bubble to clickable cards
+    <span onClick={(e) => e.stopPropagation()}>
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          {iconOnly ? (
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              disabled={deleting}
+              className="text-destructive hover:text-destructive hover:bg-destructive/10"
+              aria-label={`Delete ${kind}`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          ) : (
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={deleting}
+              className="text-destructive hover:text-destructive hover:bg-destructive/10"
+            >
+              <Trash2 className="w-4 h-4 mr-1" />
+              Delete
+            </Button>
+          )}
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this {kind}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              It will be hidden from everyone except you and the moderators. You can undelete it
+              within {PURGE_AFTER_DAYS} days; after that it is removed permanently, along with
+              its {answerId ? 'comments and votes' : 'answers, comments and votes'}.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </span>
+  );
+}
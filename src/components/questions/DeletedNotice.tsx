@@ -0,0 +1,37 @@
+import { Button } from '@/components/ui/button';
+import { purgeDate } from '@/lib/deletion';
+import { Trash2, RotateCcw } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+
+interface DeletedNoticeProps {
+  kind: 'question' | 'answer';
+  deletedAt: string;
+  // Hidden automatically by spam flags rather than deleted by someone
+  hiddenByFlags?: boolean;
+  // Shown as an Undelete button when the viewer may restore the post
+  onUndelete?: () => void;
+  className?: string;
+}
+
+export function DeletedNotice({ kind, deletedAt, hiddenByFlags = false, onUndelete, className = '' }: DeletedNoticeProps) {
+  return (
+    <div className={`flex items-start gap-3 rounded-lg border border-destructive/40 bg-destructive/10 p-4 ${className}`}>
+      <Trash2 className="w-5 h-5 mt-0.5 text-destructive shrink-0" />
+      <div className="flex-1 text-sm space-y-1">
+        <p className="font-semibold">
+          This {kind} was {hiddenByFlags ? 'hidden after spam flags' : 'deleted'} {formatDistanceToNow(new Date(deletedAt), { addSuffix: true })}
+        </p>
+        <p className="text-muted-foreground">
+          Only its author and moderators can see it. It will be removed permanently on{' '}
+          {format(purgeDate(deletedAt), 'MMM d, yyyy')}.
+        </p>
+      </div>
+      {onUndelete && (
+        <Button variant="outline" size="sm" onClick={onUndelete}>
+          <RotateCcw className="w-4 h-4 mr-1" />
+          Undelete
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { useAuth } from '@/lib/auth';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Bell, BellOff, BellRing } from 'lucide-react';
+
+interface FollowButtonProps {
+  questionId: string;
+}
+
+// Follow a question to be notified about new answers, edits, accepted answers
+// and comments; following users can mute the thread without unfollowing
+export function FollowButton({ questionId }: FollowButtonProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [following, setFollowing] = useState(false);
+  const [muted, setMuted] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      fetchFollow();
+    }
+  }, [questionId, user]);
+
+  const fetchFollow = async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('question_followers')
+      .select('muted')
+      .eq('user_id', user.id)
+      .eq('question_id', questionId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Failed to fetch follow status:', error);
+      return;
+    }
+    setFollowing(!!data);
+    setMuted(data?.muted ?? false);
+  };
+
+  const handleToggleFollow = async () => {
+    if (!user || saving) return;
+
+    setSaving(true);
+    try {
+      if (following) {
+        const { error } = await supabase
+          .from('question_followers')
+          .delete()
+          .eq('user_id', user.id)
+          .eq('question_id', questionId);
+
+        if (error) throw error;
+        setFollowing(false);
+        setMuted(false);
+      } else {
+        const { error } = await supabase
+          .from('question_followers')
+          .insert({ user_id: user.id, question_id: questionId });
+
+        if (error) throw error;
+        setFollowing(true);
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update follow status",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleMute = async () => {
+    if (!user || saving) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('question_followers')
+        .update({ muted: !muted })
+        .eq('user_id', user.id)
+        .eq('question_id', questionId);
+
+      if (error) throw error;
+      setMuted(!muted);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update follow status",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center">
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={handleToggleFollow}
+        disabled={saving}
+        className={following ? 'text-primary' : ''}
+      >
+        {following ? <BellRing className="w-4 h-4 mr-1" /> : <Bell className="w-4 h-4 mr-1" />}
+        {following ? 'Following' : 'Follow'}
+      </Button>
+      {following && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              onClick={handleToggleMute}
+              disabled={saving}
+              className={muted ? 'text-destructive' : 'text-muted-foreground'}
+              aria-label={muted ? 'Unmute notifications' : 'Mute notifications'}
+              aria-pressed={muted}
+            >
+              <BellOff className="w-4 h-4" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>
+            {muted ? 'Notifications for this question are muted' : 'Mute notifications for this question'}
+          </TooltipContent>
+        </Tooltip>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import { Clock } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+interface HeldNoticeProps {
+  kind: 'question' | 'answer';
+  heldAt: string;
+  // Why the content filter held the post, shown to moderators
+  reason?: string | null;
+  className?: string;
+}
+
+export function HeldNotice({ kind, heldAt, reason, className = '' }: HeldNoticeProps) {
+  return (
+    <div className={`flex items-start gap-3 rounded-lg border border-warning/40 bg-warning/10 p-4 ${className}`}>
+      <Clock className="w-5 h-5 mt-0.5 text-warning shrink-0" />
+      <div className="flex-1 text-sm space-y-1">
+        <p className="font-semibold">
+          This {kind} was held for review {formatDistanceToNow(new Date(heldAt), { addSuffix: true })}
+        </p>
+        <p className="text-muted-foreground">
+          Only its author and moderators can see it until a moderator approves it.
+          {reason && <> Reason: {reason}.</>}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import { highlightSegments } from '@/lib/search';
+
+interface HighlightedTextProps {
+  text: string;
+}
+
+// Renders search output with matched terms marked
+export function HighlightedText({ text }: HighlightedTextProps) {
+  return (
+    <>
+      {highlightSegments(text).map((segment, index) =>
+        segment.highlighted ? (
+          <mark key={index} className="rounded-sm bg-primary/15 px-0.5 text-foreground">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
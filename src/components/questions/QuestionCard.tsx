@@ -1,13 +1,23 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
-import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { AuthorInfo, AuthorProfile } from '@/components/users/AuthorInfo';
+import { VoteButton } from '@/components/questions/VoteButton';
+import { HighlightedText } from '@/components/questions/HighlightedText';
+import { BookmarkButton } from '@/components/bookmarks/BookmarkButton';
+import { DeletePostButton } from '@/components/questions/DeletePostButton';
 import { useAuth } from '@/lib/auth';
 import { useProfile } from '@/hooks/useProfile';
+import { usePrivileges } from '@/hooks/usePrivileges';
+import type { TagPreference } from '@/hooks/useTagPreferences';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { ChevronUp, ChevronDown, MessageSquare, Clock, CheckCircle, Trash2 } from 'lucide-react';
+import { markdownToPlainText } from '@/lib/markdown';
+import type { CloseReason } from '@/lib/closing';
+import { isModerator } from '@/lib/roles';
+import { isRateLimitError } from '@/lib/rateLimits';
+import { MessageSquare, Clock, CheckCircle } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 
 export interface Question {
@@ -21,10 +31,14 @@ export interface Question {
   answer_count: number;
   has_accepted_answer: boolean;
   created_at: string;
-  profiles: {
-    username: string;
-    full_name: string;
-    avatar_url?: string;
+  closed_at?: string | null;
+  closed_reason?: CloseReason | null;
+  held_at?: string | null;
+  profiles: AuthorProfile;
+  // Search matches, present when the question came from a search
+  highlight?: {
+    title: string;
+    snippet: string;
   };
 }
 
@@ -35,21 +49,30 @@ export interface UserVote {
 interface QuestionCardProps {
   question: Question;
   userVote?: UserVote;
+  bookmarked?: boolean;
   onVoteChange?: () => void;
   onDelete?: () => void;
   onClick?: () => void;
+  // The viewer's watched/ignored tags, used to highlight or dim the card
+  tagPreferences?: Record<string, TagPreference>;
 }
 
-export function QuestionCard({ question, userVote, onVoteChange, onDelete, onClick }: QuestionCardProps) {
+export function QuestionCard({ question, userVote, bookmarked = false, onVoteChange, onDelete, onClick, tagPreferences = {} }: QuestionCardProps) {
   const { user } = useAuth();
   const { profile } = useProfile();
+  const { can, requirement } = usePrivileges(profile);
   const { toast } = useToast();
   const [voting, setVoting] = useState(false);
-  const [deleting, setDeleting] = useState(false);
+  const excerpt = useMemo(
+    () => markdownToPlainText(question.highlight?.snippet ?? question.description),
+    [question.highlight?.snippet, question.description]
+  );
 
   const isAuthor = user?.id === question.user_id;
-  const isAdmin = profile?.role === 'admin';
-  const canDelete = isAuthor || isAdmin;
+  const canModerate = isModerator(profile);
+  const canDelete = isAuthor || canModerate;
+  const watched = question.tags.some(tag => tagPreferences[tag] === 'watched');
+  const ignored = !watched && question.tags.some(tag => tagPreferences[tag] === 'ignored');
 
   const handleVote = async (e: React.MouseEvent, voteType: 'upvote' | 'downvote') => {
     e.stopPropagation(); // Prevent card click when voting
@@ -83,7 +106,7 @@ export function QuestionCard({ question, userVote, onVoteChange, onDelete, onCli
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to update vote",
+        description: isRateLimitError(error) ? error.message : "Failed to update vote",
         variant: "destructive",
       });
     } finally {
@@ -91,81 +114,60 @@ export function QuestionCard({ question, userVote, onVoteChange, onDelete, onCli
     }
   };
 
-  const handleDelete = async (e: React.MouseEvent) => {
-    e.stopPropagation(); // Prevent card click when deleting
-    if (!canDelete || deleting) return;
-
-    setDeleting(true);
-    try {
-      const { error } = await supabase
-        .from('questions')
-        .delete()
-        .eq('id', question.id);
-
-      if (error) throw error;
-
-      toast({
-        title: "Question deleted",
-        description: "The question has been successfully deleted.",
-      });
-
-      onDelete?.();
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "Failed to delete question",
-        variant: "destructive",
-      });
-    } finally {
-      setDeleting(false);
-    }
-  };
-
-  const getInitials = (name: string) => {
-    return name
-      .split(' ')
-      .map(n => n[0])
-      .join('')
-      .toUpperCase()
-      .slice(0, 2);
-  };
-
   const voteScore = question.upvote_count - question.downvote_count;
 
+  // Removing an existing vote is always allowed; casting one needs the privilege
+  const missingPrivilege = (voteType: 'upvote' | 'downvote') =>
+    user && userVote?.vote_type !== voteType && !can(voteType) ? requirement(voteType) : undefined;
+
   return (
     <Card 
-      className="hover:shadow-lg transition-all duration-200 bg-gradient-card cursor-pointer"
+      className={`hover:shadow-lg transition-all duration-200 bg-gradient-card cursor-pointer ${
+        watched ? 'border-primary/50 ring-1 ring-primary/30' : ignored ? 'opacity-50 hover:opacity-100' : ''
+      }`}
       onClick={onClick}
     >
       <CardHeader className="pb-4">
         <div className="flex items-start justify-between">
           <div className="flex-1">
             <h3 className="text-lg font-semibold hover:text-primary transition-colors">
-              {question.title}
+              {question.highlight ? <HighlightedText text={question.highlight.title} /> : question.title}
+              {question.closed_at && (
+                <span className="ml-2 text-muted-foreground font-normal">
+                  [{question.closed_reason === 'duplicate' ? 'duplicate' : 'closed'}]
+                </span>
+              )}
+              {question.held_at && (
+                <span className="ml-2 text-warning font-normal">[held for review]</span>
+              )}
             </h3>
             <p className="text-muted-foreground mt-2 line-clamp-3">
-              {question.description}
+              {question.highlight ? <HighlightedText text={excerpt} /> : excerpt}
             </p>
           </div>
-          {canDelete && (
-            <Button
-              variant="ghost"
-              size="icon-sm"
-              onClick={handleDelete}
-              disabled={deleting}
-              className="text-destructive hover:text-destructive hover:bg-destructive/10"
-            >
-              <Trash2 className="w-4 h-4" />
-            </Button>
-          )}
+          <div className="flex items-center">
+            <BookmarkButton questionId={question.id} bookmarked={bookmarked} />
+            {canDelete && (
+              <DeletePostButton questionId={question.id} onDeleted={onDelete} iconOnly />
+            )}
+          </div>
         </div>
 
         {question.tags.length > 0 && (
           <div className="flex flex-wrap gap-2 mt-3">
             {question.tags.map((tag, index) => (
-              <Badge key={index} variant="secondary" className="text-xs">
-                {tag}
-              </Badge>
+              <Link
+                key={index}
+                to={`/tags/${encodeURIComponent(tag)}`}
+                onClick={(e) => e.stopPropagation()}
+              >
+                <Badge
+                  variant={tagPreferences[tag] === 'watched' ? 'default' : 'secondary'}
+                  className={`text-xs ${tagPreferences[tag] === 'watched' ? 'hover:bg-primary/80' : 'hover:bg-secondary/60'}`}
+                >
+                  {tag}
+                </Badge>
+              </Link>
             ))}
           </div>
         )}
@@ -176,29 +178,25 @@ export function QuestionCard({ question, userVote, onVoteChange, onDelete, onCli
           <div className="flex items-center space-x-4">
             {/* Vote Section */}
             <div className="flex items-center space-x-1">
-              <Button
-                variant="vote"
-                size="icon-sm"
+              <VoteButton
+                type="upvote"
+                active={userVote?.vote_type === 'upvote'}
                 onClick={(e) => handleVote(e, 'upvote')}
                 disabled={!user || voting}
-                className={userVote?.vote_type === 'upvote' ? 'text-success bg-success/10' : ''}
-              >
-                <ChevronUp className="w-4 h-4" />
-              </Button>
+                disabledReason={missingPrivilege('upvote')}
+              />
               <span className={`text-sm font-medium min-w-[2rem] text-center ${
                 voteScore > 0 ? 'text-success' : voteScore < 0 ? 'text-destructive' : 'text-muted-foreground'
               }`}>
                 {voteScore}
               </span>
-              <Button
-                variant="vote"
-                size="icon-sm"
+              <VoteButton
+                type="downvote"
+                active={userVote?.vote_type === 'downvote'}
                 onClick={(e) => handleVote(e, 'downvote')}
                 disabled={!user || voting}
-                className={userVote?.vote_type === 'downvote' ? 'text-destructive bg-destructive/10' : ''}
-              >
-                <ChevronDown className="w-4 h-4" />
-              </Button>
+                disabledReason={missingPrivilege('downvote')}
+              />
             </div>
 
             {/* Answer count */}
@@ -222,17 +220,7 @@ export function QuestionCard({ question, userVote, onVoteChange, onDelete, onCli
           </div>
 
           {/* Author */}
-          <div className="flex items-center space-x-2">
-            <Avatar className="h-6 w-6">
-              <AvatarImage src={question.profiles.avatar_url} />
-              <AvatarFallback className="text-xs bg-gradient-primary text-primary-foreground">
-                {getInitials(question.profiles.full_name)}
-              </AvatarFallback>
-            </Avatar>
-            <span className="text-sm text-muted-foreground">
-              @{question.profiles.username}
-            </span>
-          </div>
+          <AuthorInfo profile={question.profiles} />
         </div>
       </CardContent>
     </Card>
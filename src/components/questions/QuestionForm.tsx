@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { MarkdownEditor } from '@/components/markdown/MarkdownEditor';
+import { TagInput } from '@/components/questions/TagInput';
+import { useToast } from '@/hooks/use-toast';
+import { MAX_TAGS } from '@/lib/tags';
+
+export interface QuestionFormData {
+  title: string;
+  description: string;
+  tags: string[];
+}
+
+interface QuestionFormProps {
+  initialData?: QuestionFormData;
+  loading: boolean;
+  submitLabel: string;
+  loadingLabel: string;
+  onSubmit: (data: QuestionFormData) => void;
+  onCancel: () => void;
+}
+
+export function QuestionForm({ initialData, loading, submitLabel, loadingLabel, onSubmit, onCancel }: QuestionFormProps) {
+  const { toast } = useToast();
+  const [formData, setFormData] = useState<QuestionFormData>(
+    initialData ?? { title: '', description: '', tags: [] }
+  );
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.title.trim() || !formData.description.trim()) {
+      toast({
+        title: "Missing Information",
+        description: "Please fill in both title and description.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    onSubmit({
+      title: formData.title.trim(),
+      description: formData.description.trim(),
+      tags: formData.tags,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {/* Title */}
+      <div className="space-y-2">
+        <Label htmlFor="title">Question Title *</Label>
+        <Input
+          id="title"
+          placeholder="What's your programming question? Be specific."
+          value={formData.title}
+          onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
+          maxLength={255}
+          required
+        />
+        <p className="text-xs text-muted-foreground">
+          {formData.title.length}/255 characters
+        </p>
+      </div>
+
+      {/* Description */}
+      <div className="space-y-2">
+        <Label htmlFor="description">Describe your question *</Label>
+        <MarkdownEditor
+          id="description"
+          placeholder="Provide more details about your question. Include what you've tried, what you expected to happen, and what actually happened."
+          value={formData.description}
+          onChange={(description) => setFormData(prev => ({ ...prev, description }))}
+          rows={8}
+          required
+        />
+        <p className="text-xs text-muted-foreground">
+          Be clear and specific. Include code examples if relevant.
+        </p>
+      </div>
+
+      {/* Tags */}
+      <div className="space-y-2">
+        <Label htmlFor="tags">Tags (optional)</Label>
+        <TagInput
+          id="tags"
+          value={formData.tags}
+          onChange={(tags) => setFormData(prev => ({ ...prev, tags }))}
+          disabled={loading}
+        />
+        <p className="text-xs text-muted-foreground">
+          Add up to {MAX_TAGS} tags to help categorize your question. Pick an existing tag where one fits.
+        </p>
+      </div>
+
+      {/* Guidelines */}
+      <div className="bg-muted/30 rounded-lg p-4 space-y-2">
+        <h4 className="font-medium text-sm">Writing Guidelines</h4>
+        <ul className="text-xs text-muted-foreground space-y-1">
+          <li>• Be specific and clear in your question title</li>
+          <li>• Provide context and what you've already tried</li>
+          <li>• Include relevant code snippets or error messages</li>
+          <li>• Use proper tags to help others find your question</li>
+          <li>• Be respectful and follow community guidelines</li>
+        </ul>
+      </div>
+
+      {/* Actions */}
+      <div className="flex gap-4 pt-4">
+        <Button
+          type="submit"
+          variant="hero"
+          disabled={loading || !formData.title.trim() || !formData.description.trim()}
+          className="flex-1"
+        >
+          {loading ? loadingLabel : submitLabel}
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={onCancel}
+          disabled={loading}
+        >
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Command, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { useProfile } from '@/hooks/useProfile';
+import { usePrivileges } from '@/hooks/usePrivileges';
+import { useTagSearch } from '@/hooks/useTagSearch';
+import { MAX_TAGS, MAX_TAG_LENGTH, normalizeTagInput, validateTagName } from '@/lib/tags';
+import { X, Plus, Lock } from 'lucide-react';
+
+interface TagInputProps {
+  id?: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+  disabled?: boolean;
+}
+
+// Tag picker that suggests existing tags (and their synonyms) as the user types
+export function TagInput({ id, value, onChange, disabled }: TagInputProps) {
+  const { profile } = useProfile();
+  const { can, requirement } = usePrivileges(profile);
+  const [query, setQuery] = useState('');
+  const [open, setOpen] = useState(false);
+
+  const tag = normalizeTagInput(query);
+  const { results } = useTagSearch(tag || null);
+
+  const full = value.length >= MAX_TAGS;
+  const suggestions = results.filter(s => !value.includes(s.name));
+  const exists = results.some(s => s.name === tag || s.synonym === tag);
+  const error = tag ? validateTagName(tag) : null;
+  const showCreate = !!tag && !exists && !value.includes(tag);
+
+  const addTag = (name: string) => {
+    if (!value.includes(name) && value.length < MAX_TAGS) {
+      onChange([...value, name]);
+    }
+    setQuery('');
+  };
+
+  const removeTag = (name: string) => {
+    onChange(value.filter(t => t !== name));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Backspace' && !query && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.map((name) => (
+            <Badge
+              key={name}
+              variant="secondary"
+              className="flex items-center gap-1 px-2 py-1"
+            >
+              {name}
+              <button
+                type="button"
+                onClick={() => removeTag(name)}
+                className="ml-1 hover:text-destructive"
+                aria-label={`Remove ${name}`}
+                disabled={disabled}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      <Command shouldFilter={false} className="relative overflow-visible rounded-md border border-input bg-background [&_[cmdk-input-wrapper]]:border-b-0">
+        <CommandInput
+          id={id}
+          placeholder={full ? `You can add up to ${MAX_TAGS} tags` : 'Add tags (e.g., javascript, react, css)'}
+          value={query}
+          onValueChange={(next) => {
+            setQuery(next);
+            setOpen(true);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setOpen(false)}
+          disabled={disabled || full}
+          maxLength={MAX_TAG_LENGTH}
+          className="h-10"
+        />
+
+        {open && tag && (
+          <CommandList
+            // Keep focus in the input so the list stays open while clicking
+            onMouseDown={(e) => e.preventDefault()}
+            className="absolute left-0 top-full z-50 mt-1 w-full rounded-md border bg-popover text-popover-foreground shadow-md"
+          >
+            {suggestions.length > 0 && (
+              <CommandGroup heading="Existing tags">
+                {suggestions.map((suggestion) => (
+                  <CommandItem
+                    key={suggestion.name}
+                    value={suggestion.name}
+                    onSelect={() => addTag(suggestion.name)}
+                    className="flex items-center justify-between"
+                  >
+                    <span>
+                      <span className="font-medium">{suggestion.name}</span>
+                      {suggestion.synonym && (
+                        <span className="text-muted-foreground"> (synonym: {suggestion.synonym})</span>
+                      )}
+                    </span>
+                    <span className="text-xs text-muted-foreground">× {suggestion.usage_count}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            {showCreate && (
+              <CommandGroup heading="New tag">
+                {error ? (
+                  <p className="px-2 py-1.5 text-sm text-destructive">{error}</p>
+                ) : can('create_tag') ? (
+                  <CommandItem value={`create:${tag}`} onSelect={() => addTag(tag)}>
+                    <Plus className="w-4 h-4 mr-2" />
+                    Create tag <span className="font-medium ml-1">{tag}</span>
+                  </CommandItem>
+                ) : (
+                  <CommandItem value={`create:${tag}`} disabled>
+                    <Lock className="w-4 h-4 mr-2" />
+                    {requirement('create_tag')}
+                  </CommandItem>
+                )}
+              </CommandGroup>
+            )}
+          </CommandList>
+        )}
+      </Command>
+    </div>
+  );
+}
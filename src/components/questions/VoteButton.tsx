@@ -0,0 +1,46 @@
+import { Button } from '@/components/ui/button';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { ChevronUp, ChevronDown } from 'lucide-react';
+
+interface VoteButtonProps {
+  type: 'upvote' | 'downvote';
+  active: boolean;
+  disabled?: boolean;
+  // Why the button is disabled, shown in a tooltip
+  disabledReason?: string;
+  onClick: (e: React.MouseEvent) => void;
+}
+
+export function VoteButton({ type, active, disabled, disabledReason, onClick }: VoteButtonProps) {
+  const Icon = type === 'upvote' ? ChevronUp : ChevronDown;
+  const activeClass = type === 'upvote' ? 'text-success bg-success/10' : 'text-destructive bg-destructive/10';
+
+  const button = (
+    <Button
+      variant="vote"
+      size="icon-sm"
+      onClick={onClick}
+      disabled={disabled || !!disabledReason}
+      className={active ? activeClass : ''}
+      aria-label={type === 'upvote' ? 'Upvote' : 'Downvote'}
+    >
+      <Icon className="w-4 h-4" />
+    </Button>
+  );
+
+  if (!disabledReason) {
+    return button;
+  }
+
+  // Disabled buttons don't emit pointer events, so the tooltip hangs off a wrapper
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span tabIndex={0} onClick={(e) => e.stopPropagation()}>
+          {button}
+        </span>
+      </TooltipTrigger>
+      <TooltipContent>{disabledReason}</TooltipContent>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,52 @@
+import { useMemo } from 'react';
+import { diffWords } from 'diff';
+import { cn } from '@/lib/utils';
+
+export type DiffMode = 'inline' | 'side-by-side';
+
+interface RevisionDiffProps {
+  before: string;
+  after: string;
+  mode: DiffMode;
+  className?: string;
+}
+
+const ADDED = 'bg-success/20 text-success rounded-sm';
+const REMOVED = 'bg-destructive/20 text-destructive line-through rounded-sm';
+
+export function RevisionDiff({ before, after, mode, className }: RevisionDiffProps) {
+  const changes = useMemo(() => diffWords(before, after), [before, after]);
+
+  const textClass = 'whitespace-pre-wrap break-words font-mono text-sm leading-relaxed';
+
+  if (mode === 'inline') {
+    return (
+      <div className={cn('rounded-md border bg-background p-3', textClass, className)}>
+        {changes.map((part, index) => (
+          <span key={index} className={part.added ? ADDED : part.removed ? REMOVED : undefined}>
+            {part.value}
+          </span>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn('grid grid-cols-1 md:grid-cols-2 gap-3', className)}>
+      <div className={cn('rounded-md border bg-background p-3', textClass)}>
+        {changes.filter(part => !part.added).map((part, index) => (
+          <span key={index} className={part.removed ? REMOVED : undefined}>
+            {part.value}
+          </span>
+        ))}
+      </div>
+      <div className={cn('rounded-md border bg-background p-3', textClass)}>
+        {changes.filter(part => !part.removed).map((part, index) => (
+          <span key={index} className={part.added ? ADDED : undefined}>
+            {part.value}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { Link } from 'react-router-dom';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useProfile } from '@/hooks/useProfile';
+import { useTagPreferences, TagPreference } from '@/hooks/useTagPreferences';
+import { useToast } from '@/hooks/use-toast';
+import { X } from 'lucide-react';
+
+const SECTIONS: { preference: TagPreference; label: string; empty: string }[] = [
+  { preference: 'watched', label: 'Watched tags', empty: 'You are not watching any tags.' },
+  { preference: 'ignored', label: 'Ignored tags', empty: 'You are not ignoring any tags.' },
+];
+
+export function TagPreferenceSettings() {
+  const { profile, updateProfile } = useProfile();
+  const { watchedTags, ignoredTags, setPreference } = useTagPreferences();
+  const { toast } = useToast();
+
+  const handleRemove = async (tag: string) => {
+    const { error } = await setPreference(tag, null);
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update tag preference",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleHideIgnoredChange = async (hide_ignored_tags: boolean) => {
+    const { error } = await updateProfile({ hide_ignored_tags });
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update tag preference",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {SECTIONS.map(({ preference, label, empty }) => {
+        const tags = preference === 'watched' ? watchedTags : ignoredTags;
+
+        return (
+          <div key={preference} className="space-y-2">
+            <h4 className="text-sm font-medium">{label}</h4>
+            {tags.length === 0 ? (
+              <p className="text-sm text-muted-foreground">{empty}</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {tags.map((tag) => (
+                  <Badge key={tag} variant="secondary" className="flex items-center gap-1 px-2 py-1">
+                    <Link to={`/tags/${encodeURIComponent(tag)}`} className="hover:text-primary">
+                      {tag}
+                    </Link>
+                    <button
+                      type="button"
+                      onClick={() => handleRemove(tag)}
+                      className="ml-1 hover:text-destructive"
+                      aria-label={`Stop ${preference === 'watched' ? 'watching' : 'ignoring'} ${tag}`}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex items-center space-x-2">
+        <Switch
+          id="hide-ignored-tags"
+          checked={profile?.hide_ignored_tags ?? false}
+          onCheckedChange={handleHideIgnoredChange}
+          disabled={!profile}
+        />
+        <Label htmlFor="hide-ignored-tags">Hide questions with ignored tags instead of dimming them</Label>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Watch or ignore a tag from its page. Questions with watched tags are highlighted and rank higher in the Interesting feed.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { Link } from 'react-router-dom';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { formatReputation } from '@/lib/reputation';
+
+export interface AuthorProfile {
+  username: string;
+  full_name: string;
+  avatar_url?: string;
+  reputation: number;
+}
+
+interface AuthorInfoProps {
+  profile: AuthorProfile;
+  size?: 'sm' | 'md';
+}
+
+// Avatar, username and reputation shown next to questions and answers
+export function AuthorInfo({ profile, size = 'sm' }: AuthorInfoProps) {
+  const getInitials = (name: string) => {
+    return name
+      .split(' ')
+      .map(n => n[0])
+      .join('')
+      .toUpperCase()
+      .slice(0, 2);
+  };
+
+  return (
+    <div className="flex items-center space-x-2">
+      <Link
+        to={`/users/${profile.username}`}
+        // Author links sit inside clickable cards
+        onClick={(e) => e.stopPropagation()}
+        className="flex items-center space-x-2 group"
+      >
+        <Avatar className={size === 'md' ? 'h-8 w-8' : 'h-6 w-6'}>
+          <AvatarImage src={profile.avatar_url} />
+          <AvatarFallback className="text-xs bg-gradient-primary text-primary-foreground">
+            {getInitials(profile.full_name || profile.username)}
+          </AvatarFallback>
+        </Avatar>
+        <span className="text-sm text-muted-foreground group-hover:text-primary transition-colors">
+          @{profile.username}
+        </span>
+      </Link>
+      <span
+        className="text-xs font-semibold text-foreground/80"
+        title={`${profile.reputation.toLocaleString()} reputation`}
+      >
+        {formatReputation(profile.reputation)}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { HelpCircle, MessageSquare, MessageCircle } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+const ACTIVITY_LIMIT = 15;
+
+interface ActivityItem {
+  id: string;
+  kind: 'question' | 'answer' | 'comment';
+  title: string;
+  link: string;
+  created_at: string;
+}
+
+const KIND_LABELS: Record<ActivityItem['kind'], string> = {
+  question: 'asked',
+  answer: 'answered',
+  comment: 'commented on',
+};
+
+const KIND_ICONS: Record<ActivityItem['kind'], typeof HelpCircle> = {
+  question: HelpCircle,
+  answer: MessageSquare,
+  comment: MessageCircle,
+};
+
+interface UserActivityProps {
+  userId: string;
+}
+
+// Recent questions, answers and comments by a user, newest first
+export function UserActivity({ userId }: UserActivityProps) {
+  const [items, setItems] = useState<ActivityItem[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchActivity();
+  }, [userId]);
+
+  const fetchActivity = async () => {
+    setLoading(true);
+    try {
+      const [questionsResult, answersResult, commentsResult] = await Promise.all([
+        supabase
+          .from('questions')
+          .select('id, title, created_at')
+          .eq('user_id', userId)
+          .is('deleted_at', null)
+          .order('created_at', { ascending: false })
+          .limit(ACTIVITY_LIMIT),
+        supabase
+          .from('answers')
+          .select('id, question_id, created_at, questions!answers_question_id_fkey (title)')
+          .eq('user_id', userId)
+          .is('deleted_at', null)
+          .order('created_at', { ascending: false })
+          .limit(ACTIVITY_LIMIT),
+        supabase
+          .from('comments')
+          .select(`
+            id,
+            created_at,
+            questions!comments_question_id_fkey (id, title),
+            answers!comments_answer_id_fkey (question_id, questions!answers_question_id_fkey (title))
+          `)
+          .eq('user_id', userId)
+          .order('created_at', { ascending: false })
+          .limit(ACTIVITY_LIMIT),
+      ]);
+
+      if (questionsResult.error) throw questionsResult.error;
+      if (answersResult.error) throw answersResult.error;
+      if (commentsResult.error) throw commentsResult.error;
+
+      const activity: ActivityItem[] = [
+        ...(questionsResult.data || []).map(q => ({
+          id: q.id,
+          kind: 'question' as const,
+          title: q.title,
+          link: `/questions/${q.id}`,
+          created_at: q.created_at,
+        })),
+        ...(answersResult.data || []).map(a => ({
+          id: a.id,
+          kind: 'answer' as const,
+          title: a.questions.title,
+          link: `/questions/${a.question_id}#answer-${a.id}`,
+          created_at: a.created_at,
+        })),
+        ...(commentsResult.data || []).map(c => {
+          const questionId = c.questions?.id ?? c.answers?.question_id;
+          return {
+            id: c.id,
+            kind: 'comment' as const,
+            title: c.questions?.title ?? c.answers?.questions.title ?? '',
+            link: `/questions/${questionId}#comment-${c.id}`,
+            created_at: c.created_at,
+          };
+        }),
+      ];
+
+      activity.sort((a, b) => b.created_at.localeCompare(a.created_at));
+      setItems(activity.slice(0, ACTIVITY_LIMIT));
+    } catch (error) {
+      console.error('Error fetching activity:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary mx-auto"></div>
+      </div>
+    );
+  }
+
+  if (items.length === 0) {
+    return <p className="text-sm text-muted-foreground py-4">No activity yet.</p>;
+  }
+
+  return (
+    <ul className="divide-y">
+      {items.map((item) => {
+        const Icon = KIND_ICONS[item.kind];
+
+        return (
+          <li key={`${item.kind}-${item.id}`} className="flex items-center gap-3 py-3 text-sm">
+            <Icon className="w-4 h-4 text-muted-foreground shrink-0" />
+            <span className="text-muted-foreground shrink-0">{KIND_LABELS[item.kind]}</span>
+            <Link to={item.link} className="flex-1 min-w-0 truncate hover:text-primary transition-colors">
+              {item.title}
+            </Link>
+            <span className="text-xs text-muted-foreground shrink-0">
+              {formatDistanceToNow(new Date(item.created_at), { addSuffix: true })}
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
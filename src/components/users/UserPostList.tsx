@@ -0,0 +1,178 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CheckCircle } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+const POSTS_PER_PAGE = 10;
+
+type PostSort = 'newest' | 'votes';
+
+interface PostRow {
+  id: string;
+  questionId: string;
+  title: string;
+  score: number;
+  accepted: boolean;
+  created_at: string;
+}
+
+interface UserPostListProps {
+  userId: string;
+  kind: 'questions' | 'answers';
+}
+
+// A user's questions or answers, sortable and paginated
+export function UserPostList({ userId, kind }: UserPostListProps) {
+  const [posts, setPosts] = useState<PostRow[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [sort, setSort] = useState<PostSort>('votes');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchPosts();
+  }, [userId, kind, sort, page]);
+
+  const fetchPosts = async () => {
+    setLoading(true);
+    const from = (page - 1) * POSTS_PER_PAGE;
+    const to = from + POSTS_PER_PAGE - 1;
+    const orderColumn = sort === 'votes' ? 'score' : 'created_at';
+
+    try {
+      if (kind === 'questions') {
+        const { data, count, error } = await supabase
+          .from('questions')
+          .select('id, title, score, has_accepted_answer, created_at', { count: 'exact' })
+          .eq('user_id', userId)
+          .is('deleted_at', null)
+          .order(orderColumn, { ascending: false })
+          .range(from, to);
+
+        if (error) throw error;
+        setTotal(count ?? 0);
+        setPosts((data || []).map(q => ({
+          id: q.id,
+          questionId: q.id,
+          title: q.title,
+          score: q.score,
+          accepted: q.has_accepted_answer,
+          created_at: q.created_at,
+        })));
+      } else {
+        const { data, count, error } = await supabase
+          .from('answers')
+          .select(`
+            id,
+            question_id,
+            score,
+            is_accepted,
+            created_at,
+            questions!answers_question_id_fkey!inner (
+              title
+            )
+          `, { count: 'exact' })
+          .eq('user_id', userId)
+          .is('deleted_at', null)
+          // Inner join: answers on questions that are deleted, or hidden from
+          // this viewer, are left out of the list and its count
+          .is('questions.deleted_at', null)
+          .order(orderColumn, { ascending: false })
+          .range(from, to);
+
+        if (error) throw error;
+        setTotal(count ?? 0);
+        setPosts((data || []).map(a => ({
+          id: a.id,
+          questionId: a.question_id,
+          title: a.questions.title,
+          score: a.score,
+          accepted: a.is_accepted,
+          created_at: a.created_at,
+        })));
+      }
+    } catch (error) {
+      console.error(`Error fetching ${kind}:`, error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / POSTS_PER_PAGE));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {total} {kind === 'questions' ? (total === 1 ? 'question' : 'questions') : (total === 1 ? 'answer' : 'answers')}
+        </p>
+        <Select
+          value={sort}
+          onValueChange={(value) => {
+            setSort(value as PostSort);
+            setPage(1);
+          }}
+        >
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="votes">Highest score</SelectItem>
+            <SelectItem value="newest">Newest</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary mx-auto"></div>
+        </div>
+      ) : posts.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-4">
+          {kind === 'questions' ? 'No questions asked yet.' : 'No answers posted yet.'}
+        </p>
+      ) : (
+        <ul className="divide-y">
+          {posts.map((post) => (
+            <li key={post.id} className="flex items-center gap-3 py-3">
+              <span
+                className={`min-w-[3rem] rounded-md px-2 py-1 text-center text-sm font-medium ${
+                  post.accepted ? 'bg-success/10 text-success' : 'bg-muted text-muted-foreground'
+                }`}
+              >
+                {post.score}
+              </span>
+              <Link
+                to={kind === 'questions' ? `/questions/${post.questionId}` : `/questions/${post.questionId}#answer-${post.id}`}
+                className="flex-1 min-w-0 truncate hover:text-primary transition-colors"
+              >
+                {post.title}
+              </Link>
+              {post.accepted && <CheckCircle className="w-4 h-4 text-success shrink-0" />}
+              <span className="text-xs text-muted-foreground shrink-0">
+                {formatDistanceToNow(new Date(post.created_at), { addSuffix: true })}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 1 || loading}>
+            Previous
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            Page {page} of {totalPages}
+          </span>
+          <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page === totalPages || loading}>
+            Next
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { useAuth } from '@/lib/auth';
+import { useToast } from '@/hooks/use-toast';
+
+export type BadgeTier = Database['public']['Enums']['badge_tier'];
+
+export interface AwardedBadge {
+  id: string;
+  tag: string | null;
+  awarded_at: string;
+  badges: {
+    slug: string;
+    name: string;
+    description: string;
+    tier: BadgeTier;
+  };
+}
+
+export function useUserBadges(userId: string | undefined) {
+  const [badges, setBadges] = useState<AwardedBadge[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!userId) {
+      setBadges([]);
+      setLoading(false);
+      return;
+    }
+
+    const fetchBadges = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('user_badges')
+          .select(`
+            id,
+            tag,
+            awarded_at,
+            badges (
+              slug,
+              name,
+              description,
+              tier
+            )
+          `)
+          .eq('user_id', userId)
+          .order('awarded_at', { ascending: false });
+
+        if (error) throw error;
+        setBadges(data || []);
+      } catch (error) {
+        console.error('Error fetching badges:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchBadges();
+  }, [userId]);
+
+  return { badges, loading };
+}
+
+// Pops a toast whenever the signed-in user is awarded a badge
+export function useBadgeToasts() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!user) return;
+
+    const channel = supabase
+      .channel(`badge-awards:${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'notifications', filter: `user_id=eq.${user.id}` },
+        (payload) => {
+          const notification = payload.new as { type: string; title: string; message: string };
+          if (notification.type === 'badge') {
+            toast({
+              title: notification.title,
+              description: notification.message,
+            });
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, toast]);
+}
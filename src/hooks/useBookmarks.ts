@@ -0,0 +1,174 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth';
+
+export interface BookmarkList {
+  id: string;
+  name: string;
+}
+
+export interface SavedItem {
+  id: string;
+  note: string | null;
+  list_id: string | null;
+  created_at: string;
+  question_id: string | null;
+  answer_id: string | null;
+  questions: {
+    title: string;
+    score: number;
+    answer_count: number;
+  } | null;
+  answers: {
+    question_id: string;
+    content: string;
+    score: number;
+    questions: {
+      title: string;
+    };
+  } | null;
+}
+
+// The signed-in user's saved questions and answers and the lists they're filed in
+export function useBookmarks() {
+  const { user } = useAuth();
+  const [items, setItems] = useState<SavedItem[]>([]);
+  const [lists, setLists] = useState<BookmarkList[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchBookmarks = useCallback(async () => {
+    if (!user) {
+      setItems([]);
+      setLists([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const [itemsResult, listsResult] = await Promise.all([
+        supabase
+          .from('bookmarks')
+          .select(`
+            id,
+            note,
+            list_id,
+            created_at,
+            question_id,
+            answer_id,
+            questions!bookmarks_question_id_fkey (
+              title,
+              score,
+              answer_count
+            ),
+            answers!bookmarks_answer_id_fkey (
+              question_id,
+              content,
+              score,
+              questions!answers_question_id_fkey (
+                title
+              )
+            )
+          `)
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('bookmark_lists')
+          .select('id, name')
+          .eq('user_id', user.id)
+          .order('name'),
+      ]);
+
+      if (itemsResult.error) throw itemsResult.error;
+      if (listsResult.error) throw listsResult.error;
+      setItems(itemsResult.data || []);
+      setLists(listsResult.data || []);
+    } catch (error) {
+      console.error('Error fetching bookmarks:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchBookmarks();
+  }, [fetchBookmarks]);
+
+  const createList = async (name: string) => {
+    if (!user) return { error: new Error('No user') };
+
+    const { data, error } = await supabase
+      .from('bookmark_lists')
+      .insert({ user_id: user.id, name: name.trim() })
+      .select('id, name')
+      .single();
+
+    if (!error && data) {
+      setLists(prev => [...prev, data].sort((a, b) => a.name.localeCompare(b.name)));
+    }
+    return { data, error };
+  };
+
+  const renameList = async (id: string, name: string) => {
+    const { error } = await supabase
+      .from('bookmark_lists')
+      .update({ name: name.trim() })
+      .eq('id', id);
+
+    if (!error) {
+      setLists(prev =>
+        prev.map(l => (l.id === id ? { ...l, name: name.trim() } : l)).sort((a, b) => a.name.localeCompare(b.name))
+      );
+    }
+    return { error };
+  };
+
+  // Items in a deleted list become unsorted rather than being removed
+  const deleteList = async (id: string) => {
+    const { error } = await supabase
+      .from('bookmark_lists')
+      .delete()
+      .eq('id', id);
+
+    if (!error) {
+      setLists(prev => prev.filter(l => l.id !== id));
+      setItems(prev => prev.map(i => (i.list_id === id ? { ...i, list_id: null } : i)));
+    }
+    return { error };
+  };
+
+  const updateItem = async (id: string, updates: { list_id?: string | null; note?: string | null }) => {
+    const { error } = await supabase
+      .from('bookmarks')
+      .update(updates)
+      .eq('id', id);
+
+    if (!error) {
+      setItems(prev => prev.map(i => (i.id === id ? { ...i, ...updates } : i)));
+    }
+    return { error };
+  };
+
+  const removeItem = async (id: string) => {
+    const { error } = await supabase
+      .from('bookmarks')
+      .delete()
+      .eq('id', id);
+
+    if (!error) {
+      setItems(prev => prev.filter(i => i.id !== id));
+    }
+    return { error };
+  };
+
+  return {
+    items,
+    lists,
+    loading,
+    createList,
+    renameList,
+    deleteList,
+    updateItem,
+    removeItem,
+    refetch: fetchBookmarks,
+  };
+}
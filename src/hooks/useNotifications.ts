@@ -0,0 +1,169 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { useAuth } from '@/lib/auth';
+
+export type NotificationType = Database['public']['Enums']['notification_type'];
+
+export interface Notification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  question_id: string | null;
+  answer_id: string | null;
+  comment_id: string | null;
+  is_read: boolean;
+  created_at: string;
+}
+
+// Where a notification should take the user when clicked
+export function getNotificationLink(notification: Notification): string | null {
+  if (notification.type === 'badge') return '/profile';
+  if (!notification.question_id) return null;
+
+  const hash = notification.comment_id
+    ? `#comment-${notification.comment_id}`
+    : notification.answer_id
+      ? `#answer-${notification.answer_id}`
+      : '';
+
+  return `/questions/${notification.question_id}${hash}`;
+}
+
+// Re-runs `onChange` whenever one of the user's notifications is created or updated
+function useNotificationChanges(channelName: string, onChange: () => void) {
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (!user) return;
+
+    const channel = supabase
+      .channel(`${channelName}:${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${user.id}` },
+        () => onChange()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, channelName, onChange]);
+}
+
+export function useUnreadNotificationCount() {
+  const { user } = useAuth();
+  const [count, setCount] = useState(0);
+
+  const fetchCount = useCallback(async () => {
+    if (!user) {
+      setCount(0);
+      return;
+    }
+
+    const { count, error } = await supabase
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user.id)
+      .eq('is_read', false);
+
+    if (error) {
+      console.error('Error fetching unread notifications:', error);
+      return;
+    }
+    setCount(count ?? 0);
+  }, [user]);
+
+  useEffect(() => {
+    fetchCount();
+  }, [fetchCount]);
+
+  useNotificationChanges('notification-count', fetchCount);
+
+  return count;
+}
+
+export function useNotifications(type: NotificationType | 'all' = 'all', unreadOnly = false) {
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchNotifications = useCallback(async () => {
+    if (!user) {
+      setNotifications([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      let query = supabase
+        .from('notifications')
+        .select('id, type, title, message, question_id, answer_id, comment_id, is_read, created_at')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(100);
+
+      if (type !== 'all') {
+        query = query.eq('type', type);
+      }
+      if (unreadOnly) {
+        query = query.eq('is_read', false);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      setNotifications(data || []);
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, type, unreadOnly]);
+
+  useEffect(() => {
+    fetchNotifications();
+  }, [fetchNotifications]);
+
+  useNotificationChanges('notification-list', fetchNotifications);
+
+  const markAsRead = async (ids: string[]) => {
+    if (!user || ids.length === 0) return { error: null };
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ is_read: true })
+      .eq('user_id', user.id)
+      .in('id', ids);
+
+    if (!error) {
+      setNotifications(prev => prev.map(n => (ids.includes(n.id) ? { ...n, is_read: true } : n)));
+    }
+    return { error };
+  };
+
+  const markAllAsRead = async () => {
+    if (!user) return { error: null };
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ is_read: true })
+      .eq('user_id', user.id)
+      .eq('is_read', false);
+
+    if (!error) {
+      setNotifications(prev => prev.map(n => ({ ...n, is_read: true })));
+    }
+    return { error };
+  };
+
+  return {
+    notifications,
+    loading,
+    markAsRead,
+    markAllAsRead,
+    refetch: fetchNotifications,
+  };
+}
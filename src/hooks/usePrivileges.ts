@@ -0,0 +1,63 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type { Profile } from '@/hooks/useProfile';
+
+export type PrivilegeType = Database['public']['Enums']['privilege_type'];
+
+export interface Privilege {
+  privilege: PrivilegeType;
+  description: string;
+  min_reputation: number;
+}
+
+// The thresholds rarely change, so every component shares one request
+let privilegesRequest: Promise<Privilege[]> | null = null;
+
+function loadPrivileges() {
+  if (!privilegesRequest) {
+    privilegesRequest = (async () => {
+      const { data, error } = await supabase
+        .from('privileges')
+        .select('privilege, description, min_reputation')
+        .order('min_reputation', { ascending: true });
+
+      if (error) {
+        privilegesRequest = null;
+        throw error;
+      }
+      return data || [];
+    })();
+  }
+  return privilegesRequest;
+}
+
+// What the given profile is allowed to do based on its reputation
+export function usePrivileges(profile: Profile | null) {
+  const [privileges, setPrivileges] = useState<Privilege[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadPrivileges()
+      .then(setPrivileges)
+      .catch(error => console.error('Error fetching privileges:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const find = (privilege: PrivilegeType) => privileges.find(p => p.privilege === privilege);
+
+  const can = (privilege: PrivilegeType) => {
+    if (!profile) return false;
+    if (profile.role === 'admin') return true;
+    const entry = find(privilege);
+    return !!entry && profile.reputation >= entry.min_reputation;
+  };
+
+  // Explanation shown when a privilege hasn't been earned yet
+  const requirement = (privilege: PrivilegeType) => {
+    const entry = find(privilege);
+    return entry ? `You need ${entry.min_reputation} reputation to ${entry.description}` : '';
+  };
+
+  return { privileges, loading, can, requirement };
+}
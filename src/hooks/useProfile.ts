@@ -10,7 +10,11 @@ export interface Profile {
   email: string;
   gender?: 'male' | 'female' | 'other' | 'prefer_not_to_say';
   avatar_url?: string;
-  role: 'user' | 'admin';
+  role: 'user' | 'moderator' | 'admin';
+  reputation: number;
+  hide_ignored_tags: boolean;
+  helpful_flag_count: number;
+  declined_flag_count: number;
   bio?: string;
   created_at: string;
   updated_at: string;
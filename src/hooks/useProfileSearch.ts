@@ -0,0 +1,53 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface ProfileSearchResult {
+  user_id: string;
+  username: string;
+  full_name: string;
+  avatar_url?: string;
+}
+
+const SEARCH_DEBOUNCE_MS = 150;
+
+// Prefix search on usernames; pass null to clear the results
+export function useProfileSearch(query: string | null, limit = 5) {
+  const [results, setResults] = useState<ProfileSearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (query === null) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timeoutId = setTimeout(async () => {
+      setLoading(true);
+      try {
+        // Escape LIKE wildcards so "_" in usernames matches literally
+        const pattern = `${query.replace(/[\\%_]/g, '\\$&')}%`;
+        const { data, error } = await supabase
+          .from('profiles')
+          .select('user_id, username, full_name, avatar_url')
+          .ilike('username', pattern)
+          .order('username')
+          .limit(limit);
+
+        if (error) throw error;
+        if (!cancelled) setResults(data || []);
+      } catch (error) {
+        console.error('Failed to search profiles:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [query, limit]);
+
+  return { results, loading };
+}
@@ -0,0 +1,48 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { ReputationEventType } from '@/lib/reputation';
+
+export interface ReputationEvent {
+  id: string;
+  event_type: ReputationEventType;
+  delta: number;
+  question_id: string | null;
+  answer_id: string | null;
+  created_at: string;
+}
+
+// Most recent entries in a user's reputation ledger
+export function useReputationEvents(userId: string | undefined, limit = 10) {
+  const [events, setEvents] = useState<ReputationEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!userId) {
+      setEvents([]);
+      setLoading(false);
+      return;
+    }
+
+    const fetchEvents = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('reputation_events')
+          .select('id, event_type, delta, question_id, answer_id, created_at')
+          .eq('user_id', userId)
+          .order('created_at', { ascending: false })
+          .limit(limit);
+
+        if (error) throw error;
+        setEvents(data || []);
+      } catch (error) {
+        console.error('Error fetching reputation events:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchEvents();
+  }, [userId, limit]);
+
+  return { events, loading };
+}
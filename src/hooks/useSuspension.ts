@@ -0,0 +1,40 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth';
+
+export interface Suspension {
+  reason: string;
+  ends_at: string;
+}
+
+// The signed-in user's current suspension, if any
+export function useSuspension() {
+  const { user } = useAuth();
+  const [suspension, setSuspension] = useState<Suspension | null>(null);
+
+  useEffect(() => {
+    if (!user) {
+      setSuspension(null);
+      return;
+    }
+
+    supabase
+      .from('user_suspensions')
+      .select('reason, ends_at')
+      .eq('user_id', user.id)
+      .is('lifted_at', null)
+      .gt('ends_at', new Date().toISOString())
+      .order('ends_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching suspension:', error);
+          return;
+        }
+        setSuspension(data);
+      });
+  }, [user]);
+
+  return suspension;
+}
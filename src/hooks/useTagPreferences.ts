@@ -0,0 +1,79 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { useAuth } from '@/lib/auth';
+
+export type TagPreference = Database['public']['Enums']['tag_preference'];
+
+// The signed-in user's watched and ignored tags
+export function useTagPreferences() {
+  const { user } = useAuth();
+  const [preferences, setPreferences] = useState<Record<string, TagPreference>>({});
+  const [loading, setLoading] = useState(true);
+
+  const fetchPreferences = useCallback(async () => {
+    if (!user) {
+      setPreferences({});
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('tag_preferences')
+        .select('tag, preference')
+        .eq('user_id', user.id)
+        .order('tag');
+
+      if (error) throw error;
+      setPreferences(Object.fromEntries((data || []).map(p => [p.tag, p.preference])));
+    } catch (error) {
+      console.error('Error fetching tag preferences:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchPreferences();
+  }, [fetchPreferences]);
+
+  // Watch or ignore a tag; null clears the preference
+  const setPreference = async (tag: string, preference: TagPreference | null) => {
+    if (!user) return { error: new Error('No user') };
+
+    const { error } = preference
+      ? await supabase
+          .from('tag_preferences')
+          .upsert({ user_id: user.id, tag, preference })
+      : await supabase
+          .from('tag_preferences')
+          .delete()
+          .eq('user_id', user.id)
+          .eq('tag', tag);
+
+    if (!error) {
+      setPreferences(prev => {
+        const next = { ...prev };
+        if (preference) {
+          next[tag] = preference;
+        } else {
+          delete next[tag];
+        }
+        return next;
+      });
+    }
+    return { error };
+  };
+
+  const tagsWith = (preference: TagPreference) =>
+    Object.keys(preferences).filter(tag => preferences[tag] === preference);
+
+  return {
+    preferences,
+    watchedTags: tagsWith('watched'),
+    ignoredTags: tagsWith('ignored'),
+    loading,
+    setPreference,
+  };
+}
@@ -0,0 +1,72 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface TagSuggestion {
+  name: string;
+  usage_count: number;
+  // Set when the suggestion was found through one of the tag's synonyms
+  synonym?: string;
+}
+
+const SEARCH_DEBOUNCE_MS = 150;
+
+// Prefix search on tag names and synonyms, most used first; pass null to clear the results
+export function useTagSearch(query: string | null, limit = 6) {
+  const [results, setResults] = useState<TagSuggestion[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!query) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timeoutId = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const pattern = `${query.replace(/[\\%_]/g, '\\$&')}%`;
+        const [tagsResult, synonymsResult] = await Promise.all([
+          supabase
+            .from('tags')
+            .select('name, usage_count')
+            .ilike('name', pattern)
+            .order('usage_count', { ascending: false })
+            .limit(limit),
+          supabase
+            .from('tag_synonyms')
+            .select('synonym, tags (name, usage_count)')
+            .ilike('synonym', pattern)
+            .limit(limit),
+        ]);
+
+        if (tagsResult.error) throw tagsResult.error;
+        if (synonymsResult.error) throw synonymsResult.error;
+
+        const suggestions: TagSuggestion[] = [...(tagsResult.data || [])];
+        for (const { synonym, tags } of synonymsResult.data || []) {
+          if (tags && !suggestions.some(s => s.name === tags.name)) {
+            suggestions.push({ name: tags.name, usage_count: tags.usage_count, synonym });
+          }
+        }
+
+        // An exact name or synonym match goes first so Enter picks it
+        const exact = suggestions.findIndex(s => s.name === query || s.synonym === query);
+        if (exact > 0) suggestions.unshift(...suggestions.splice(exact, 1));
+
+        if (!cancelled) setResults(suggestions.slice(0, limit));
+      } catch (error) {
+        console.error('Failed to search tags:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [query, limit]);
+
+  return { results, loading };
+}
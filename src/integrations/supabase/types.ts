@@ -14,14 +14,113 @@ export type Database = {
   }
   public: {
     Tables: {
+      admin_actions: {
+        Row: {
+          action: Database["public"]["Enums"]["admin_action_type"]
+          actor_id: string | null
+          answer_id: string | null
+          comment_id: string | null
+          created_at: string
+          details: Json
+          id: string
+          question_id: string | null
+          target_user_id: string | null
+        }
+        Insert: {
+          action: Database["public"]["Enums"]["admin_action_type"]
+          actor_id?: string | null
+          answer_id?: string | null
+          comment_id?: string | null
+          created_at?: string
+          details?: Json
+          id?: string
+          question_id?: string | null
+          target_user_id?: string | null
+        }
+        Update: {
+          action?: Database["public"]["Enums"]["admin_action_type"]
+          actor_id?: string | null
+          answer_id?: string | null
+          comment_id?: string | null
+          created_at?: string
+          details?: Json
+          id?: string
+          question_id?: string | null
+          target_user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "admin_actions_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "admin_actions_target_user_id_fkey"
+            columns: ["target_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      answer_revisions: {
+        Row: {
+          answer_id: string
+          content: string
+          created_at: string
+          edited_by: string
+          id: string
+          revision_number: number
+        }
+        Insert: {
+          answer_id: string
+          content: string
+          created_at?: string
+          edited_by: string
+          id?: string
+          revision_number: number
+        }
+        Update: {
+          answer_id?: string
+          content?: string
+          created_at?: string
+          edited_by?: string
+          id?: string
+          revision_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "answer_revisions_answer_id_fkey"
+            columns: ["answer_id"]
+            isOneToOne: false
+            referencedRelation: "answers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "answer_revisions_edited_by_fkey"
+            columns: ["edited_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
       answers: {
         Row: {
           content: string
           created_at: string
+          deleted_at: string | null
+          deleted_by: string | null
           downvote_count: number
+          edited_at: string | null
+          held_at: string | null
+          held_reason: string | null
           id: string
           is_accepted: boolean
           question_id: string
+          score: number
           updated_at: string
           upvote_count: number
           user_id: string
@@ -29,35 +128,906 @@ export type Database = {
         Insert: {
           content: string
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          downvote_count?: number
+          edited_at?: string | null
+          held_at?: string | null
+          held_reason?: string | null
+          id?: string
+          is_accepted?: boolean
+          question_id: string
+          score?: never
+          updated_at?: string
+          upvote_count?: number
+          user_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           downvote_count?: number
+          edited_at?: string | null
+          held_at?: string | null
+          held_reason?: string | null
+          id?: string
+          is_accepted?: boolean
+          question_id?: string
+          score?: never
+          updated_at?: string
+          upvote_count?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "answers_deleted_by_fkey"
+            columns: ["deleted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "answers_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "answers_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      audit_log: {
+        Row: {
+          actor_id: string | null
+          created_at: string
+          id: string
+          new_data: Json | null
+          old_data: Json
+          operation: Database["public"]["Enums"]["audit_operation"]
+          record_id: string
+          table_name: string
+        }
+        Insert: {
+          actor_id?: string | null
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data: Json
+          operation: Database["public"]["Enums"]["audit_operation"]
+          record_id: string
+          table_name: string
+        }
+        Update: {
+          actor_id?: string | null
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json
+          operation?: Database["public"]["Enums"]["audit_operation"]
+          record_id?: string
+          table_name?: string
+        }
+        Relationships: []
+      }
+      badges: {
+        Row: {
+          created_at: string
+          description: string
+          id: string
+          min_score: number | null
+          name: string
+          rule: Database["public"]["Enums"]["badge_rule"]
+          slug: string
+          threshold: number
+          tier: Database["public"]["Enums"]["badge_tier"]
+        }
+        Insert: {
+          created_at?: string
+          description: string
+          id?: string
+          min_score?: number | null
+          name: string
+          rule: Database["public"]["Enums"]["badge_rule"]
+          slug: string
+          threshold: number
+          tier: Database["public"]["Enums"]["badge_tier"]
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          id?: string
+          min_score?: number | null
+          name?: string
+          rule?: Database["public"]["Enums"]["badge_rule"]
+          slug?: string
+          threshold?: number
+          tier?: Database["public"]["Enums"]["badge_tier"]
+        }
+        Relationships: []
+      }
+      blocked_terms: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          kind: Database["public"]["Enums"]["blocked_term_kind"]
+          pattern: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          kind: Database["public"]["Enums"]["blocked_term_kind"]
+          pattern: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          kind?: Database["public"]["Enums"]["blocked_term_kind"]
+          pattern?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "blocked_terms_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      bookmark_lists: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bookmark_lists_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      bookmarks: {
+        Row: {
+          answer_id: string | null
+          created_at: string
+          id: string
+          list_id: string | null
+          note: string | null
+          question_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          answer_id?: string | null
+          created_at?: string
+          id?: string
+          list_id?: string | null
+          note?: string | null
+          question_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          answer_id?: string | null
+          created_at?: string
+          id?: string
+          list_id?: string | null
+          note?: string | null
+          question_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bookmarks_answer_id_fkey"
+            columns: ["answer_id"]
+            isOneToOne: false
+            referencedRelation: "answers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bookmarks_list_id_fkey"
+            columns: ["list_id"]
+            isOneToOne: false
+            referencedRelation: "bookmark_lists"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bookmarks_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bookmarks_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      close_votes: {
+        Row: {
+          created_at: string
+          duplicate_of: string | null
+          id: string
+          kind: Database["public"]["Enums"]["close_vote_kind"]
+          question_id: string
+          reason: Database["public"]["Enums"]["close_reason"] | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          duplicate_of?: string | null
+          id?: string
+          kind: Database["public"]["Enums"]["close_vote_kind"]
+          question_id: string
+          reason?: Database["public"]["Enums"]["close_reason"] | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          duplicate_of?: string | null
+          id?: string
+          kind?: Database["public"]["Enums"]["close_vote_kind"]
+          question_id?: string
+          reason?: Database["public"]["Enums"]["close_reason"] | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "close_votes_duplicate_of_fkey"
+            columns: ["duplicate_of"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "close_votes_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "close_votes_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      comment_votes: {
+        Row: {
+          comment_id: string
+          created_at: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          comment_id: string
+          created_at?: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          comment_id?: string
+          created_at?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comment_votes_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comment_votes_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      comments: {
+        Row: {
+          answer_id: string | null
+          content: string
+          created_at: string
+          deleted_at: string | null
+          deleted_by: string | null
+          id: string
+          question_id: string | null
+          updated_at: string
+          upvote_count: number
+          user_id: string
+        }
+        Insert: {
+          answer_id?: string | null
+          content: string
+          created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          id?: string
+          question_id?: string | null
+          updated_at?: string
+          upvote_count?: number
+          user_id: string
+        }
+        Update: {
+          answer_id?: string | null
+          content?: string
+          created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          id?: string
+          question_id?: string | null
+          updated_at?: string
+          upvote_count?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comments_answer_id_fkey"
+            columns: ["answer_id"]
+            isOneToOne: false
+            referencedRelation: "answers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comments_deleted_by_fkey"
+            columns: ["deleted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "comments_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comments_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      flags: {
+        Row: {
+          answer_id: string | null
+          comment_id: string | null
+          created_at: string
+          details: string | null
+          id: string
+          question_id: string | null
+          reason: Database["public"]["Enums"]["flag_reason"]
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: Database["public"]["Enums"]["flag_status"]
+          user_id: string
+        }
+        Insert: {
+          answer_id?: string | null
+          comment_id?: string | null
+          created_at?: string
+          details?: string | null
+          id?: string
+          question_id?: string | null
+          reason: Database["public"]["Enums"]["flag_reason"]
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["flag_status"]
+          user_id: string
+        }
+        Update: {
+          answer_id?: string | null
+          comment_id?: string | null
+          created_at?: string
+          details?: string | null
+          id?: string
+          question_id?: string | null
+          reason?: Database["public"]["Enums"]["flag_reason"]
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["flag_status"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "flags_answer_id_fkey"
+            columns: ["answer_id"]
+            isOneToOne: false
+            referencedRelation: "answers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "flags_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "flags_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "flags_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "flags_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      mentions: {
+        Row: {
+          answer_id: string | null
+          comment_id: string | null
+          created_at: string
+          id: string
+          mentioned_by: string
+          question_id: string | null
+          user_id: string
+        }
+        Insert: {
+          answer_id?: string | null
+          comment_id?: string | null
+          created_at?: string
+          id?: string
+          mentioned_by: string
+          question_id?: string | null
+          user_id: string
+        }
+        Update: {
+          answer_id?: string | null
+          comment_id?: string | null
+          created_at?: string
+          id?: string
+          mentioned_by?: string
+          question_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mentions_answer_id_fkey"
+            columns: ["answer_id"]
+            isOneToOne: false
+            referencedRelation: "answers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mentions_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mentions_mentioned_by_fkey"
+            columns: ["mentioned_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "mentions_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mentions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          answer_id: string | null
+          comment_id: string | null
+          created_at: string
+          id: string
+          is_read: boolean
+          mentioned_by: string | null
+          message: string
+          question_id: string | null
+          title: string
+          type: Database["public"]["Enums"]["notification_type"]
+          user_id: string
+        }
+        Insert: {
+          answer_id?: string | null
+          comment_id?: string | null
+          created_at?: string
+          id?: string
+          is_read?: boolean
+          mentioned_by?: string | null
+          message: string
+          question_id?: string | null
+          title: string
+          type: Database["public"]["Enums"]["notification_type"]
+          user_id: string
+        }
+        Update: {
+          answer_id?: string | null
+          comment_id?: string | null
+          created_at?: string
+          id?: string
+          is_read?: boolean
+          mentioned_by?: string | null
+          message?: string
+          question_id?: string | null
+          title?: string
+          type?: Database["public"]["Enums"]["notification_type"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_answer_id_fkey"
+            columns: ["answer_id"]
+            isOneToOne: false
+            referencedRelation: "answers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_mentioned_by_fkey"
+            columns: ["mentioned_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "notifications_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      privileges: {
+        Row: {
+          description: string
+          min_reputation: number
+          privilege: Database["public"]["Enums"]["privilege_type"]
+        }
+        Insert: {
+          description: string
+          min_reputation: number
+          privilege: Database["public"]["Enums"]["privilege_type"]
+        }
+        Update: {
+          description?: string
+          min_reputation?: number
+          privilege?: Database["public"]["Enums"]["privilege_type"]
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          bio: string | null
+          created_at: string
+          declined_flag_count: number
+          email: string
+          full_name: string
+          gender: Database["public"]["Enums"]["gender_type"] | null
+          helpful_flag_count: number
+          hide_ignored_tags: boolean
+          id: string
+          reputation: number
+          role: Database["public"]["Enums"]["user_role"]
+          updated_at: string
+          user_id: string
+          username: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          bio?: string | null
+          created_at?: string
+          declined_flag_count?: number
+          email: string
+          full_name: string
+          gender?: Database["public"]["Enums"]["gender_type"] | null
+          helpful_flag_count?: number
+          hide_ignored_tags?: boolean
+          id?: string
+          reputation?: number
+          role?: Database["public"]["Enums"]["user_role"]
+          updated_at?: string
+          user_id: string
+          username: string
+        }
+        Update: {
+          avatar_url?: string | null
+          bio?: string | null
+          created_at?: string
+          declined_flag_count?: number
+          email?: string
+          full_name?: string
+          gender?: Database["public"]["Enums"]["gender_type"] | null
+          helpful_flag_count?: number
+          hide_ignored_tags?: boolean
+          id?: string
+          reputation?: number
+          role?: Database["public"]["Enums"]["user_role"]
+          updated_at?: string
+          user_id?: string
+          username?: string
+        }
+        Relationships: []
+      }
+      question_followers: {
+        Row: {
+          created_at: string
+          muted: boolean
+          question_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          muted?: boolean
+          question_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          muted?: boolean
+          question_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "question_followers_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "question_followers_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      question_revisions: {
+        Row: {
+          created_at: string
+          description: string
+          edited_by: string
+          id: string
+          question_id: string
+          revision_number: number
+          tags: string[] | null
+          title: string
+        }
+        Insert: {
+          created_at?: string
+          description: string
+          edited_by: string
+          id?: string
+          question_id: string
+          revision_number: number
+          tags?: string[] | null
+          title: string
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          edited_by?: string
+          id?: string
+          question_id?: string
+          revision_number?: number
+          tags?: string[] | null
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "question_revisions_edited_by_fkey"
+            columns: ["edited_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "question_revisions_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      question_views: {
+        Row: {
+          question_id: string
+          viewed_at: string
+          viewer: string
+        }
+        Insert: {
+          question_id: string
+          viewed_at?: string
+          viewer: string
+        }
+        Update: {
+          question_id?: string
+          viewed_at?: string
+          viewer?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "question_views_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      questions: {
+        Row: {
+          answer_count: number
+          closed_at: string | null
+          closed_reason: Database["public"]["Enums"]["close_reason"] | null
+          created_at: string
+          deleted_at: string | null
+          deleted_by: string | null
+          description: string
+          downvote_count: number
+          duplicate_of: string | null
+          edited_at: string | null
+          held_at: string | null
+          held_reason: string | null
+          has_accepted_answer: boolean
+          id: string
+          score: number
+          search_vector: unknown | null
+          tags: string[] | null
+          title: string
+          updated_at: string
+          upvote_count: number
+          user_id: string
+          view_count: number
+        }
+        Insert: {
+          answer_count?: number
+          closed_at?: string | null
+          closed_reason?: Database["public"]["Enums"]["close_reason"] | null
+          created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          description: string
+          downvote_count?: number
+          duplicate_of?: string | null
+          edited_at?: string | null
+          held_at?: string | null
+          held_reason?: string | null
+          has_accepted_answer?: boolean
           id?: string
-          is_accepted?: boolean
-          question_id: string
+          score?: never
+          search_vector?: unknown | null
+          tags?: string[] | null
+          title: string
           updated_at?: string
           upvote_count?: number
           user_id: string
+          view_count?: number
         }
         Update: {
-          content?: string
+          answer_count?: number
+          closed_at?: string | null
+          closed_reason?: Database["public"]["Enums"]["close_reason"] | null
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          description?: string
           downvote_count?: number
+          duplicate_of?: string | null
+          edited_at?: string | null
+          held_at?: string | null
+          held_reason?: string | null
+          has_accepted_answer?: boolean
           id?: string
-          is_accepted?: boolean
-          question_id?: string
+          score?: never
+          search_vector?: unknown | null
+          tags?: string[] | null
+          title?: string
           updated_at?: string
           upvote_count?: number
           user_id?: string
+          view_count?: number
         }
         Relationships: [
           {
-            foreignKeyName: "answers_question_id_fkey"
-            columns: ["question_id"]
+            foreignKeyName: "questions_deleted_by_fkey"
+            columns: ["deleted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "questions_duplicate_of_fkey"
+            columns: ["duplicate_of"]
             isOneToOne: false
             referencedRelation: "questions"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "answers_user_id_fkey"
+            foreignKeyName: "questions_user_id_fkey"
             columns: ["user_id"]
             isOneToOne: false
             referencedRelation: "profiles"
@@ -65,123 +1035,121 @@ export type Database = {
           },
         ]
       }
-      mentions: {
+      rate_limit_events: {
         Row: {
-          answer_id: string | null
+          action: Database["public"]["Enums"]["rate_limited_action"]
           created_at: string
           id: string
-          mentioned_by: string
-          question_id: string | null
           user_id: string
         }
         Insert: {
-          answer_id?: string | null
+          action: Database["public"]["Enums"]["rate_limited_action"]
           created_at?: string
           id?: string
-          mentioned_by: string
-          question_id?: string | null
           user_id: string
         }
         Update: {
-          answer_id?: string | null
+          action?: Database["public"]["Enums"]["rate_limited_action"]
           created_at?: string
           id?: string
-          mentioned_by?: string
-          question_id?: string | null
           user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "mentions_answer_id_fkey"
-            columns: ["answer_id"]
-            isOneToOne: false
-            referencedRelation: "answers"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "mentions_mentioned_by_fkey"
-            columns: ["mentioned_by"]
+            foreignKeyName: "rate_limit_events_user_id_fkey"
+            columns: ["user_id"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["user_id"]
           },
+        ]
+      }
+      rate_limits: {
+        Row: {
+          action: Database["public"]["Enums"]["rate_limited_action"]
+          max_count: number
+          new_account_hours: number
+          new_account_max_count: number
+          updated_at: string
+          updated_by: string | null
+          window_hours: number
+        }
+        Insert: {
+          action: Database["public"]["Enums"]["rate_limited_action"]
+          max_count: number
+          new_account_hours: number
+          new_account_max_count: number
+          updated_at?: string
+          updated_by?: string | null
+          window_hours: number
+        }
+        Update: {
+          action?: Database["public"]["Enums"]["rate_limited_action"]
+          max_count?: number
+          new_account_hours?: number
+          new_account_max_count?: number
+          updated_at?: string
+          updated_by?: string | null
+          window_hours?: number
+        }
+        Relationships: [
           {
-            foreignKeyName: "mentions_question_id_fkey"
-            columns: ["question_id"]
-            isOneToOne: false
-            referencedRelation: "questions"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "mentions_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "rate_limits_updated_by_fkey"
+            columns: ["updated_by"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["user_id"]
           },
         ]
       }
-      notifications: {
+      reputation_events: {
         Row: {
           answer_id: string | null
           created_at: string
+          delta: number
+          event_type: Database["public"]["Enums"]["reputation_event_type"]
           id: string
-          is_read: boolean
-          mentioned_by: string | null
-          message: string
           question_id: string | null
-          title: string
-          type: Database["public"]["Enums"]["notification_type"]
           user_id: string
+          vote_id: string | null
         }
         Insert: {
           answer_id?: string | null
           created_at?: string
+          delta: number
+          event_type: Database["public"]["Enums"]["reputation_event_type"]
           id?: string
-          is_read?: boolean
-          mentioned_by?: string | null
-          message: string
           question_id?: string | null
-          title: string
-          type: Database["public"]["Enums"]["notification_type"]
           user_id: string
+          vote_id?: string | null
         }
         Update: {
           answer_id?: string | null
           created_at?: string
+          delta?: number
+          event_type?: Database["public"]["Enums"]["reputation_event_type"]
           id?: string
-          is_read?: boolean
-          mentioned_by?: string | null
-          message?: string
           question_id?: string | null
-          title?: string
-          type?: Database["public"]["Enums"]["notification_type"]
           user_id?: string
+          vote_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "notifications_answer_id_fkey"
+            foreignKeyName: "reputation_events_answer_id_fkey"
             columns: ["answer_id"]
             isOneToOne: false
             referencedRelation: "answers"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "notifications_mentioned_by_fkey"
-            columns: ["mentioned_by"]
-            isOneToOne: false
-            referencedRelation: "profiles"
-            referencedColumns: ["user_id"]
-          },
-          {
-            foreignKeyName: "notifications_question_id_fkey"
+            foreignKeyName: "reputation_events_question_id_fkey"
             columns: ["question_id"]
             isOneToOne: false
             referencedRelation: "questions"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "notifications_user_id_fkey"
+            foreignKeyName: "reputation_events_user_id_fkey"
             columns: ["user_id"]
             isOneToOne: false
             referencedRelation: "profiles"
@@ -189,91 +1157,170 @@ export type Database = {
           },
         ]
       }
-      profiles: {
+      tag_preferences: {
         Row: {
-          avatar_url: string | null
-          bio: string | null
           created_at: string
-          email: string
-          full_name: string
-          gender: Database["public"]["Enums"]["gender_type"] | null
+          preference: Database["public"]["Enums"]["tag_preference"]
+          tag: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          preference: Database["public"]["Enums"]["tag_preference"]
+          tag: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          preference?: Database["public"]["Enums"]["tag_preference"]
+          tag?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      tag_synonyms: {
+        Row: {
+          created_at: string
+          synonym: string
+          tag_id: string
+        }
+        Insert: {
+          created_at?: string
+          synonym: string
+          tag_id: string
+        }
+        Update: {
+          created_at?: string
+          synonym?: string
+          tag_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tag_synonyms_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tags: {
+        Row: {
+          created_at: string
+          excerpt: string | null
           id: string
-          role: Database["public"]["Enums"]["user_role"]
+          name: string
           updated_at: string
-          user_id: string
-          username: string
+          usage_count: number
+          wiki: string | null
         }
         Insert: {
-          avatar_url?: string | null
-          bio?: string | null
           created_at?: string
-          email: string
-          full_name: string
-          gender?: Database["public"]["Enums"]["gender_type"] | null
+          excerpt?: string | null
           id?: string
-          role?: Database["public"]["Enums"]["user_role"]
+          name: string
           updated_at?: string
-          user_id: string
-          username: string
+          usage_count?: number
+          wiki?: string | null
         }
         Update: {
-          avatar_url?: string | null
-          bio?: string | null
           created_at?: string
-          email?: string
-          full_name?: string
-          gender?: Database["public"]["Enums"]["gender_type"] | null
+          excerpt?: string | null
           id?: string
-          role?: Database["public"]["Enums"]["user_role"]
+          name?: string
           updated_at?: string
-          user_id?: string
-          username?: string
+          usage_count?: number
+          wiki?: string | null
         }
         Relationships: []
       }
-      questions: {
+      user_badges: {
+        Row: {
+          awarded_at: string
+          badge_id: string
+          id: string
+          tag: string | null
+          user_id: string
+        }
+        Insert: {
+          awarded_at?: string
+          badge_id: string
+          id?: string
+          tag?: string | null
+          user_id: string
+        }
+        Update: {
+          awarded_at?: string
+          badge_id?: string
+          id?: string
+          tag?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_badges_badge_id_fkey"
+            columns: ["badge_id"]
+            isOneToOne: false
+            referencedRelation: "badges"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_badges_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      user_suspensions: {
         Row: {
-          answer_count: number
           created_at: string
-          description: string
-          downvote_count: number
-          has_accepted_answer: boolean
+          ends_at: string
           id: string
-          tags: string[] | null
-          title: string
-          updated_at: string
-          upvote_count: number
+          lifted_at: string | null
+          lifted_by: string | null
+          reason: string
+          suspended_by: string | null
           user_id: string
         }
         Insert: {
-          answer_count?: number
           created_at?: string
-          description: string
-          downvote_count?: number
-          has_accepted_answer?: boolean
+          ends_at: string
           id?: string
-          tags?: string[] | null
-          title: string
-          updated_at?: string
-          upvote_count?: number
+          lifted_at?: string | null
+          lifted_by?: string | null
+          reason: string
+          suspended_by?: string | null
           user_id: string
         }
         Update: {
-          answer_count?: number
           created_at?: string
-          description?: string
-          downvote_count?: number
-          has_accepted_answer?: boolean
+          ends_at?: string
           id?: string
-          tags?: string[] | null
-          title?: string
-          updated_at?: string
-          upvote_count?: number
+          lifted_at?: string | null
+          lifted_by?: string | null
+          reason?: string
+          suspended_by?: string | null
           user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "questions_user_id_fkey"
+            foreignKeyName: "user_suspensions_lifted_by_fkey"
+            columns: ["lifted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "user_suspensions_suspended_by_fkey"
+            columns: ["suspended_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "user_suspensions_user_id_fkey"
             columns: ["user_id"]
             isOneToOne: false
             referencedRelation: "profiles"
@@ -335,12 +1382,200 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      accept_answer: {
+        Args: { _answer_id: string }
+        Returns: undefined
+      }
+      content_fingerprint: {
+        Args: { _content: string }
+        Returns: string
+      }
+      delete_post: {
+        Args: { _question_id?: string; _answer_id?: string }
+        Returns: undefined
+      }
+      get_user_top_tags: {
+        Args: { _user_id: string; _limit?: number }
+        Returns: {
+          tag: string
+          post_count: number
+          score: number
+        }[]
+      }
+      has_privilege: {
+        Args: {
+          _user_id: string
+          _privilege: Database["public"]["Enums"]["privilege_type"]
+        }
+        Returns: boolean
+      }
+      increment_question_views: {
+        Args: { _question_id: string }
+        Returns: undefined
+      }
+      interesting_questions: {
+        Args: {
+          _tag?: string
+          _answered?: boolean
+        }
+        Returns: {
+          id: string
+          title: string
+          description: string
+          tags: string[]
+          user_id: string
+          upvote_count: number
+          downvote_count: number
+          answer_count: number
+          has_accepted_answer: boolean
+          score: number
+          view_count: number
+          created_at: string
+          last_activity_at: string
+          username: string
+          full_name: string
+          avatar_url: string | null
+          reputation: number
+          interest: number
+        }[]
+      }
+      is_admin: {
+        Args: { _user_id: string }
+        Returns: boolean
+      }
+      is_moderator: {
+        Args: { _user_id: string }
+        Returns: boolean
+      }
+      is_rate_limited_user: {
+        Args: { _user_id: string }
+        Returns: boolean
+      }
+      is_suspended: {
+        Args: { _user_id: string }
+        Returns: boolean
+      }
+      is_valid_tag_name: {
+        Args: { _name: string }
+        Returns: boolean
+      }
+      lift_suspension: {
+        Args: { _user_id: string }
+        Returns: undefined
+      }
+      purge_deleted_posts: {
+        Args: { _retention?: unknown }
+        Returns: number
+      }
+      purge_rate_limit_events: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      recompute_reputation: {
+        Args: { _user_id?: string }
+        Returns: undefined
+      }
+      review_flags: {
+        Args: {
+          _helpful: boolean
+          _question_id?: string
+          _answer_id?: string
+          _comment_id?: string
+        }
+        Returns: undefined
+      }
+      review_held_post: {
+        Args: { _approve: boolean; _question_id?: string; _answer_id?: string }
+        Returns: undefined
+      }
+      search_questions: {
+        Args: {
+          _query?: string
+          _tags?: string[]
+          _username?: string
+          _answered?: boolean
+          _accepted?: boolean
+          _min_score?: number
+          _max_score?: number
+        }
+        Returns: {
+          id: string
+          title: string
+          description: string
+          tags: string[]
+          user_id: string
+          upvote_count: number
+          downvote_count: number
+          answer_count: number
+          has_accepted_answer: boolean
+          score: number
+          view_count: number
+          created_at: string
+          username: string
+          full_name: string
+          avatar_url: string | null
+          reputation: number
+          rank: number
+          title_highlight: string
+          snippet: string
+        }[]
+      }
+      set_user_role: {
+        Args: {
+          _user_id: string
+          _role: Database["public"]["Enums"]["user_role"]
+        }
+        Returns: undefined
+      }
+      suspend_user: {
+        Args: { _user_id: string; _ends_at: string; _reason: string }
+        Returns: undefined
+      }
+      undelete_post: {
+        Args: { _question_id?: string; _answer_id?: string }
+        Returns: undefined
+      }
     }
     Enums: {
+      admin_action_type:
+        | "role_changed"
+        | "user_suspended"
+        | "suspension_lifted"
+        | "flags_reviewed"
+        | "post_deleted"
+        | "post_undeleted"
+        | "post_approved"
+      audit_operation: "update" | "delete"
+      badge_rule:
+        | "accepted_answers"
+        | "answers_with_score"
+        | "question_views"
+        | "tag_score"
+      badge_tier: "bronze" | "silver" | "gold"
+      blocked_term_kind: "word" | "regex" | "domain"
+      close_reason: "duplicate" | "off_topic" | "needs_details" | "opinion_based"
+      close_vote_kind: "close" | "reopen"
+      flag_reason: "spam" | "rude" | "low_quality" | "needs_moderator"
+      flag_status: "pending" | "helpful" | "declined"
       gender_type: "male" | "female" | "other" | "prefer_not_to_say"
-      notification_type: "mention" | "answer" | "accepted"
-      user_role: "user" | "admin"
+      notification_type: "mention" | "answer" | "accepted" | "badge" | "activity"
+      privilege_type:
+        | "upvote"
+        | "downvote"
+        | "comment"
+        | "edit_others"
+        | "close_vote"
+        | "create_tag"
+        | "flag"
+      rate_limited_action: "question" | "answer" | "vote"
+      reputation_event_type:
+        | "question_upvoted"
+        | "answer_upvoted"
+        | "downvote_received"
+        | "downvote_given"
+        | "answer_accepted"
+      tag_preference: "watched" | "ignored"
+      user_role: "user" | "moderator" | "admin"
       vote_type: "upvote" | "downvote"
     }
     CompositeTypes: {
@@ -469,9 +1704,49 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
+      admin_action_type: [
+        "role_changed",
+        "user_suspended",
+        "suspension_lifted",
+        "flags_reviewed",
+        "post_deleted",
+        "post_undeleted",
+        "post_approved",
+      ],
+      audit_operation: ["update", "delete"],
+      badge_rule: [
+        "accepted_answers",
+        "answers_with_score",
+        "question_views",
+        "tag_score",
+      ],
+      badge_tier: ["bronze", "silver", "gold"],
+      blocked_term_kind: ["word", "regex", "domain"],
+      close_reason: ["duplicate", "off_topic", "needs_details", "opinion_based"],
+      close_vote_kind: ["close", "reopen"],
+      flag_reason: ["spam", "rude", "low_quality", "needs_moderator"],
+      flag_status: ["pending", "helpful", "declined"],
       gender_type: ["male", "female", "other", "prefer_not_to_say"],
-      notification_type: ["mention", "answer", "accepted"],
-      user_role: ["user", "admin"],
+      notification_type: ["mention", "answer", "accepted", "badge", "activity"],
+      privilege_type: [
+        "upvote",
+        "downvote",
+        "comment",
+        "edit_others",
+        "close_vote",
+        "create_tag",
+        "flag",
+      ],
+      rate_limited_action: ["question", "answer", "vote"],
+      reputation_event_type: [
+        "question_upvoted",
+        "answer_upvoted",
+        "downvote_received",
+        "downvote_given",
+        "answer_accepted",
+      ],
+      tag_preference: ["watched", "ignored"],
+      user_role: ["user", "moderator", "admin"],
       vote_type: ["upvote", "downvote"],
     },
   },
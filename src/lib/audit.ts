@@ -0,0 +1,50 @@
+import type { Database, Json } from '@/integrations/supabase/types';
+
+export type AuditOperation = Database['public']['Enums']['audit_operation'];
+
+// Tables with an audit_row_change() trigger
+export const AUDITED_TABLES = ['questions', 'answers', 'votes', 'profiles'] as const;
+export type AuditedTable = typeof AUDITED_TABLES[number];
+
+export const AUDITED_TABLE_LABELS: Record<AuditedTable, string> = {
+  questions: 'Questions',
+  answers: 'Answers',
+  votes: 'Votes',
+  profiles: 'Roles',
+};
+
+export const AUDIT_OPERATION_LABELS: Record<AuditOperation, string> = {
+  update: 'Updated',
+  delete: 'Deleted',
+};
+
+function asObject(data: Json | null): Record<string, Json> {
+  return data && typeof data === 'object' && !Array.isArray(data) ? data : {};
+}
+
+// Columns whose value differs between the before and after snapshots
+export function changedFields(oldData: Json, newData: Json | null): string[] {
+  if (newData === null) return [];
+
+  const before = asObject(oldData);
+  const after = asObject(newData);
+  return Object.keys(after).filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]));
+}
+
+// Where the audited row can be seen, if it still exists
+export function getAuditRecordLink(table: string, data: Json): string | null {
+  const row = asObject(data);
+
+  switch (table) {
+    case 'questions':
+      return `/questions/${row.id}`;
+    case 'answers':
+      return `/questions/${row.question_id}#answer-${row.id}`;
+    case 'votes':
+      return row.question_id ? `/questions/${row.question_id}` : null;
+    case 'profiles':
+      return `/users/${row.username}`;
+    default:
+      return null;
+  }
+}
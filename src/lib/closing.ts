@@ -0,0 +1,28 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type CloseReason = Database['public']['Enums']['close_reason'];
+
+// Mirrors _votes_needed in apply_close_votes()
+export const CLOSE_VOTES_NEEDED = 3;
+
+export const CLOSE_REASON_LABELS: Record<CloseReason, string> = {
+  duplicate: 'Duplicate',
+  off_topic: 'Off-topic',
+  needs_details: 'Needs details or clarity',
+  opinion_based: 'Opinion-based',
+};
+
+export const CLOSE_REASON_DESCRIPTIONS: Record<CloseReason, string> = {
+  duplicate: 'This question has been asked before and already has an answer.',
+  off_topic: 'This question is not about programming or software development.',
+  needs_details: 'This question needs more details, such as the code, the expected result or the actual error.',
+  opinion_based: 'This question is likely to be answered with opinions rather than facts and citations.',
+};
+
+const UUID_PATTERN = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/i;
+
+// Pulls a question id out of a pasted question link or a bare id
+export function parseQuestionReference(input: string): string | null {
+  const match = input.match(UUID_PATTERN);
+  return match ? match[0].toLowerCase() : null;
+}
@@ -0,0 +1,41 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type BlockedTermKind = Database['public']['Enums']['blocked_term_kind'];
+
+// Mirror the constants in content_filter_reason()
+export const DUPLICATE_POSTS_TO_HOLD = 2;
+export const DUPLICATE_WINDOW_DAYS = 30;
+export const LINK_LIMIT_REPUTATION = 10;
+export const MAX_LINKS_BELOW_REPUTATION = 2;
+
+export const MAX_BLOCKED_TERM_LENGTH = 200;
+
+export const BLOCKED_TERM_KIND_LABELS: Record<BlockedTermKind, string> = {
+  word: 'Words',
+  regex: 'Patterns',
+  domain: 'Domains',
+};
+
+export const BLOCKED_TERM_KIND_DESCRIPTIONS: Record<BlockedTermKind, string> = {
+  word: 'Whole words or phrases, matched case-insensitively.',
+  regex: 'PostgreSQL regular expressions, matched case-insensitively against the title and body.',
+  domain: 'Links to this domain or any of its subdomains.',
+};
+
+export const BLOCKED_TERM_PLACEHOLDERS: Record<BlockedTermKind, string> = {
+  word: 'e.g. casino',
+  regex: 'e.g. buy\\s+followers',
+  domain: 'e.g. example.com',
+};
+
+// Puts a term in the form the blocked_terms constraints expect
+export function normalizeBlockedTerm(kind: BlockedTermKind, pattern: string): string {
+  const trimmed = pattern.trim();
+  if (kind !== 'domain') return trimmed;
+
+  return trimmed
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/^www\./, '')
+    .replace(/[/?#].*$/, '');
+}
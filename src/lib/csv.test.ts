@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { toCsv } from '@/lib/csv';
+
+describe('toCsv', () => {
+  it('quotes fields with delimiters, quotes and line breaks', () => {
+    expect(toCsv(['a', 'b'], [['x,y', 'say "hi"'], ['line\nbreak', null]])).toBe(
+      'a,b\r\n"x,y","say ""hi"""\r\n"line\nbreak",'
+    );
+  });
+
+  it('neutralizes text that spreadsheets would run as a formula', () => {
+    const csv = toCsv(['actor'], [
+      ['=HYPERLINK("https://evil.example","click")'],
+      ['+1'],
+      ['-1+1'],
+      ['@SUM(A1)'],
+      ['\tcmd'],
+      ['\rcmd'],
+    ]);
+
+    expect(csv.split('\r\n').slice(1)).toEqual([
+      `"'=HYPERLINK(""https://evil.example"",""click"")"`,
+      "'+1",
+      "'-1+1",
+      "'@SUM(A1)",
+      "'\tcmd",
+      `"'\rcmd"`,
+    ]);
+  });
+
+  it('leaves numbers as numbers', () => {
+    expect(toCsv(['delta'], [[-5], [10]])).toBe('delta\r\n-5\r\n10');
+  });
+});
@@ -0,0 +1,22 @@
+import { addDays } from 'date-fns';
+
+// Mirrors the default _retention in purge_deleted_posts()
+export const PURGE_AFTER_DAYS = 30;
+
+export interface DeletedState {
+  user_id: string;
+  deleted_at: string | null;
+  deleted_by: string | null;
+}
+
+// When a deleted post will be permanently removed
+export function purgeDate(deletedAt: string): Date {
+  return addDays(new Date(deletedAt), PURGE_AFTER_DAYS);
+}
+
+// Mirrors undelete_post(): authors can restore what they deleted themselves,
+// moderators anything
+export function canUndelete(post: DeletedState, userId: string | undefined, canModerate: boolean): boolean {
+  if (!post.deleted_at || !userId) return false;
+  return canModerate || (post.user_id === userId && post.deleted_by === userId);
+}
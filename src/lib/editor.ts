@@ -0,0 +1,177 @@
+import TurndownService from 'turndown';
+
+export interface EditorState {
+  value: string;
+  start: number;
+  end: number;
+}
+
+export type MarkdownFormat =
+  | 'bold'
+  | 'italic'
+  | 'link'
+  | 'bulletList'
+  | 'orderedList'
+  | 'codeBlock'
+  | 'quote';
+
+function wrapSelection(state: EditorState, before: string, after: string, placeholder: string): EditorState {
+  const { value, start, end } = state;
+  const selected = value.slice(start, end);
+
+  // Toggle off when the selection is already wrapped
+  if (
+    value.slice(start - before.length, start) === before &&
+    value.slice(end, end + after.length) === after
+  ) {
+    return {
+      value: value.slice(0, start - before.length) + selected + value.slice(end + after.length),
+      start: start - before.length,
+      end: end - before.length,
+    };
+  }
+
+  const text = selected || placeholder;
+  return {
+    value: value.slice(0, start) + before + text + after + value.slice(end),
+    start: start + before.length,
+    end: start + before.length + text.length,
+  };
+}
+
+function lineBounds(value: string, start: number, end: number) {
+  const lineStart = value.lastIndexOf('\n', start - 1) + 1;
+  const newline = value.indexOf('\n', end);
+  const lineEnd = newline === -1 ? value.length : newline;
+  return { lineStart, lineEnd };
+}
+
+function prefixLines(state: EditorState, prefix: (index: number) => string, pattern: RegExp): EditorState {
+  const { value, start, end } = state;
+  const { lineStart, lineEnd } = lineBounds(value, start, end);
+  const lines = value.slice(lineStart, lineEnd).split('\n');
+
+  const allPrefixed = lines.every(line => pattern.test(line));
+  const updated = lines
+    .map((line, index) => (allPrefixed ? line.replace(pattern, '') : prefix(index) + line))
+    .join('\n');
+
+  return {
+    value: value.slice(0, lineStart) + updated + value.slice(lineEnd),
+    start: lineStart,
+    end: lineStart + updated.length,
+  };
+}
+
+function insertLink(state: EditorState): EditorState {
+  const { value, start, end } = state;
+  const text = value.slice(start, end) || 'link text';
+  const inserted = `[${text}](https://)`;
+  const urlStart = start + text.length + 3;
+
+  return {
+    value: value.slice(0, start) + inserted + value.slice(end),
+    start: urlStart,
+    end: urlStart + 'https://'.length,
+  };
+}
+
+function insertCodeBlock(state: EditorState): EditorState {
+  const { value, start, end } = state;
+  const selected = value.slice(start, end) || 'code';
+  const leading = start > 0 && value[start - 1] !== '\n' ? '\n' : '';
+  const trailing = end < value.length && value[end] !== '\n' ? '\n' : '';
+  const opening = `${leading}\`\`\`\n`;
+
+  return {
+    value: value.slice(0, start) + opening + selected + '\n```' + trailing + value.slice(end),
+    start: start + opening.length,
+    end: start + opening.length + selected.length,
+  };
+}
+
+export function applyFormat(state: EditorState, format: MarkdownFormat): EditorState {
+  switch (format) {
+    case 'bold':
+      return wrapSelection(state, '**', '**', 'bold text');
+    case 'italic':
+      return wrapSelection(state, '_', '_', 'italic text');
+    case 'link':
+      return insertLink(state);
+    case 'bulletList':
+      return prefixLines(state, () => '- ', /^[-*+] /);
+    case 'orderedList':
+      return prefixLines(state, index => `${index + 1}. `, /^\d+\. /);
+    case 'quote':
+      return prefixLines(state, () => '> ', /^> ?/);
+    case 'codeBlock':
+      return insertCodeBlock(state);
+  }
+}
+
+export function insertText(state: EditorState, text: string): EditorState {
+  const { value, start, end } = state;
+  const caret = start + text.length;
+  return {
+    value: value.slice(0, start) + text + value.slice(end),
+    start: caret,
+    end: caret,
+  };
+}
+
+// The partial @username being typed right before the caret, if any
+export function getMentionQuery(value: string, caret: number): { query: string; start: number } | null {
+  const match = /(?:^|[^A-Za-z0-9_.])@([A-Za-z0-9_.-]{0,50})$/.exec(value.slice(0, caret));
+  if (!match) return null;
+  return { query: match[1], start: caret - match[1].length - 1 };
+}
+
+export function insertMention(state: EditorState, mentionStart: number, username: string): EditorState {
+  const mention = `@${username} `;
+  const caret = mentionStart + mention.length;
+  return {
+    value: state.value.slice(0, mentionStart) + mention + state.value.slice(state.end),
+    start: caret,
+    end: caret,
+  };
+}
+
+// Keyboard shortcuts, matched against Ctrl (or Cmd on macOS) plus the key
+export const FORMAT_SHORTCUTS: Record<string, MarkdownFormat> = {
+  b: 'bold',
+  i: 'italic',
+  k: 'link',
+  'shift+8': 'bulletList',
+  'shift+7': 'orderedList',
+  'shift+c': 'codeBlock',
+  'shift+.': 'quote',
+};
+
+export function shortcutFor(event: Pick<KeyboardEvent, 'ctrlKey' | 'metaKey' | 'shiftKey' | 'altKey' | 'key' | 'code'>): MarkdownFormat | undefined {
+  if (!(event.ctrlKey || event.metaKey) || event.altKey) return undefined;
+
+  // Use the physical key when Shift changes the produced character (e.g. 8 → *)
+  const key = event.shiftKey
+    ? event.code.replace(/^(Key|Digit)/, '').replace('Period', '.').toLowerCase()
+    : event.key.toLowerCase();
+
+  return FORMAT_SHORTCUTS[event.shiftKey ? `shift+${key}` : key];
+}
+
+const SEMANTIC_HTML = /<(a|b|strong|em|i|ul|ol|li|h[1-6]|pre|code|blockquote|table|img)[\s>]/i;
+
+const turndown = new TurndownService({
+  headingStyle: 'atx',
+  codeBlockStyle: 'fenced',
+  bulletListMarker: '-',
+  emDelimiter: '_',
+});
+
+turndown.remove(['script', 'style', 'iframe', 'object', 'embed']);
+
+// Returns null when the clipboard HTML has no real structure (e.g. code copied
+// from an IDE as styled spans), so the caller can fall back to plain text.
+export function htmlToMarkdown(html: string): string | null {
+  if (!SEMANTIC_HTML.test(html)) return null;
+  return turndown.turndown(html).trim();
+}
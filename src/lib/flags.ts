@@ -0,0 +1,23 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type FlagReason = Database['public']['Enums']['flag_reason'];
+export type FlagStatus = Database['public']['Enums']['flag_status'];
+
+// Mirrors _flags_needed in hide_spam_flagged_post()
+export const SPAM_FLAGS_TO_HIDE = 3;
+
+export const MAX_FLAG_DETAILS_LENGTH = 500;
+
+export const FLAG_REASON_LABELS: Record<FlagReason, string> = {
+  spam: 'Spam',
+  rude: 'Rude or abusive',
+  low_quality: 'Very low quality',
+  needs_moderator: 'Needs moderator attention',
+};
+
+export const FLAG_REASON_DESCRIPTIONS: Record<FlagReason, string> = {
+  spam: 'Promotes a product or service without disclosing affiliation, or exists only to advertise.',
+  rude: 'A reasonable person would find this content inappropriate for respectful discourse.',
+  low_quality: 'Has severe content or formatting problems and is unlikely to be salvageable through editing.',
+  needs_moderator: 'Something not listed above that a moderator should look at. Please explain below.',
+};
@@ -0,0 +1,84 @@
+import hljs from 'highlight.js/lib/core';
+import bash from 'highlight.js/lib/languages/bash';
+import c from 'highlight.js/lib/languages/c';
+import cpp from 'highlight.js/lib/languages/cpp';
+import csharp from 'highlight.js/lib/languages/csharp';
+import css from 'highlight.js/lib/languages/css';
+import dockerfile from 'highlight.js/lib/languages/dockerfile';
+import go from 'highlight.js/lib/languages/go';
+import java from 'highlight.js/lib/languages/java';
+import javascript from 'highlight.js/lib/languages/javascript';
+import json from 'highlight.js/lib/languages/json';
+import kotlin from 'highlight.js/lib/languages/kotlin';
+import markdown from 'highlight.js/lib/languages/markdown';
+import php from 'highlight.js/lib/languages/php';
+import plaintext from 'highlight.js/lib/languages/plaintext';
+import python from 'highlight.js/lib/languages/python';
+import ruby from 'highlight.js/lib/languages/ruby';
+import rust from 'highlight.js/lib/languages/rust';
+import scss from 'highlight.js/lib/languages/scss';
+import shell from 'highlight.js/lib/languages/shell';
+import sql from 'highlight.js/lib/languages/sql';
+import swift from 'highlight.js/lib/languages/swift';
+import typescript from 'highlight.js/lib/languages/typescript';
+import xml from 'highlight.js/lib/languages/xml';
+import yaml from 'highlight.js/lib/languages/yaml';
+
+const LANGUAGES = {
+  bash, c, cpp, csharp, css, dockerfile, go, java, javascript, json, kotlin, markdown,
+  php, plaintext, python, ruby, rust, scss, shell, sql, swift, typescript, xml, yaml,
+};
+
+Object.entries(LANGUAGES).forEach(([name, language]) => hljs.registerLanguage(name, language));
+
+// Question tags that imply a language but aren't highlight.js names or aliases
+const TAG_LANGUAGES: Record<string, string> = {
+  'react': 'javascript',
+  'reactjs': 'javascript',
+  'react.js': 'javascript',
+  'node': 'javascript',
+  'nodejs': 'javascript',
+  'node.js': 'javascript',
+  'express': 'javascript',
+  'vue': 'javascript',
+  'angular': 'typescript',
+  'nextjs': 'typescript',
+  'django': 'python',
+  'flask': 'python',
+  'pandas': 'python',
+  'rails': 'ruby',
+  'spring': 'java',
+  'android': 'kotlin',
+  'ios': 'swift',
+  'html': 'xml',
+  'tailwindcss': 'css',
+  'postgresql': 'sql',
+  'mysql': 'sql',
+  'docker': 'dockerfile',
+  'linux': 'bash',
+};
+
+export interface HighlightedCode {
+  html: string;
+  language?: string;
+}
+
+function resolveLanguage(name?: string): string | undefined {
+  if (!name) return undefined;
+  const key = name.toLowerCase();
+  const mapped = TAG_LANGUAGES[key] ?? key;
+  return hljs.getLanguage(mapped) ? mapped : undefined;
+}
+
+// Picks the fence language first, then the first tag that maps to a known
+// language, and finally lets highlight.js guess from the code itself.
+export function highlightCode(code: string, fenceLanguage?: string, tags: string[] = []): HighlightedCode {
+  const language = resolveLanguage(fenceLanguage) ?? tags.map(resolveLanguage).find(Boolean);
+
+  if (language) {
+    return { html: hljs.highlight(code, { language, ignoreIllegals: true }).value, language };
+  }
+
+  const result = hljs.highlightAuto(code, Object.keys(LANGUAGES));
+  return { html: result.value, language: result.relevance > 5 ? result.language : undefined };
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { markdownToPlainText, renderMarkdown, sanitizeHtml } from '@/lib/markdown';
+
+describe('sanitizeHtml', () => {
+  it('removes script tags and their contents', () => {
+    const html = sanitizeHtml('<p>hi</p><script>alert(1)</script>');
+    expect(html).toBe('<p>hi</p>');
+  });
+
+  it('removes iframes', () => {
+    const html = sanitizeHtml('<p>a</p><iframe src="https://evil.example"></iframe>');
+    expect(html).not.toContain('iframe');
+    expect(html).toBe('<p>a</p>');
+  });
+
+  it('drops javascript: URLs from links and images', () => {
+    const html = sanitizeHtml('<a href="javascript:alert(1)">x</a><img src="javascript:alert(1)">');
+    expect(html).not.toMatch(/javascript:/i);
+  });
+
+  it('drops obfuscated javascript: URLs', () => {
+    const html = sanitizeHtml('<a href=" JaVaScRiPt:alert(1)">x</a><a href="java&#x09;script:alert(1)">y</a>');
+    expect(html).not.toMatch(/script:/i);
+  });
+
+  it('removes event handler attributes', () => {
+    const html = sanitizeHtml('<img src="https://example.com/a.png" onerror="alert(1)">');
+    expect(html).not.toContain('onerror');
+  });
+
+  it('removes class and style attributes', () => {
+    const html = sanitizeHtml('<p class="fixed inset-0 z-50" style="position:fixed">overlay</p>');
+    expect(html).toBe('<p>overlay</p>');
+  });
+
+  it('keeps web and mail links and opens them safely', () => {
+    const doc = new DOMParser().parseFromString(
+      sanitizeHtml('<a href="https://example.com">web</a><a href="mailto:a@example.com">mail</a>'),
+      'text/html'
+    );
+    const links = doc.querySelectorAll('a');
+
+    expect(links[0].getAttribute('href')).toBe('https://example.com');
+    expect(links[1].getAttribute('href')).toBe('mailto:a@example.com');
+    links.forEach(link => {
+      expect(link.getAttribute('target')).toBe('_blank');
+      expect(link.getAttribute('rel')).toBe('noopener noreferrer nofollow');
+    });
+  });
+
+  it('keeps relative and anchor links', () => {
+    expect(sanitizeHtml('<a href="/questions/1">q</a>')).toContain('href="/questions/1"');
+    expect(sanitizeHtml('<a href="#answer-1">a</a>')).toContain('href="#answer-1"');
+  });
+});
+
+describe('renderMarkdown', () => {
+  it('renders basic formatting', () => {
+    expect(renderMarkdown('**bold** and _em_')).toBe('<p><strong>bold</strong> and <em>em</em></p>\n');
+  });
+
+  it('neutralizes raw script and iframe HTML', () => {
+    const html = renderMarkdown('before\n\n<script>alert(1)</script>\n\n<iframe src="https://evil.example"></iframe>\n\nafter');
+    expect(html).not.toContain('<script');
+    expect(html).not.toContain('<iframe');
+    expect(html).toContain('before');
+    expect(html).toContain('after');
+  });
+
+  it('neutralizes javascript: links written in Markdown', () => {
+    const html = renderMarkdown('[click](javascript:alert(1)) ![img](javascript:alert(1))');
+    expect(html).not.toMatch(/javascript:/i);
+    expect(html).toContain('click');
+  });
+
+  it('keeps code that mentions script tags as text', () => {
+    const html = renderMarkdown('`<script>alert(1)</script>`');
+    expect(html).toContain('&lt;script&gt;');
+    expect(html).not.toContain('<script>');
+  });
+
+  it('treats a missing body as empty', () => {
+    expect(renderMarkdown(undefined as unknown as string)).toBe('');
+  });
+});
+
+describe('markdownToPlainText', () => {
+  it('strips formatting and collapses whitespace', () => {
+    expect(markdownToPlainText('# Title\n\nSome **bold**\ntext.\n\n- one\n- two')).toBe('Title Some bold text. one two');
+  });
+
+  it('never includes script contents', () => {
+    expect(markdownToPlainText('hello <script>alert("x")</script> world')).toBe('hello world');
+  });
+
+  it('keeps link text without the URL', () => {
+    expect(markdownToPlainText('see [the docs](https://example.com)')).toBe('see the docs');
+  });
+});
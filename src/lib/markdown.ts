@@ -0,0 +1,95 @@
+import { marked, Token } from 'marked';
+import DOMPurify from 'dompurify';
+
+const ALLOWED_TAGS = [
+  'a', 'b', 'blockquote', 'br', 'code', 'del', 'em', 'h1', 'h2', 'h3', 'h4',
+  'h5', 'h6', 'hr', 'i', 'img', 'kbd', 'li', 'ol', 'p', 'pre', 's', 'strong',
+  'sub', 'sup', 'table', 'tbody', 'td', 'th', 'thead', 'tr', 'ul',
+];
+
+// No `class`: user HTML must not be able to pick up app styles (e.g. a full-page overlay)
+const ALLOWED_ATTR = ['href', 'title', 'alt', 'src', 'align', 'start'];
+
+// Only plain web links, mail links and relative/anchor URLs survive sanitizing.
+const ALLOWED_URI_REGEXP = /^(?:(?:https?|mailto):|[^a-z]|[a-z+.-]+(?:[^a-z+.\-:]|$))/i;
+
+const BLOCK_TAGS = new Set([
+  'BLOCKQUOTE', 'BR', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'HR', 'LI', 'P', 'PRE', 'TD', 'TH', 'TR',
+]);
+
+const purifier = DOMPurify();
+
+// Links open in a new tab and never leak the opener or referrer.
+purifier.addHook('afterSanitizeAttributes', (node) => {
+  if (node.tagName === 'A' && node.hasAttribute('href')) {
+    node.setAttribute('target', '_blank');
+    node.setAttribute('rel', 'noopener noreferrer nofollow');
+  }
+});
+
+export function sanitizeHtml(html: string): string {
+  return purifier.sanitize(html, {
+    ALLOWED_TAGS,
+    ALLOWED_ATTR: [...ALLOWED_ATTR, 'target', 'rel'],
+    ALLOWED_URI_REGEXP,
+    ALLOW_DATA_ATTR: false,
+  }) as string;
+}
+
+const MARKED_OPTIONS = { async: false, gfm: true, breaks: true } as const;
+
+export function renderMarkdown(source: string): string {
+  const html = marked.parse(source ?? '', MARKED_OPTIONS) as string;
+  return sanitizeHtml(html);
+}
+
+export type MarkdownBlock =
+  | { type: 'html'; html: string }
+  | { type: 'code'; code: string; language?: string };
+
+// Splits a document into sanitized HTML runs and top-level fenced code blocks,
+// so code can be rendered by an interactive component instead of raw HTML.
+export function parseMarkdownBlocks(source: string): MarkdownBlock[] {
+  const tokens = marked.lexer(source ?? '', MARKED_OPTIONS);
+  const blocks: MarkdownBlock[] = [];
+  let pending: Token[] = [];
+
+  const flush = () => {
+    if (pending.length === 0) return;
+    const run = Object.assign(pending, { links: tokens.links });
+    blocks.push({ type: 'html', html: sanitizeHtml(marked.parser(run, MARKED_OPTIONS)) });
+    pending = [];
+  };
+
+  tokens.forEach(token => {
+    if (token.type === 'code') {
+      flush();
+      blocks.push({ type: 'code', code: token.text, language: token.lang?.split(/\s+/)[0] || undefined });
+    } else {
+      pending.push(token);
+    }
+  });
+  flush();
+
+  return blocks;
+}
+
+export function markdownToPlainText(source: string): string {
+  const html = renderMarkdown(source);
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+
+  const parts: string[] = [];
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      parts.push(node.textContent ?? '');
+      return;
+    }
+    node.childNodes.forEach(walk);
+    if (BLOCK_TAGS.has((node as Element).tagName)) {
+      parts.push(' ');
+    }
+  };
+  walk(doc.body);
+
+  return parts.join('').replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,18 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type RateLimitedAction = Database['public']['Enums']['rate_limited_action'];
+export type RateLimit = Database['public']['Tables']['rate_limits']['Row'];
+
+export const RATE_LIMITED_ACTION_LABELS: Record<RateLimitedAction, string> = {
+  question: 'Questions',
+  answer: 'Answers',
+  vote: 'Votes',
+};
+
+// SQLSTATE raised by enforce_rate_limit(); PostgREST answers it with HTTP 429
+export const RATE_LIMIT_ERROR_CODE = 'PT429';
+
+export function isRateLimitError(error: unknown): error is { code: string; message: string } {
+  return typeof error === 'object' && error !== null
+    && (error as { code?: unknown }).code === RATE_LIMIT_ERROR_CODE;
+}
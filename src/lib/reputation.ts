@@ -0,0 +1,18 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type ReputationEventType = Database['public']['Enums']['reputation_event_type'];
+
+export const REPUTATION_EVENT_LABELS: Record<ReputationEventType, string> = {
+  question_upvoted: 'Question upvoted',
+  answer_upvoted: 'Answer upvoted',
+  downvote_received: 'Post downvoted',
+  downvote_given: 'Downvoted a post',
+  answer_accepted: 'Answer accepted',
+};
+
+// Compact reputation display: 999, 1.2k, 15k
+export function formatReputation(reputation: number): string {
+  if (reputation < 1000) return String(reputation);
+  if (reputation < 10000) return `${(reputation / 1000).toFixed(1).replace(/\.0$/, '')}k`;
+  return `${Math.round(reputation / 1000)}k`;
+}
@@ -0,0 +1,35 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type UserRole = Database['public']['Enums']['user_role'];
+export type AdminActionType = Database['public']['Enums']['admin_action_type'];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  user: 'User',
+  moderator: 'Moderator',
+  admin: 'Admin',
+};
+
+// Mirrors is_moderator(): moderators and admins share the content moderation rights
+export function isModerator(profile: { role: UserRole } | null | undefined): boolean {
+  return profile?.role === 'moderator' || profile?.role === 'admin';
+}
+
+export const SUSPENSION_DURATIONS: { days: number; label: string }[] = [
+  { days: 1, label: '1 day' },
+  { days: 3, label: '3 days' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 365, label: '1 year' },
+];
+
+export const MAX_SUSPENSION_REASON_LENGTH = 500;
+
+export const ADMIN_ACTION_LABELS: Record<AdminActionType, string> = {
+  role_changed: 'Changed role',
+  user_suspended: 'Suspended',
+  suspension_lifted: 'Lifted suspension',
+  flags_reviewed: 'Reviewed flags',
+  post_deleted: 'Deleted post',
+  post_undeleted: 'Undeleted post',
+  post_approved: 'Approved held post',
+};
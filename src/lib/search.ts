@@ -0,0 +1,98 @@
+// Parses the question search box. Supported operators:
+//   [tag]            questions tagged `tag` (repeatable)
+//   user:name        questions asked by @name
+//   is:answered      questions with at least one answer (also is:unanswered, is:accepted)
+//   score:>5         score filters: >, >=, <, <=, = or a bare number (at least)
+// Everything else, including "quoted phrases", is full-text search.
+
+export interface ParsedSearch {
+  text: string;
+  tags: string[];
+  username?: string;
+  answered?: boolean;
+  accepted?: boolean;
+  minScore?: number;
+  maxScore?: number;
+}
+
+const TOKEN_PATTERN = /"[^"]*"?|\S+/g;
+const TAG_PATTERN = /^\[([^\]]+)\]$/;
+const USER_PATTERN = /^user:@?(\S+)$/i;
+const IS_PATTERN = /^is:(answered|unanswered|accepted)$/i;
+const SCORE_PATTERN = /^score:(>=|<=|>|<|=)?(-?\d+)$/i;
+
+export function parseSearchQuery(input: string): ParsedSearch {
+  const parsed: ParsedSearch = { text: '', tags: [] };
+  const words: string[] = [];
+
+  for (const token of input.match(TOKEN_PATTERN) ?? []) {
+    const tag = token.match(TAG_PATTERN);
+    const user = token.match(USER_PATTERN);
+    const is = token.match(IS_PATTERN);
+    const score = token.match(SCORE_PATTERN);
+
+    if (tag) {
+      parsed.tags.push(tag[1].toLowerCase());
+    } else if (user) {
+      parsed.username = user[1];
+    } else if (is) {
+      const flag = is[1].toLowerCase();
+      if (flag === 'accepted') {
+        parsed.accepted = true;
+      } else {
+        parsed.answered = flag === 'answered';
+      }
+    } else if (score) {
+      const value = parseInt(score[2], 10);
+      switch (score[1]) {
+        case '>':
+          parsed.minScore = value + 1;
+          break;
+        case '<':
+          parsed.maxScore = value - 1;
+          break;
+        case '<=':
+          parsed.maxScore = value;
+          break;
+        case '=':
+          parsed.minScore = value;
+          parsed.maxScore = value;
+          break;
+        default:
+          parsed.minScore = value;
+      }
+    } else {
+      words.push(token);
+    }
+  }
+
+  parsed.text = words.join(' ');
+  return parsed;
+}
+
+// Markers the search RPC wraps around matched terms
+export const HIGHLIGHT_START = '⟦';
+export const HIGHLIGHT_END = '⟧';
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+// Split highlighted search output into plain and matched runs
+export function highlightSegments(value: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+
+  for (const part of value.split(HIGHLIGHT_START)) {
+    const end = part.indexOf(HIGHLIGHT_END);
+    if (end === -1) {
+      if (part) segments.push({ text: part, highlighted: false });
+      continue;
+    }
+    if (end > 0) segments.push({ text: part.slice(0, end), highlighted: true });
+    const rest = part.slice(end + HIGHLIGHT_END.length);
+    if (rest) segments.push({ text: rest, highlighted: false });
+  }
+
+  return segments;
+}
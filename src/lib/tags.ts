@@ -0,0 +1,20 @@
+// Tag naming rules, mirrored by is_valid_tag_name() in the database
+export const MAX_TAGS = 5;
+export const MAX_TAG_LENGTH = 35;
+
+const TAG_NAME_PATTERN = /^[a-z0-9][a-z0-9+#.-]*$/;
+
+// What the user typed -> the form tags are stored in ("Vue Router" -> "vue-router")
+export function normalizeTagInput(input: string): string {
+  return input.trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+// Returns why a (normalized) tag name is not allowed, or null when it is fine
+export function validateTagName(name: string): string | null {
+  if (!name) return 'Tags cannot be empty';
+  if (name.length > MAX_TAG_LENGTH) return `Tags can be at most ${MAX_TAG_LENGTH} characters`;
+  if (!TAG_NAME_PATTERN.test(name)) {
+    return 'Tags may only contain letters, numbers and + # . - and must start with a letter or number';
+  }
+  return null;
+}
@@ -0,0 +1,97 @@
+import { useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/lib/auth';
+import { useProfile } from '@/hooks/useProfile';
+import { Header } from '@/components/layout/Header';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { UserManagement } from '@/components/admin/UserManagement';
+import { AdminActionLog } from '@/components/admin/AdminActionLog';
+import { RateLimitSettings } from '@/components/admin/RateLimitSettings';
+import { BlockedTermsManager } from '@/components/admin/BlockedTermsManager';
+import { isModerator } from '@/lib/roles';
+import { Shield, ScrollText } from 'lucide-react';
+
+export default function Admin() {
+  const { user, loading: authLoading } = useAuth();
+  const { profile, loading: profileLoading } = useProfile();
+  const navigate = useNavigate();
+
+  const canModerate = isModerator(profile);
+  const isAdmin = profile?.role === 'admin';
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/auth');
+    }
+  }, [user, authLoading, navigate]);
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+              Admin
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              Manage roles and suspensions, and review what moderators and admins have done
+            </p>
+          </div>
+          {isAdmin && (
+            <Button
+              variant="outline"
+              onClick={() => navigate('/admin/audit')}
+              className="flex items-center space-x-2"
+            >
+              <ScrollText className="w-4 h-4" />
+              <span>Audit log</span>
+            </Button>
+          )}
+        </div>
+
+        {profileLoading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+          </div>
+        ) : !canModerate ? (
+          <div className="text-center py-12">
+            <Shield className="w-10 h-10 text-muted-foreground mx-auto mb-3" />
+            <p className="text-muted-foreground">Only moderators and admins can access this page.</p>
+          </div>
+        ) : (
+          <Tabs defaultValue="users">
+            <TabsList className="mb-6">
+              <TabsTrigger value="users">Users</TabsTrigger>
+              <TabsTrigger value="log">Action log</TabsTrigger>
+              {isAdmin && <TabsTrigger value="limits">Rate limits</TabsTrigger>}
+              {isAdmin && <TabsTrigger value="filter">Content filter</TabsTrigger>}
+            </TabsList>
+            <TabsContent value="users">
+              <UserManagement />
+            </TabsContent>
+            <TabsContent value="log">
+              <AdminActionLog />
+            </TabsContent>
+            {isAdmin && (
+              <TabsContent value="limits">
+                <RateLimitSettings />
+              </TabsContent>
+            )}
+            {isAdmin && (
+              <TabsContent value="filter">
+                <BlockedTermsManager />
+              </TabsContent>
+            )}
+          </Tabs>
+        )}
+      </main>
+    </div>
+  );
+}
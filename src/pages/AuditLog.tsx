@@ -0,0 +1,480 @@
+import { useState, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { useAuth } from '@/lib/auth';
+import { useProfile } from '@/hooks/useProfile';
+import { Header } from '@/components/layout/Header';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  AUDITED_TABLES,
+  AUDITED_TABLE_LABELS,
+  AUDIT_OPERATION_LABELS,
+  AuditedTable,
+  AuditOperation,
+  changedFields,
+  getAuditRecordLink,
+} from '@/lib/audit';
+import { downloadCsv, toCsv } from '@/lib/csv';
+import { ScrollText, Download, ChevronDown, ChevronUp } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface AuditEntry {
+  id: string;
+  table_name: string;
+  record_id: string;
+  operation: AuditOperation;
+  actor_id: string | null;
+  old_data: Json;
+  new_data: Json | null;
+  created_at: string;
+}
+
+interface AuditFilters {
+  table: AuditedTable | 'all';
+  operation: AuditOperation | 'all';
+  actor: string;
+  from: string;
+  to: string;
+}
+
+const ENTRIES_PER_PAGE = 50;
+// PostgREST caps a single response at 1000 rows, so exports are fetched in batches
+const EXPORT_BATCH_SIZE = 1000;
+const EXPORT_LIMIT = 10000;
+
+const EMPTY_FILTERS: AuditFilters = { table: 'all', operation: 'all', actor: '', from: '', to: '' };
+
+export default function AuditLog() {
+  const { user, loading: authLoading } = useAuth();
+  const { profile, loading: profileLoading } = useProfile();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const [draft, setDraft] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [actorNames, setActorNames] = useState<Record<string, string>>({});
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+
+  const isAdmin = profile?.role === 'admin';
+  const totalPages = Math.max(1, Math.ceil(total / ENTRIES_PER_PAGE));
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/auth');
+    }
+  }, [user, authLoading, navigate]);
+
+  useEffect(() => {
+    if (isAdmin) {
+      fetchEntries();
+    }
+  }, [isAdmin, filters, page]);
+
+  // Resolves the actor filter to a user id; undefined when no such user exists
+  const resolveActorId = async (username: string): Promise<string | null | undefined> => {
+    const name = username.trim().replace(/^@/, '');
+    if (!name) return null;
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('user_id')
+      .eq('username', name)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.user_id;
+  };
+
+  const buildQuery = (actorId: string | null, count = false) => {
+    let query = supabase
+      .from('audit_log')
+      .select('*', count ? { count: 'exact' } : undefined)
+      .order('created_at', { ascending: false });
+
+    if (filters.table !== 'all') {
+      query = query.eq('table_name', filters.table);
+    }
+    if (filters.operation !== 'all') {
+      query = query.eq('operation', filters.operation);
+    }
+    if (actorId) {
+      query = query.eq('actor_id', actorId);
+    }
+    if (filters.from) {
+      query = query.gte('created_at', new Date(`${filters.from}T00:00:00`).toISOString());
+    }
+    if (filters.to) {
+      query = query.lte('created_at', new Date(`${filters.to}T23:59:59.999`).toISOString());
+    }
+
+    return query;
+  };
+
+  const fetchActorNames = async (rows: AuditEntry[]): Promise<Record<string, string>> => {
+    const ids = [...new Set(rows.map(r => r.actor_id).filter(Boolean))] as string[];
+    if (ids.length === 0) return {};
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('user_id, username')
+      .in('user_id', ids);
+
+    if (error) throw error;
+    return Object.fromEntries((data || []).map(p => [p.user_id, p.username]));
+  };
+
+  const fetchEntries = async () => {
+    setLoading(true);
+    try {
+      const actorId = await resolveActorId(filters.actor);
+      if (actorId === undefined) {
+        setEntries([]);
+        setTotal(0);
+        return;
+      }
+
+      const from = (page - 1) * ENTRIES_PER_PAGE;
+      const { data, count, error } = await buildQuery(actorId, true).range(from, from + ENTRIES_PER_PAGE - 1);
+
+      if (error) throw error;
+      setEntries(data || []);
+      setTotal(count ?? 0);
+      setActorNames(await fetchActorNames(data || []));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to fetch the audit log",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setFilters(draft);
+  };
+
+  const handleReset = () => {
+    setDraft(EMPTY_FILTERS);
+    setPage(1);
+    setFilters(EMPTY_FILTERS);
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const actorId = await resolveActorId(filters.actor);
+      const rows: AuditEntry[] = [];
+
+      if (actorId !== undefined) {
+        while (rows.length < EXPORT_LIMIT) {
+          const { data, error } = await buildQuery(actorId).range(rows.length, rows.length + EXPORT_BATCH_SIZE - 1);
+          if (error) throw error;
+
+          rows.push(...(data || []));
+          if (!data || data.length < EXPORT_BATCH_SIZE) break;
+        }
+      }
+
+      const names = await fetchActorNames(rows);
+      const csv = toCsv(
+        ['created_at', 'actor_id', 'actor', 'table', 'operation', 'record_id', 'changed_fields', 'old_data', 'new_data'],
+        rows.map(row => [
+          row.created_at,
+          row.actor_id,
+          row.actor_id ? names[row.actor_id] : null,
+          row.table_name,
+          row.operation,
+          row.record_id,
+          changedFields(row.old_data, row.new_data).join(' '),
+          JSON.stringify(row.old_data),
+          row.new_data === null ? null : JSON.stringify(row.new_data),
+        ])
+      );
+
+      downloadCsv(`audit-log-${format(new Date(), 'yyyy-MM-dd-HHmm')}.csv`, csv);
+
+      if (rows.length >= EXPORT_LIMIT) {
+        toast({
+          title: "Export truncated",
+          description: `Only the latest ${EXPORT_LIMIT.toLocaleString()} entries were exported. Narrow the filters to export the rest.`,
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to export the audit log",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const toggleExpanded = (id: string) => {
+    setExpandedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8 max-w-5xl">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+              Audit log
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              Every edit and deletion of questions, answers and votes, and every role change
+            </p>
+          </div>
+          {isAdmin && (
+            <Button
+              variant="outline"
+              onClick={handleExport}
+              disabled={exporting || total === 0}
+              className="flex items-center space-x-2"
+            >
+              <Download className="w-4 h-4" />
+              <span>{exporting ? "Exporting..." : "Export CSV"}</span>
+            </Button>
+          )}
+        </div>
+
+        {profileLoading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+          </div>
+        ) : !isAdmin ? (
+          <div className="text-center py-12">
+            <ScrollText className="w-10 h-10 text-muted-foreground mx-auto mb-3" />
+            <p className="text-muted-foreground">Only admins can view the audit log.</p>
+          </div>
+        ) : (
+          <>
+            <form
+              onSubmit={handleApply}
+              className="bg-gradient-card rounded-xl shadow-lg p-4 mb-6 grid gap-4 sm:grid-cols-2 lg:grid-cols-5 items-end"
+            >
+              <div className="space-y-2">
+                <Label htmlFor="audit-table">Table</Label>
+                <Select
+                  value={draft.table}
+                  onValueChange={(table) => setDraft({ ...draft, table: table as AuditFilters['table'] })}
+                >
+                  <SelectTrigger id="audit-table">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All tables</SelectItem>
+                    {AUDITED_TABLES.map((table) => (
+                      <SelectItem key={table} value={table}>{AUDITED_TABLE_LABELS[table]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="audit-operation">Operation</Label>
+                <Select
+                  value={draft.operation}
+                  onValueChange={(operation) => setDraft({ ...draft, operation: operation as AuditFilters['operation'] })}
+                >
+                  <SelectTrigger id="audit-operation">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All operations</SelectItem>
+                    {(Object.keys(AUDIT_OPERATION_LABELS) as AuditOperation[]).map((operation) => (
+                      <SelectItem key={operation} value={operation}>{AUDIT_OPERATION_LABELS[operation]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="audit-actor">Actor</Label>
+                <Input
+                  id="audit-actor"
+                  placeholder="username"
+                  value={draft.actor}
+                  onChange={(e) => setDraft({ ...draft, actor: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="audit-from">From</Label>
+                <Input
+                  id="audit-from"
+                  type="date"
+                  value={draft.from}
+                  onChange={(e) => setDraft({ ...draft, from: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="audit-to">To</Label>
+                <Input
+                  id="audit-to"
+                  type="date"
+                  value={draft.to}
+                  onChange={(e) => setDraft({ ...draft, to: e.target.value })}
+                />
+              </div>
+              <div className="flex gap-2 sm:col-span-2 lg:col-span-5 justify-end">
+                <Button type="button" variant="outline" onClick={handleReset}>
+                  Reset
+                </Button>
+                <Button type="submit" variant="hero">
+                  Apply filters
+                </Button>
+              </div>
+            </form>
+
+            {loading ? (
+              <div className="text-center py-12">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+                <p className="text-muted-foreground mt-2">Loading audit log...</p>
+              </div>
+            ) : entries.length === 0 ? (
+              <div className="text-center py-12">
+                <ScrollText className="w-10 h-10 text-muted-foreground mx-auto mb-3" />
+                <h3 className="text-lg font-semibold mb-2">No entries</h3>
+                <p className="text-muted-foreground">Nothing in the audit log matches these filters.</p>
+              </div>
+            ) : (
+              <>
+                <div className="bg-gradient-card rounded-xl shadow-lg divide-y">
+                  {entries.map((entry) => {
+                    const expanded = expandedIds.has(entry.id);
+                    const changed = changedFields(entry.old_data, entry.new_data);
+                    const link = getAuditRecordLink(entry.table_name, entry.new_data ?? entry.old_data);
+                    const actorName = entry.actor_id ? actorNames[entry.actor_id] : null;
+
+                    return (
+                      <div key={entry.id} className="p-4 text-sm">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <Badge variant={entry.operation === 'delete' ? 'destructive' : 'secondary'}>
+                            {AUDIT_OPERATION_LABELS[entry.operation]}
+                          </Badge>
+                          <span className="font-medium">
+                            {AUDITED_TABLE_LABELS[entry.table_name as AuditedTable] ?? entry.table_name}
+                          </span>
+                          {link && entry.operation === 'update' ? (
+                            <Link to={link} className="font-mono text-xs text-primary hover:underline">
+                              {entry.record_id}
+                            </Link>
+                          ) : (
+                            <span className="font-mono text-xs text-muted-foreground">{entry.record_id}</span>
+                          )}
+                          <span className="ml-auto text-xs text-muted-foreground">
+                            {format(new Date(entry.created_at), 'MMM d, yyyy HH:mm:ss')}
+                          </span>
+                        </div>
+                        <div className="flex flex-wrap items-center gap-2 mt-2 text-muted-foreground">
+                          <span>
+                            by{' '}
+                            {entry.actor_id
+                              ? `@${actorName ?? entry.actor_id}`
+                              : 'the system'}
+                          </span>
+                          {changed.length > 0 && (
+                            <>
+                              <span>·</span>
+                              {changed.map((field) => (
+                                <Badge key={field} variant="outline" className="font-mono text-xs">
+                                  {field}
+                                </Badge>
+                              ))}
+                            </>
+                          )}
+                          <Button
+                            variant="link"
+                            size="sm"
+                            className="px-0 h-auto ml-auto text-muted-foreground"
+                            onClick={() => toggleExpanded(entry.id)}
+                          >
+                            {expanded ? 'Hide snapshots' : 'Show snapshots'}
+                            {expanded ? <ChevronUp className="w-4 h-4 ml-1" /> : <ChevronDown className="w-4 h-4 ml-1" />}
+                          </Button>
+                        </div>
+                        {expanded && (
+                          <div className={`grid gap-3 mt-3 ${entry.new_data ? 'md:grid-cols-2' : ''}`}>
+                            <div>
+                              <p className="text-xs font-medium text-muted-foreground mb-1">Before</p>
+                              <pre className="text-xs bg-muted rounded-md p-3 overflow-x-auto">
+                                {JSON.stringify(entry.old_data, null, 2)}
+                              </pre>
+                            </div>
+                            {entry.new_data && (
+                              <div>
+                                <p className="text-xs font-medium text-muted-foreground mb-1">After</p>
+                                <pre className="text-xs bg-muted rounded-md p-3 overflow-x-auto">
+                                  {JSON.stringify(entry.new_data, null, 2)}
+                                </pre>
+                              </div>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+
+                <div className="flex items-center justify-between mt-6">
+                  <p className="text-sm text-muted-foreground">
+                    {total.toLocaleString()} {total === 1 ? 'entry' : 'entries'}
+                  </p>
+                  <div className="flex items-center space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPage(page - 1)}
+                      disabled={page <= 1}
+                    >
+                      Previous
+                    </Button>
+                    <span className="text-sm text-muted-foreground">
+                      Page {page} of {totalPages}
+                    </span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPage(page + 1)}
+                      disabled={page >= totalPages}
+                    >
+                      Next
+                    </Button>
+                  </div>
+                </div>
+              </>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth';
+import { useProfile } from '@/hooks/useProfile';
+import { usePrivileges } from '@/hooks/usePrivileges';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Header } from '@/components/layout/Header';
+import { QuestionForm, QuestionFormData } from '@/components/questions/QuestionForm';
+import { useToast } from '@/hooks/use-toast';
+
+export default function EditQuestion() {
+  const { id } = useParams<{ id: string }>();
+  const { user, loading: authLoading } = useAuth();
+  const { profile, loading: profileLoading } = useProfile();
+  const { can, requirement, loading: privilegesLoading } = usePrivileges(profile);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [initialData, setInitialData] = useState<QuestionFormData | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (authLoading || profileLoading || privilegesLoading) return;
+    if (!user) {
+      navigate('/auth');
+      return;
+    }
+    if (id) {
+      fetchQuestion();
+    }
+  }, [id, user, authLoading, profileLoading, privilegesLoading]);
+
+  const fetchQuestion = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('questions')
+        .select('title, description, tags, user_id')
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+
+      if (data.user_id !== user?.id && !can('edit_others')) {
+        toast({
+          title: "Not allowed",
+          description: requirement('edit_others'),
+          variant: "destructive",
+        });
+        navigate(`/questions/${id}`);
+        return;
+      }
+
+      setInitialData({
+        title: data.title,
+        description: data.description,
+        tags: data.tags || [],
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to fetch question",
+        variant: "destructive",
+      });
+      navigate('/');
+    }
+  };
+
+  const handleSubmit = async (formData: QuestionFormData) => {
+    setLoading(true);
+    try {
+      const { error } = await supabase
+        .from('questions')
+        .update({
+          title: formData.title,
+          description: formData.description,
+          tags: formData.tags,
+        })
+        .eq('id', id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Question updated",
+        description: "Your changes have been saved.",
+      });
+
+      navigate(`/questions/${id}`);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update question. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8 max-w-3xl">
+        <Card className="shadow-xl bg-gradient-card">
+          <CardHeader>
+            <CardTitle className="text-2xl bg-gradient-primary bg-clip-text text-transparent">
+              Edit Question
+            </CardTitle>
+            <p className="text-muted-foreground">
+              Every edit is kept in the question's revision history
+            </p>
+          </CardHeader>
+
+          <CardContent>
+            {initialData ? (
+              <QuestionForm
+                initialData={initialData}
+                loading={loading}
+                submitLabel="Save Edits"
+                loadingLabel="Saving..."
+                onSubmit={handleSubmit}
+                onCancel={() => navigate(`/questions/${id}`)}
+              />
+            ) : (
+              <div className="text-center py-12">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+                <p className="text-muted-foreground mt-2">Loading question...</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
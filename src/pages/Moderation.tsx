@@ -0,0 +1,322 @@
+import { useState, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth';
+import { useProfile } from '@/hooks/useProfile';
+import { Header } from '@/components/layout/Header';
+import { HeldPostQueue } from '@/components/moderation/HeldPostQueue';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { FLAG_REASON_LABELS, FlagReason } from '@/lib/flags';
+import { markdownToPlainText } from '@/lib/markdown';
+import { isModerator } from '@/lib/roles';
+import { Flag, ShieldCheck, Check, X, EyeOff } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+interface PendingFlag {
+  id: string;
+  reason: FlagReason;
+  details: string | null;
+  created_at: string;
+  flagger: {
+    username: string;
+    helpful_flag_count: number;
+    declined_flag_count: number;
+  };
+}
+
+// All pending flags on one question, answer or comment
+interface FlaggedPost {
+  kind: 'question' | 'answer' | 'comment';
+  id: string;
+  questionId: string | null;
+  title: string | null;
+  excerpt: string;
+  hidden: boolean;
+  flags: PendingFlag[];
+}
+
+const QUEUE_SIZE = 200;
+
+export default function Moderation() {
+  const { user, loading: authLoading } = useAuth();
+  const { profile, loading: profileLoading } = useProfile();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const [posts, setPosts] = useState<FlaggedPost[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  const canModerate = isModerator(profile);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/auth');
+    }
+  }, [user, authLoading, navigate]);
+
+  useEffect(() => {
+    if (canModerate) {
+      fetchFlags();
+    }
+  }, [canModerate]);
+
+  const fetchFlags = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('flags')
+        .select(`
+          id,
+          reason,
+          details,
+          created_at,
+          profiles!flags_user_id_fkey (
+            username,
+            helpful_flag_count,
+            declined_flag_count
+          ),
+          questions!flags_question_id_fkey (
+            id,
+            title,
+            description,
+            deleted_at
+          ),
+          answers!flags_answer_id_fkey (
+            id,
+            content,
+            question_id,
+            deleted_at
+          ),
+          comments!flags_comment_id_fkey (
+            id,
+            content,
+            question_id,
+            deleted_at,
+            answers!comments_answer_id_fkey (
+              question_id
+            )
+          )
+        `)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: true })
+        .limit(QUEUE_SIZE);
+
+      if (error) throw error;
+
+      const grouped = new Map<string, FlaggedPost>();
+      for (const row of data || []) {
+        const flag: PendingFlag = {
+          id: row.id,
+          reason: row.reason,
+          details: row.details,
+          created_at: row.created_at,
+          flagger: row.profiles,
+        };
+
+        let post: Omit<FlaggedPost, 'flags'> | null = null;
+        if (row.questions) {
+          post = {
+            kind: 'question',
+            id: row.questions.id,
+            questionId: row.questions.id,
+            title: row.questions.title,
+            excerpt: markdownToPlainText(row.questions.description),
+            hidden: !!row.questions.deleted_at,
+          };
+        } else if (row.answers) {
+          post = {
+            kind: 'answer',
+            id: row.answers.id,
+            questionId: row.answers.question_id,
+            title: null,
+            excerpt: markdownToPlainText(row.answers.content),
+            hidden: !!row.answers.deleted_at,
+          };
+        } else if (row.comments) {
+          post = {
+            kind: 'comment',
+            id: row.comments.id,
+            questionId: row.comments.question_id ?? row.comments.answers?.question_id ?? null,
+            title: null,
+            excerpt: row.comments.content,
+            hidden: !!row.comments.deleted_at,
+          };
+        }
+        if (!post) continue;
+
+        const key = `${post.kind}:${post.id}`;
+        const existing = grouped.get(key);
+        if (existing) {
+          existing.flags.push(flag);
+        } else {
+          grouped.set(key, { ...post, flags: [flag] });
+        }
+      }
+
+      // Most-flagged posts first; ties keep the oldest flag first
+      setPosts([...grouped.values()].sort((a, b) => b.flags.length - a.flags.length));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to fetch flags",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReview = async (post: FlaggedPost, helpful: boolean) => {
+    setReviewingId(post.id);
+    try {
+      const { error } = await supabase.rpc('review_flags', {
+        _helpful: helpful,
+        _question_id: post.kind === 'question' ? post.id : undefined,
+        _answer_id: post.kind === 'answer' ? post.id : undefined,
+        _comment_id: post.kind === 'comment' ? post.id : undefined,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: helpful ? "Flags marked helpful" : "Flags declined",
+        description: helpful
+          ? "The flaggers have been credited."
+          : post.hidden ? `The ${post.kind} is visible again.` : "No action was taken on the post.",
+      });
+
+      setPosts(prev => prev.filter(p => !(p.kind === post.kind && p.id === post.id)));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to review flags",
+        variant: "destructive",
+      });
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  const postLink = (post: FlaggedPost) => {
+    if (!post.questionId) return null;
+    const hash = post.kind === 'answer' ? `#answer-${post.id}` : post.kind === 'comment' ? `#comment-${post.id}` : '';
+    return `/questions/${post.questionId}${hash}`;
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+            Moderation
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Held posts and pending flags, grouped by post. Reviewing a post resolves all of its flags at once.
+          </p>
+        </div>
+
+        {canModerate && <HeldPostQueue />}
+
+        {!profileLoading && !canModerate ? (
+          <div className="text-center py-12">
+            <ShieldCheck className="w-10 h-10 text-muted-foreground mx-auto mb-3" />
+            <p className="text-muted-foreground">Only moderators and admins can review flags.</p>
+          </div>
+        ) : loading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+            <p className="text-muted-foreground mt-2">Loading flags...</p>
+          </div>
+        ) : posts.length === 0 ? (
+          <div className="text-center py-12">
+            <Flag className="w-10 h-10 text-muted-foreground mx-auto mb-3" />
+            <h3 className="text-lg font-semibold mb-2">No pending flags</h3>
+            <p className="text-muted-foreground">New flags will appear here for review.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {posts.map((post) => {
+              const link = postLink(post);
+              const reasons = [...new Set(post.flags.map(f => f.reason))];
+
+              return (
+                <div key={`${post.kind}:${post.id}`} className="bg-gradient-card rounded-xl p-6 shadow-lg">
+                  <div className="flex flex-wrap items-center gap-2 mb-2">
+                    <Badge variant="outline" className="capitalize">{post.kind}</Badge>
+                    {reasons.map((reason) => (
+                      <Badge key={reason} variant={reason === 'spam' ? 'destructive' : 'secondary'}>
+                        {FLAG_REASON_LABELS[reason]} ×{post.flags.filter(f => f.reason === reason).length}
+                      </Badge>
+                    ))}
+                    {post.hidden && (
+                      <span className="flex items-center gap-1 text-xs text-destructive">
+                        <EyeOff className="w-3 h-3" />
+                        hidden
+                      </span>
+                    )}
+                  </div>
+
+                  {post.title && <h3 className="font-semibold mb-1">{post.title}</h3>}
+                  <p className="text-sm text-foreground/90 line-clamp-3 mb-2">{post.excerpt}</p>
+                  {link && (
+                    <Link to={link} className="text-sm text-primary hover:underline">
+                      View {post.kind} in context
+                    </Link>
+                  )}
+
+                  <ul className="mt-4 border-t pt-3 space-y-2 text-sm">
+                    {post.flags.map((flag) => (
+                      <li key={flag.id}>
+                        <span className="font-medium">{FLAG_REASON_LABELS[flag.reason]}</span>
+                        <span className="text-muted-foreground">
+                          {' '}by{' '}
+                          <Link to={`/users/${flag.flagger.username}`} className="hover:text-primary">
+                            @{flag.flagger.username}
+                          </Link>
+                          {' '}({flag.flagger.helpful_flag_count} helpful, {flag.flagger.declined_flag_count} declined){' '}
+                          {formatDistanceToNow(new Date(flag.created_at), { addSuffix: true })}
+                        </span>
+                        {flag.details && (
+                          <p className="text-muted-foreground whitespace-pre-wrap break-words">{flag.details}</p>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+
+                  <div className="flex gap-2 mt-4">
+                    <Button
+                      size="sm"
+                      variant="success"
+                      onClick={() => handleReview(post, true)}
+                      disabled={reviewingId === post.id}
+                    >
+                      <Check className="w-4 h-4 mr-1" />
+                      Helpful
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleReview(post, false)}
+                      disabled={reviewingId === post.id}
+                    >
+                      <X className="w-4 h-4 mr-1" />
+                      Decline
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/lib/auth';
+import { Header } from '@/components/layout/Header';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useNotifications, getNotificationLink, Notification, NotificationType } from '@/hooks/useNotifications';
+import { useToast } from '@/hooks/use-toast';
+import { Bell, AtSign, MessageSquare, CheckCircle, CheckCheck, Award, BellRing } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+const TYPE_LABELS: Record<NotificationType, string> = {
+  mention: 'Mentions',
+  answer: 'Answers',
+  accepted: 'Accepted',
+  badge: 'Badges',
+  activity: 'Following',
+};
+
+const TYPE_ICONS: Record<NotificationType, typeof Bell> = {
+  mention: AtSign,
+  answer: MessageSquare,
+  accepted: CheckCircle,
+  badge: Award,
+  activity: BellRing,
+};
+
+export default function Notifications() {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [type, setType] = useState<NotificationType | 'all'>('all');
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const { notifications, loading, markAsRead, markAllAsRead } = useNotifications(type, unreadOnly);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/auth');
+    }
+  }, [user, authLoading, navigate]);
+
+  const handleOpen = async (notification: Notification) => {
+    if (!notification.is_read) {
+      await markAsRead([notification.id]);
+    }
+    const link = getNotificationLink(notification);
+    if (link) {
+      navigate(link);
+    }
+  };
+
+  const handleMarkAllAsRead = async () => {
+    const { error } = await markAllAsRead();
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to mark notifications as read",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const hasUnread = notifications.some(n => !n.is_read);
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8 max-w-3xl">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+              Notifications
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              Mentions, answers and activity on your posts and the questions you follow
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            onClick={handleMarkAllAsRead}
+            disabled={!hasUnread}
+            className="flex items-center space-x-2"
+          >
+            <CheckCheck className="w-4 h-4" />
+            <span>Mark all as read</span>
+          </Button>
+        </div>
+
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
+          <Tabs value={type} onValueChange={(value) => setType(value as NotificationType | 'all')}>
+            <TabsList>
+              <TabsTrigger value="all">All</TabsTrigger>
+              {(Object.keys(TYPE_LABELS) as NotificationType[]).map((key) => (
+                <TabsTrigger key={key} value={key}>
+                  {TYPE_LABELS[key]}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+          <div className="flex items-center space-x-2">
+            <Switch id="unread-only" checked={unreadOnly} onCheckedChange={setUnreadOnly} />
+            <Label htmlFor="unread-only">Unread only</Label>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+            <p className="text-muted-foreground mt-2">Loading notifications...</p>
+          </div>
+        ) : notifications.length === 0 ? (
+          <div className="text-center py-12">
+            <Bell className="w-10 h-10 text-muted-foreground mx-auto mb-3" />
+            <h3 className="text-lg font-semibold mb-2">You're all caught up</h3>
+            <p className="text-muted-foreground">
+              New notifications will appear here as they happen.
+            </p>
+          </div>
+        ) : (
+          <div className="bg-gradient-card rounded-xl shadow-lg divide-y">
+            {notifications.map((notification) => {
+              const Icon = TYPE_ICONS[notification.type] ?? Bell;
+
+              return (
+                <button
+                  key={notification.id}
+                  type="button"
+                  onClick={() => handleOpen(notification)}
+                  className={`w-full text-left flex items-start gap-3 p-4 hover:bg-accent/50 transition-colors first:rounded-t-xl last:rounded-b-xl ${
+                    notification.is_read ? '' : 'bg-primary/5'
+                  }`}
+                >
+                  <Icon className={`w-5 h-5 mt-0.5 ${notification.is_read ? 'text-muted-foreground' : 'text-primary'}`} />
+                  <div className="flex-1 min-w-0">
+                    <p className={`text-sm ${notification.is_read ? 'text-foreground/80' : 'font-semibold'}`}>
+                      {notification.title}
+                    </p>
+                    <p className="text-sm text-muted-foreground truncate">
+                      {notification.message}
+                    </p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                    </p>
+                  </div>
+                  {!notification.is_read && (
+                    <span className="mt-1.5 h-2 w-2 rounded-full bg-primary" aria-label="Unread" />
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
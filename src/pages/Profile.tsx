@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/lib/auth';
 import { useProfile } from '@/hooks/useProfile';
+import { useReputationEvents } from '@/hooks/useReputationEvents';
 import { supabase } from '@/integrations/supabase/client';
 import { Header } from '@/components/layout/Header';
 import { Button } from '@/components/ui/button';
@@ -11,14 +12,20 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2, User, Mail, Calendar } from 'lucide-react';
-import { useNavigate } from 'react-router-dom';
+import { REPUTATION_EVENT_LABELS } from '@/lib/reputation';
+import { BadgeShowcase } from '@/components/badges/BadgeShowcase';
+import { TagPreferenceSettings } from '@/components/tags/TagPreferenceSettings';
+import { FlagHistory } from '@/components/moderation/FlagHistory';
+import { Loader2, User, Mail, Calendar, Trophy, Award, Tag, Flag } from 'lucide-react';
+import { useNavigate, Link } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
 
 export default function Profile() {
   const { user } = useAuth();
   const { profile, refreshProfile } = useProfile();
   const { toast } = useToast();
   const navigate = useNavigate();
+  const { events: reputationEvents } = useReputationEvents(user?.id);
   
   const [loading, setLoading] = useState(false);
   const [formData, setFormData] = useState({
@@ -112,6 +119,87 @@ export default function Profile() {
           </p>
         </div>
 
+        {profile && (
+          <Card className="bg-gradient-card shadow-lg mb-6">
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span className="flex items-center space-x-2">
+                  <Trophy className="w-5 h-5" />
+                  <span>Reputation</span>
+                </span>
+                <span className="text-2xl font-bold text-primary">
+                  {profile.reputation.toLocaleString()}
+                </span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {reputationEvents.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  Earn reputation when others upvote your posts or accept your answers.
+                </p>
+              ) : (
+                <ul className="divide-y">
+                  {reputationEvents.map((event) => (
+                    <li key={event.id} className="flex items-center justify-between py-2 text-sm">
+                      <div className="flex items-center space-x-3">
+                        <span className={`w-10 text-right font-semibold ${event.delta > 0 ? 'text-success' : 'text-destructive'}`}>
+                          {event.delta > 0 ? `+${event.delta}` : event.delta}
+                        </span>
+                        {event.question_id ? (
+                          <Link to={`/questions/${event.question_id}`} className="hover:text-primary transition-colors">
+                            {REPUTATION_EVENT_LABELS[event.event_type]}
+                          </Link>
+                        ) : (
+                          <span>{REPUTATION_EVENT_LABELS[event.event_type]}</span>
+                        )}
+                      </div>
+                      <span className="text-xs text-muted-foreground">
+                        {formatDistanceToNow(new Date(event.created_at), { addSuffix: true })}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card className="bg-gradient-card shadow-lg mb-6">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Award className="w-5 h-5" />
+              <span>Badges</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <BadgeShowcase userId={user.id} />
+          </CardContent>
+        </Card>
+
+        <Card className="bg-gradient-card shadow-lg mb-6">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Tag className="w-5 h-5" />
+              <span>Tag Preferences</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <TagPreferenceSettings />
+          </CardContent>
+        </Card>
+
+        <Card className="bg-gradient-card shadow-lg mb-6">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Flag className="w-5 h-5" />
+              <span>Flags</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <FlagHistory />
+          </CardContent>
+        </Card>
+
         <Card className="bg-gradient-card shadow-lg">
           <CardHeader>
             <CardTitle className="flex items-center space-x-2">
@@ -1,15 +1,31 @@
 import { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useLocation, Link } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/lib/auth';
 import { useProfile } from '@/hooks/useProfile';
+import { usePrivileges } from '@/hooks/usePrivileges';
 import { Header } from '@/components/layout/Header';
 import { Button } from '@/components/ui/button';
-import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
-import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { MarkdownContent } from '@/components/markdown/MarkdownContent';
+import { MarkdownEditor } from '@/components/markdown/MarkdownEditor';
+import { CommentThread } from '@/components/comments/CommentThread';
+import { AuthorInfo, AuthorProfile } from '@/components/users/AuthorInfo';
+import { VoteButton } from '@/components/questions/VoteButton';
+import { BookmarkButton } from '@/components/bookmarks/BookmarkButton';
+import { FollowButton } from '@/components/questions/FollowButton';
+import { CloseVoteDialog } from '@/components/questions/CloseVoteDialog';
+import { ClosedNotice } from '@/components/questions/ClosedNotice';
+import { DeletePostButton } from '@/components/questions/DeletePostButton';
+import { DeletedNotice } from '@/components/questions/DeletedNotice';
+import { HeldNotice } from '@/components/questions/HeldNotice';
+import { FlagButton } from '@/components/moderation/FlagButton';
+import { CLOSE_VOTES_NEEDED, CloseReason } from '@/lib/closing';
+import { canUndelete } from '@/lib/deletion';
 import { useToast } from '@/hooks/use-toast';
-import { ChevronUp, ChevronDown, MessageSquare, Clock, CheckCircle, Trash2 } from 'lucide-react';
+import { isModerator } from '@/lib/roles';
+import { isRateLimitError } from '@/lib/rateLimits';
+import { MessageSquare, Clock, CheckCircle, Pencil, History, Eye, Lock, LockOpen } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 
 interface Question {
@@ -22,12 +38,22 @@ interface Question {
   downvote_count: number;
   answer_count: number;
   has_accepted_answer: boolean;
+  view_count: number;
   created_at: string;
-  profiles: {
-    username: string;
-    full_name: string;
-    avatar_url?: string;
-  };
+  edited_at: string | null;
+  closed_reason: CloseReason | null;
+  closed_at: string | null;
+  deleted_at: string | null;
+  deleted_by: string | null;
+  held_at: string | null;
+  held_reason: string | null;
+  profiles: AuthorProfile;
+  duplicate: { id: string; title: string } | null;
+}
+
+interface CloseVote {
+  user_id: string;
+  kind: 'close' | 'reopen';
 }
 
 interface Answer {
@@ -38,11 +64,12 @@ interface Answer {
   downvote_count: number;
   is_accepted: boolean;
   created_at: string;
-  profiles: {
-    username: string;
-    full_name: string;
-    avatar_url?: string;
-  };
+  edited_at: string | null;
+  deleted_at: string | null;
+  deleted_by: string | null;
+  held_at: string | null;
+  held_reason: string | null;
+  profiles: AuthorProfile;
 }
 
 interface UserVote {
@@ -52,28 +79,83 @@ interface UserVote {
 export default function QuestionDetail() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const location = useLocation();
   const { user } = useAuth();
   const { profile } = useProfile();
+  const { can, requirement } = usePrivileges(profile);
   const { toast } = useToast();
   
   const [question, setQuestion] = useState<Question | null>(null);
   const [answers, setAnswers] = useState<Answer[]>([]);
   const [questionVote, setQuestionVote] = useState<UserVote | null>(null);
   const [answerVotes, setAnswerVotes] = useState<{ [key: string]: UserVote }>({});
+  const [bookmarkedIds, setBookmarkedIds] = useState<Set<string>>(new Set());
+  const [closeVotes, setCloseVotes] = useState<CloseVote[]>([]);
+  const [closeDialogOpen, setCloseDialogOpen] = useState(false);
   const [loading, setLoading] = useState(true);
   const [newAnswer, setNewAnswer] = useState('');
   const [submitting, setSubmitting] = useState(false);
+  const [editingAnswerId, setEditingAnswerId] = useState<string | null>(null);
+  const [editedContent, setEditedContent] = useState('');
+  const [savingEdit, setSavingEdit] = useState(false);
 
   useEffect(() => {
     if (id) {
       fetchQuestion();
       fetchAnswers();
+      fetchCloseVotes();
       if (user) {
         fetchVotes();
       }
     }
   }, [id, user]);
 
+  useEffect(() => {
+    if (id && user) {
+      fetchBookmarks();
+    }
+  }, [id, user, answers]);
+
+  // Record a view; the server counts each viewer once, this just skips repeat calls
+  useEffect(() => {
+    if (!id) return;
+
+    const viewedKey = `viewed-question:${id}`;
+    if (sessionStorage.getItem(viewedKey)) return;
+    sessionStorage.setItem(viewedKey, '1');
+
+    supabase.rpc('increment_question_views', { _question_id: id }).then(({ error }) => {
+      if (error) console.error('Failed to record view:', error);
+    });
+  }, [id]);
+
+  // Show answers posted by others while the page is open
+  useEffect(() => {
+    if (!id) return;
+
+    const channel = supabase
+      .channel(`question-answers:${id}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'answers', filter: `question_id=eq.${id}` },
+        () => {
+          fetchAnswers();
+          fetchQuestion();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [id]);
+
+  // Scroll to the answer or comment a notification linked to
+  useEffect(() => {
+    if (loading || !location.hash) return;
+    document.getElementById(location.hash.slice(1))?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [loading, location.hash]);
+
   const fetchQuestion = async () => {
     try {
       const { data, error } = await supabase
@@ -83,14 +165,27 @@ export default function QuestionDetail() {
           profiles!questions_user_id_fkey (
             username,
             full_name,
-            avatar_url
+            avatar_url,
+            reputation
           )
         `)
         .eq('id', id)
         .single();
 
       if (error) throw error;
-      setQuestion(data);
+
+      // The canonical question a duplicate was closed against
+      let duplicate: Question['duplicate'] = null;
+      if (data.duplicate_of) {
+        const { data: duplicateData } = await supabase
+          .from('questions')
+          .select('id, title')
+          .eq('id', data.duplicate_of)
+          .maybeSingle();
+        duplicate = duplicateData;
+      }
+
+      setQuestion({ ...data, duplicate });
     } catch (error) {
       toast({
         title: "Error",
@@ -110,7 +205,8 @@ export default function QuestionDetail() {
           profiles!answers_user_id_fkey (
             username,
             full_name,
-            avatar_url
+            avatar_url,
+            reputation
           )
         `)
         .eq('question_id', id)
@@ -170,6 +266,92 @@ export default function QuestionDetail() {
     }
   };
 
+  const fetchCloseVotes = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('close_votes')
+        .select('user_id, kind')
+        .eq('question_id', id);
+
+      if (error) throw error;
+      setCloseVotes(data || []);
+    } catch (error) {
+      console.error('Failed to fetch close votes:', error);
+    }
+  };
+
+  const handleReopenVote = async () => {
+    if (!user || !question) return;
+
+    try {
+      const { error } = await supabase
+        .from('close_votes')
+        .insert({
+          question_id: question.id,
+          user_id: user.id,
+          kind: 'reopen',
+        });
+
+      if (error) throw error;
+
+      toast({
+        title: "Reopen vote recorded",
+        description: "Thanks for helping keep the site tidy.",
+      });
+
+      await Promise.all([fetchQuestion(), fetchCloseVotes()]);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to vote to reopen",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRetractCloseVote = async (kind: 'close' | 'reopen') => {
+    if (!user || !question) return;
+
+    try {
+      const { error } = await supabase
+        .from('close_votes')
+        .delete()
+        .eq('question_id', question.id)
+        .eq('user_id', user.id)
+        .eq('kind', kind);
+
+      if (error) throw error;
+      await fetchCloseVotes();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to retract vote",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Which of the question and its answers the user has saved
+  const fetchBookmarks = async () => {
+    if (!user) return;
+
+    try {
+      const answerIds = answers.map(a => a.id);
+      const { data, error } = await supabase
+        .from('bookmarks')
+        .select('question_id, answer_id')
+        .eq('user_id', user.id)
+        .or(answerIds.length > 0
+          ? `question_id.eq.${id},answer_id.in.(${answerIds.join(',')})`
+          : `question_id.eq.${id}`);
+
+      if (error) throw error;
+      setBookmarkedIds(new Set((data || []).map(b => b.answer_id ?? b.question_id)));
+    } catch (error) {
+      console.error('Failed to fetch bookmarks:', error);
+    }
+  };
+
   const handleVote = async (type: 'upvote' | 'downvote', answerId?: string) => {
     if (!user) return;
 
@@ -207,7 +389,7 @@ export default function QuestionDetail() {
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to update vote",
+        description: isRateLimitError(error) ? error.message : "Failed to update vote",
         variant: "destructive",
       });
     }
@@ -218,28 +400,37 @@ export default function QuestionDetail() {
 
     setSubmitting(true);
     try {
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('answers')
         .insert({
           content: newAnswer.trim(),
           question_id: id!,
           user_id: user.id,
-        });
+        })
+        .select('held_at')
+        .single();
 
       if (error) throw error;
 
       setNewAnswer('');
-      toast({
-        title: "Answer posted",
-        description: "Your answer has been posted successfully.",
-      });
+      if (data.held_at) {
+        toast({
+          title: "Answer held for review",
+          description: "Others will see your answer once a moderator approves it.",
+        });
+      } else {
+        toast({
+          title: "Answer posted",
+          description: "Your answer has been posted successfully.",
+        });
+      }
       
       await fetchAnswers();
       await fetchQuestion();
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to post answer",
+        description: isRateLimitError(error) ? error.message : "Failed to post answer",
         variant: "destructive",
       });
     } finally {
@@ -251,10 +442,7 @@ export default function QuestionDetail() {
     if (!user || !question || question.user_id !== user.id) return;
 
     try {
-      const { error } = await supabase
-        .from('answers')
-        .update({ is_accepted: true })
-        .eq('id', answerId);
+      const { error } = await supabase.rpc('accept_answer', { _answer_id: answerId });
 
       if (error) throw error;
 
@@ -274,13 +462,66 @@ export default function QuestionDetail() {
     }
   };
 
-  const getInitials = (name: string) => {
-    return name
-      .split(' ')
-      .map(n => n[0])
-      .join('')
-      .toUpperCase()
-      .slice(0, 2);
+  const handleUndelete = async (answerId?: string) => {
+    if (!user || !question) return;
+
+    try {
+      const { error } = await supabase.rpc('undelete_post', answerId
+        ? { _answer_id: answerId }
+        : { _question_id: question.id });
+
+      if (error) throw error;
+
+      toast({
+        title: answerId ? "Answer restored" : "Question restored",
+        description: "It is visible to everyone again.",
+      });
+
+      await fetchAnswers();
+      await fetchQuestion();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: `Failed to undelete ${answerId ? 'answer' : 'question'}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const startEditingAnswer = (answer: Answer) => {
+    setEditingAnswerId(answer.id);
+    setEditedContent(answer.content);
+  };
+
+  const handleSaveAnswerEdit = async () => {
+    if (!user || !editingAnswerId || !editedContent.trim()) return;
+
+    setSavingEdit(true);
+    try {
+      const { error } = await supabase
+        .from('answers')
+        .update({ content: editedContent.trim() })
+        .eq('id', editingAnswerId);
+
+      if (error) throw error;
+
+      setEditingAnswerId(null);
+      setEditedContent('');
+      toast({
+        title: "Answer updated",
+        description: "Your changes have been saved.",
+      });
+
+      await fetchAnswers();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update answer",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingEdit(false);
+    }
   };
 
   if (loading || !question) {
@@ -299,29 +540,73 @@ export default function QuestionDetail() {
 
   const questionVoteScore = question.upvote_count - question.downvote_count;
   const isQuestionAuthor = user?.id === question.user_id;
-  const isAdmin = profile?.role === 'admin';
+  const canModerate = isModerator(profile);
+  const canEditOthers = can('edit_others');
+  const isClosed = !!question.closed_at;
+  const isDeleted = !!question.deleted_at;
+  const isHeld = !!question.held_at;
+  const visibleAnswerCount = answers.filter(a => !a.deleted_at && !a.held_at).length;
+  const pendingKind = isClosed ? 'reopen' : 'close';
+  const pendingVotes = closeVotes.filter(v => v.kind === pendingKind);
+  const hasVoted = pendingVotes.some(v => v.user_id === user?.id);
+
+  // Removing an existing vote is always allowed; casting one needs the privilege
+  const missingPrivilege = (type: 'upvote' | 'downvote', currentVote?: { vote_type: 'upvote' | 'downvote' }) =>
+    user && currentVote?.vote_type !== type && !can(type) ? requirement(type) : undefined;
 
   return (
     <div className="min-h-screen bg-gradient-subtle">
       <Header />
       
       <main className="container mx-auto px-4 py-8 max-w-4xl">
+        {isDeleted && (
+          <DeletedNotice
+            kind="question"
+            deletedAt={question.deleted_at}
+            hiddenByFlags={!question.deleted_by}
+            onUndelete={canUndelete(question, user?.id, canModerate) ? () => handleUndelete() : undefined}
+            className="mb-6"
+          />
+        )}
+
+        {question.held_at && (
+          <HeldNotice
+            kind="question"
+            heldAt={question.held_at}
+            reason={canModerate ? question.held_reason : null}
+            className="mb-6"
+          />
+        )}
+
+        {isClosed && (
+          <ClosedNotice
+            reason={question.closed_reason}
+            closedAt={question.closed_at}
+            duplicate={question.duplicate}
+          />
+        )}
+
         {/* Question */}
         <div className="bg-gradient-card rounded-xl p-6 mb-6 shadow-lg">
           <h1 className="text-2xl font-bold mb-4 text-foreground">
             {question.title}
+            {isClosed && (
+              <span className="ml-2 text-muted-foreground font-normal">
+                [{question.closed_reason === 'duplicate' ? 'duplicate' : 'closed'}]
+              </span>
+            )}
           </h1>
           
-          <p className="text-muted-foreground mb-4 leading-relaxed">
-            {question.description}
-          </p>
+          <MarkdownContent source={question.description} tags={question.tags} className="mb-4" />
           
           {question.tags.length > 0 && (
             <div className="flex flex-wrap gap-2 mb-4">
               {question.tags.map((tag, index) => (
-                <Badge key={index} variant="secondary">
-                  {tag}
-                </Badge>
+                <Link key={index} to={`/tags/${encodeURIComponent(tag)}`}>
+                  <Badge variant="secondary" className="hover:bg-secondary/60">
+                    {tag}
+                  </Badge>
+                </Link>
               ))}
             </div>
           )}
@@ -330,29 +615,25 @@ export default function QuestionDetail() {
             <div className="flex items-center space-x-4">
               {/* Vote Section */}
               <div className="flex items-center space-x-1">
-                <Button
-                  variant="vote"
-                  size="icon-sm"
+                <VoteButton
+                  type="upvote"
+                  active={questionVote?.vote_type === 'upvote'}
                   onClick={() => handleVote('upvote')}
                   disabled={!user}
-                  className={questionVote?.vote_type === 'upvote' ? 'text-success bg-success/10' : ''}
-                >
-                  <ChevronUp className="w-4 h-4" />
-                </Button>
+                  disabledReason={missingPrivilege('upvote', questionVote)}
+                />
                 <span className={`text-sm font-medium min-w-[2rem] text-center ${
                   questionVoteScore > 0 ? 'text-success' : questionVoteScore < 0 ? 'text-destructive' : 'text-muted-foreground'
                 }`}>
                   {questionVoteScore}
                 </span>
-                <Button
-                  variant="vote"
-                  size="icon-sm"
+                <VoteButton
+                  type="downvote"
+                  active={questionVote?.vote_type === 'downvote'}
                   onClick={() => handleVote('downvote')}
                   disabled={!user}
-                  className={questionVote?.vote_type === 'downvote' ? 'text-destructive bg-destructive/10' : ''}
-                >
-                  <ChevronDown className="w-4 h-4" />
-                </Button>
+                  disabledReason={missingPrivilege('downvote', questionVote)}
+                />
               </div>
 
               <div className="flex items-center space-x-1">
@@ -371,26 +652,75 @@ export default function QuestionDetail() {
                   {formatDistanceToNow(new Date(question.created_at), { addSuffix: true })}
                 </span>
               </div>
-            </div>
 
-            <div className="flex items-center space-x-2">
-              <Avatar className="h-8 w-8">
-                <AvatarImage src={question.profiles.avatar_url} />
-                <AvatarFallback className="text-xs bg-gradient-primary text-primary-foreground">
-                  {getInitials(question.profiles.full_name)}
-                </AvatarFallback>
-              </Avatar>
-              <span className="text-sm text-muted-foreground">
-                @{question.profiles.username}
-              </span>
+              <div className="flex items-center space-x-1">
+                <Eye className="w-4 h-4 text-muted-foreground" />
+                <span className="text-sm text-muted-foreground">
+                  {question.view_count} {question.view_count === 1 ? 'view' : 'views'}
+                </span>
+              </div>
+
+              {question.edited_at && (
+                <Link
+                  to={`/questions/${question.id}/revisions`}
+                  className="flex items-center space-x-1 text-sm text-muted-foreground hover:text-primary"
+                >
+                  <History className="w-4 h-4" />
+                  <span>edited {formatDistanceToNow(new Date(question.edited_at), { addSuffix: true })}</span>
+                </Link>
+              )}
+
+              <BookmarkButton questionId={question.id} bookmarked={bookmarkedIds.has(question.id)} />
+              <FollowButton questionId={question.id} />
+
+              {can('close_vote') && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    if (hasVoted) {
+                      handleRetractCloseVote(pendingKind);
+                    } else if (isClosed) {
+                      handleReopenVote();
+                    } else {
+                      setCloseDialogOpen(true);
+                    }
+                  }}
+                >
+                  {isClosed ? <LockOpen className="w-4 h-4 mr-1" /> : <Lock className="w-4 h-4 mr-1" />}
+                  {hasVoted ? 'Retract vote' : isClosed ? 'Reopen' : 'Close'}
+                  {pendingVotes.length > 0 && ` (${pendingVotes.length}/${CLOSE_VOTES_NEEDED})`}
+                </Button>
+              )}
+
+              {(isQuestionAuthor || canEditOthers) && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => navigate(`/questions/${question.id}/edit`)}
+                >
+                  <Pencil className="w-4 h-4 mr-1" />
+                  Edit
+                </Button>
+              )}
+
+              {(isQuestionAuthor || canModerate) && !isDeleted && (
+                <DeletePostButton questionId={question.id} onDeleted={fetchQuestion} />
+              )}
+
+              {!isDeleted && <FlagButton questionId={question.id} authorId={question.user_id} />}
             </div>
+
+            <AuthorInfo profile={question.profiles} size="md" />
           </div>
+
+          <CommentThread questionId={question.id} ownerIds={[question.user_id]} />
         </div>
 
         {/* Answers */}
         <div className="space-y-4 mb-6">
           <h2 className="text-xl font-semibold">
-            {answers.length} {answers.length === 1 ? 'Answer' : 'Answers'}
+            {visibleAnswerCount} {visibleAnswerCount === 1 ? 'Answer' : 'Answers'}
           </h2>
           
           {answers.map((answer) => {
@@ -398,9 +728,32 @@ export default function QuestionDetail() {
             const userVote = answerVotes[answer.id];
             
             return (
-              <div key={answer.id} className={`bg-gradient-card rounded-xl p-6 shadow-lg ${
-                answer.is_accepted ? 'ring-2 ring-success/50' : ''
+              <div key={answer.id} id={`answer-${answer.id}`} className={`bg-gradient-card rounded-xl p-6 shadow-lg ${
+                answer.deleted_at
+                  ? 'border border-destructive/30'
+                  : answer.held_at
+                    ? 'border border-warning/30'
+                    : answer.is_accepted ? 'ring-2 ring-success/50' : ''
               }`}>
+                {answer.deleted_at && (
+                  <DeletedNotice
+                    kind="answer"
+                    deletedAt={answer.deleted_at}
+                    hiddenByFlags={!answer.deleted_by}
+                    onUndelete={canUndelete(answer, user?.id, canModerate) ? () => handleUndelete(answer.id) : undefined}
+                    className="mb-4"
+                  />
+                )}
+
+                {answer.held_at && (
+                  <HeldNotice
+                    kind="answer"
+                    heldAt={answer.held_at}
+                    reason={canModerate ? answer.held_reason : null}
+                    className="mb-4"
+                  />
+                )}
+
                 {answer.is_accepted && (
                   <div className="flex items-center space-x-2 mb-3">
                     <CheckCircle className="w-5 h-5 text-success" />
@@ -408,40 +761,63 @@ export default function QuestionDetail() {
                   </div>
                 )}
                 
-                <p className="text-foreground mb-4 leading-relaxed">
-                  {answer.content}
-                </p>
+                {editingAnswerId === answer.id ? (
+                  <div className="mb-4 space-y-3">
+                    <MarkdownEditor
+                      value={editedContent}
+                      onChange={setEditedContent}
+                      rows={6}
+                      disabled={savingEdit}
+                    />
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="hero"
+                        onClick={handleSaveAnswerEdit}
+                        disabled={!editedContent.trim() || savingEdit}
+                      >
+                        {savingEdit ? "Saving..." : "Save Edits"}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setEditingAnswerId(null)}
+                        disabled={savingEdit}
+                      >
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <MarkdownContent source={answer.content} tags={question.tags} className="mb-4" />
+                )}
                 
                 <div className="flex items-center justify-between">
                   <div className="flex items-center space-x-4">
                     {/* Vote Section */}
                     <div className="flex items-center space-x-1">
-                      <Button
-                        variant="vote"
-                        size="icon-sm"
+                      <VoteButton
+                        type="upvote"
+                        active={userVote?.vote_type === 'upvote'}
                         onClick={() => handleVote('upvote', answer.id)}
                         disabled={!user}
-                        className={userVote?.vote_type === 'upvote' ? 'text-success bg-success/10' : ''}
-                      >
-                        <ChevronUp className="w-4 h-4" />
-                      </Button>
+                        disabledReason={missingPrivilege('upvote', userVote)}
+                      />
                       <span className={`text-sm font-medium min-w-[2rem] text-center ${
                         answerVoteScore > 0 ? 'text-success' : answerVoteScore < 0 ? 'text-destructive' : 'text-muted-foreground'
                       }`}>
                         {answerVoteScore}
                       </span>
-                      <Button
-                        variant="vote"
-                        size="icon-sm"
+                      <VoteButton
+                        type="downvote"
+                        active={userVote?.vote_type === 'downvote'}
                         onClick={() => handleVote('downvote', answer.id)}
                         disabled={!user}
-                        className={userVote?.vote_type === 'downvote' ? 'text-destructive bg-destructive/10' : ''}
-                      >
-                        <ChevronDown className="w-4 h-4" />
-                      </Button>
+                        disabledReason={missingPrivilege('downvote', userVote)}
+                      />
                     </div>
 
-                    {isQuestionAuthor && !answer.is_accepted && !question.has_accepted_answer && (
+                    {isQuestionAuthor && !answer.is_accepted && !answer.deleted_at && !question.has_accepted_answer && (
                       <Button
                         variant="success"
                         size="sm"
@@ -458,34 +834,84 @@ export default function QuestionDetail() {
                         {formatDistanceToNow(new Date(answer.created_at), { addSuffix: true })}
                       </span>
                     </div>
-                  </div>
 
-                  <div className="flex items-center space-x-2">
-                    <Avatar className="h-6 w-6">
-                      <AvatarImage src={answer.profiles.avatar_url} />
-                      <AvatarFallback className="text-xs bg-gradient-primary text-primary-foreground">
-                        {getInitials(answer.profiles.full_name)}
-                      </AvatarFallback>
-                    </Avatar>
-                    <span className="text-sm text-muted-foreground">
-                      @{answer.profiles.username}
-                    </span>
+                    {answer.edited_at && (
+                      <Link
+                        to={`/questions/${question.id}/answers/${answer.id}/revisions`}
+                        className="flex items-center space-x-1 text-sm text-muted-foreground hover:text-primary"
+                      >
+                        <History className="w-4 h-4" />
+                        <span>edited {formatDistanceToNow(new Date(answer.edited_at), { addSuffix: true })}</span>
+                      </Link>
+                    )}
+
+                    <BookmarkButton answerId={answer.id} bookmarked={bookmarkedIds.has(answer.id)} />
+
+                    {(user?.id === answer.user_id || canEditOthers) && editingAnswerId !== answer.id && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => startEditingAnswer(answer)}
+                      >
+                        <Pencil className="w-4 h-4 mr-1" />
+                        Edit
+                      </Button>
+                    )}
+
+                    {(user?.id === answer.user_id || canModerate) && !answer.deleted_at && (
+                      <DeletePostButton
+                        answerId={answer.id}
+                        onDeleted={() => Promise.all([fetchAnswers(), fetchQuestion()])}
+                      />
+                    )}
+
+                    {!answer.deleted_at && <FlagButton answerId={answer.id} authorId={answer.user_id} />}
                   </div>
+
+                  <AuthorInfo profile={answer.profiles} />
                 </div>
+
+                <CommentThread answerId={answer.id} ownerIds={[answer.user_id, question.user_id]} />
               </div>
             );
           })}
         </div>
 
+        <CloseVoteDialog
+          questionId={question.id}
+          open={closeDialogOpen}
+          onOpenChange={setCloseDialogOpen}
+          voteCount={pendingVotes.length}
+          onVoted={() => Promise.all([fetchQuestion(), fetchCloseVotes()])}
+        />
+
         {/* Answer Form */}
-        {user && (
+        {user && isHeld && !isDeleted && (
+          <div className="bg-gradient-card rounded-xl p-6 shadow-lg text-center">
+            <p className="text-muted-foreground">
+              This question is held for review and is not accepting answers yet.
+            </p>
+          </div>
+        )}
+
+        {user && isClosed && !isHeld && !isDeleted && (
+          <div className="bg-gradient-card rounded-xl p-6 shadow-lg text-center">
+            <p className="text-muted-foreground">
+              This question is closed and is not accepting new answers.
+            </p>
+          </div>
+        )}
+
+        {user && !isClosed && !isHeld && !isDeleted && (
           <div className="bg-gradient-card rounded-xl p-6 shadow-lg">
             <h3 className="text-lg font-semibold mb-4">Your Answer</h3>
-            <Textarea
+            <MarkdownEditor
               placeholder="Write your answer here..."
               value={newAnswer}
-              onChange={(e) => setNewAnswer(e.target.value)}
-              className="mb-4 min-h-[120px]"
+              onChange={setNewAnswer}
+              rows={6}
+              disabled={submitting}
+              className="mb-4"
             />
             <Button
               onClick={handleSubmitAnswer}
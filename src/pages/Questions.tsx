@@ -2,20 +2,26 @@ import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/lib/auth';
+import { useProfile } from '@/hooks/useProfile';
+import { useTagPreferences } from '@/hooks/useTagPreferences';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { QuestionCard, Question, UserVote } from '@/components/questions/QuestionCard';
 import { Header } from '@/components/layout/Header';
+import { parseSearchQuery } from '@/lib/search';
 import { Search, Filter, Plus } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 
 interface QuestionWithVote extends Question {
   userVote?: UserVote;
+  bookmarked?: boolean;
 }
 
 export default function Questions() {
   const { user } = useAuth();
+  const { profile } = useProfile();
+  const { preferences: tagPreferences } = useTagPreferences();
   const navigate = useNavigate();
   const { toast } = useToast();
   const [questions, setQuestions] = useState<QuestionWithVote[]>([]);
@@ -45,66 +51,167 @@ export default function Questions() {
     }
   }, [searchTerm]);
 
-  const fetchQuestions = async (pageNum = 1, append = false) => {
-    try {
-      setLoading(true);
+  // Plain listing, used when the search box is empty
+  const listQuestions = async (from: number, to: number): Promise<Question[]> => {
+    let query = supabase
+      .from('questions')
+      .select(`
+        *,
+        profiles!questions_user_id_fkey (
+          username,
+          full_name,
+          avatar_url,
+          reputation
+        )
+      `)
+      .is('deleted_at', null)
+      .range(from, to);
+
+    // Apply filters
+    if (filter === 'unanswered') {
+      query = query.eq('answer_count', 0);
+    }
 
-      let query = supabase
-        .from('questions')
-        .select(`
-          *,
-          profiles!questions_user_id_fkey (
-            username,
-            full_name,
-            avatar_url
-          )
-        `)
-        .range((pageNum - 1) * QUESTIONS_PER_PAGE, pageNum * QUESTIONS_PER_PAGE - 1);
-
-      // Apply filters
-      if (filter === 'unanswered') {
-        query = query.eq('answer_count', 0);
-      }
+    // Apply tag filter
+    if (selectedTag) {
+      query = query.contains('tags', [selectedTag]);
+    }
 
-      // Apply search
-      if (searchTerm) {
-        query = query.or(`title.ilike.%${searchTerm}%,description.ilike.%${searchTerm}%`);
-      }
+    // Apply sorting
+    switch (filter) {
+      case 'newest':
+        query = query.order('created_at', { ascending: false });
+        break;
+      case 'oldest':
+        query = query.order('created_at', { ascending: true });
+        break;
+      case 'most_voted':
+        query = query.order('upvote_count', { ascending: false });
+        break;
+      case 'unanswered':
+        query = query.order('created_at', { ascending: false });
+        break;
+    }
 
-      // Apply tag filter
-      if (selectedTag) {
-        query = query.contains('tags', [selectedTag]);
-      }
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+  };
 
-      // Apply sorting
-      switch (filter) {
-        case 'newest':
-          query = query.order('created_at', { ascending: false });
-          break;
-        case 'oldest':
-          query = query.order('created_at', { ascending: true });
-          break;
-        case 'most_voted':
-          query = query.order('upvote_count', { ascending: false });
-          break;
-        case 'unanswered':
-          query = query.order('created_at', { ascending: false });
-          break;
-      }
+  // Ranked full-text search with operators parsed from the search box
+  const searchQuestions = async (from: number, to: number): Promise<Question[]> => {
+    const parsed = parseSearchQuery(searchTerm);
+    const tags = selectedTag ? [...parsed.tags, selectedTag] : parsed.tags;
+
+    let query = supabase.rpc('search_questions', {
+      _query: parsed.text || undefined,
+      _tags: tags.length > 0 ? tags : undefined,
+      _username: parsed.username,
+      _answered: filter === 'unanswered' ? false : parsed.answered,
+      _accepted: parsed.accepted,
+      _min_score: parsed.minScore,
+      _max_score: parsed.maxScore,
+    });
+
+    switch (filter) {
+      case 'newest':
+        query = query.order('created_at', { ascending: false });
+        break;
+      case 'oldest':
+        query = query.order('created_at', { ascending: true });
+        break;
+      case 'most_voted':
+        query = query.order('score', { ascending: false });
+        break;
+      default:
+        query = query.order('rank', { ascending: false });
+    }
 
-      const { data: questionsData, error } = await query;
+    const { data, error } = await query.range(from, to);
+    if (error) throw error;
+
+    return (data || []).map(row => ({
+      id: row.id,
+      title: row.title,
+      description: row.description,
+      tags: row.tags,
+      user_id: row.user_id,
+      upvote_count: row.upvote_count,
+      downvote_count: row.downvote_count,
+      answer_count: row.answer_count,
+      has_accepted_answer: row.has_accepted_answer,
+      created_at: row.created_at,
+      profiles: {
+        username: row.username,
+        full_name: row.full_name,
+        avatar_url: row.avatar_url ?? undefined,
+        reputation: row.reputation,
+      },
+      highlight: {
+        title: row.title_highlight,
+        snippet: row.snippet,
+      },
+    }));
+  };
 
-      if (error) throw error;
+  // Personalized feed ranked by watched tags, recent activity and score
+  const interestingQuestions = async (from: number, to: number): Promise<Question[]> => {
+    const { data, error } = await supabase
+      .rpc('interesting_questions', { _tag: selectedTag || undefined })
+      .order('interest', { ascending: false })
+      .range(from, to);
+
+    if (error) throw error;
+
+    return (data || []).map(row => ({
+      id: row.id,
+      title: row.title,
+      description: row.description,
+      tags: row.tags,
+      user_id: row.user_id,
+      upvote_count: row.upvote_count,
+      downvote_count: row.downvote_count,
+      answer_count: row.answer_count,
+      has_accepted_answer: row.has_accepted_answer,
+      created_at: row.created_at,
+      profiles: {
+        username: row.username,
+        full_name: row.full_name,
+        avatar_url: row.avatar_url ?? undefined,
+        reputation: row.reputation,
+      },
+    }));
+  };
+
+  const fetchQuestions = async (pageNum = 1, append = false) => {
+    try {
+      setLoading(true);
 
-      // Fetch user votes if authenticated
+      const from = (pageNum - 1) * QUESTIONS_PER_PAGE;
+      const to = pageNum * QUESTIONS_PER_PAGE - 1;
+      const questionsData = searchTerm.trim()
+        ? await searchQuestions(from, to)
+        : filter === 'interesting'
+          ? await interestingQuestions(from, to)
+          : await listQuestions(from, to);
+
+      // Fetch user votes and bookmarks if authenticated
       let userVotes: { [key: string]: UserVote } = {};
-      if (user && questionsData) {
+      let bookmarkedIds = new Set<string>();
+      if (user && questionsData.length > 0) {
         const questionIds = questionsData.map(q => q.id);
-        const { data: votesData } = await supabase
-          .from('votes')
-          .select('question_id, vote_type')
-          .eq('user_id', user.id)
-          .in('question_id', questionIds);
+        const [{ data: votesData }, { data: bookmarksData }] = await Promise.all([
+          supabase
+            .from('votes')
+            .select('question_id, vote_type')
+            .eq('user_id', user.id)
+            .in('question_id', questionIds),
+          supabase
+            .from('bookmarks')
+            .select('question_id')
+            .eq('user_id', user.id)
+            .in('question_id', questionIds),
+        ]);
 
         if (votesData) {
           userVotes = votesData.reduce((acc, vote) => {
@@ -112,12 +219,14 @@ export default function Questions() {
             return acc;
           }, {} as { [key: string]: UserVote });
         }
+        bookmarkedIds = new Set((bookmarksData || []).map(b => b.question_id));
       }
 
-      const questionsWithVotes = questionsData?.map(question => ({
+      const questionsWithVotes = questionsData.map(question => ({
         ...question,
         userVote: userVotes[question.id],
-      })) || [];
+        bookmarked: bookmarkedIds.has(question.id),
+      }));
 
       if (append) {
         setQuestions(prev => [...prev, ...questionsWithVotes]);
@@ -125,7 +234,7 @@ export default function Questions() {
         setQuestions(questionsWithVotes);
       }
 
-      setHasMore(questionsData?.length === QUESTIONS_PER_PAGE);
+      setHasMore(questionsData.length === QUESTIONS_PER_PAGE);
       if (!append) setPage(pageNum);
     } catch (error) {
       toast({
@@ -141,20 +250,38 @@ export default function Questions() {
   const fetchAvailableTags = async () => {
     try {
       const { data, error } = await supabase
-        .from('questions')
-        .select('tags')
-        .not('tags', 'is', null);
+        .from('tags')
+        .select('name')
+        .gt('usage_count', 0)
+        .order('usage_count', { ascending: false })
+        .limit(10);
 
       if (error) throw error;
 
-      const allTags = data.flatMap(q => q.tags || []);
-      const uniqueTags = Array.from(new Set(allTags)).sort();
-      setAvailableTags(uniqueTags);
+      setAvailableTags(data.map(t => t.name));
     } catch (error) {
       console.error('Failed to fetch tags:', error);
     }
   };
 
+  // Searches rank by relevance by default; plain listings have no relevance
+  const handleSearchChange = (value: string) => {
+    if (value.trim() && !searchTerm.trim() && (filter === 'newest' || filter === 'interesting')) {
+      setFilter('relevance');
+    } else if (!value.trim() && filter === 'relevance') {
+      setFilter('newest');
+    }
+    setSearchTerm(value);
+  };
+
+  // Questions tagged only with ignored tags are dimmed, or hidden if the user prefers
+  const visibleQuestions = profile?.hide_ignored_tags
+    ? questions.filter(q =>
+        q.tags.some(tag => tagPreferences[tag] === 'watched') ||
+        !q.tags.some(tag => tagPreferences[tag] === 'ignored')
+      )
+    : questions;
+
   const loadMore = () => {
     const nextPage = page + 1;
     setPage(nextPage);
@@ -206,9 +333,9 @@ export default function Questions() {
             <div className="relative flex-1">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
               <Input
-                placeholder="Search questions..."
+                placeholder='Search questions... e.g. [react] "use effect" is:answered score:>5'
                 value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
+                onChange={(e) => handleSearchChange(e.target.value)}
                 className="pl-10"
               />
             </div>
@@ -218,6 +345,12 @@ export default function Questions() {
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
+                {searchTerm.trim() && (
+                  <SelectItem value="relevance">Relevance</SelectItem>
+                )}
+                {user && !searchTerm.trim() && (
+                  <SelectItem value="interesting">Interesting</SelectItem>
+                )}
                 <SelectItem value="newest">Newest</SelectItem>
                 <SelectItem value="oldest">Oldest</SelectItem>
                 <SelectItem value="most_voted">Most Voted</SelectItem>
@@ -236,7 +369,7 @@ export default function Questions() {
               >
                 All Tags
               </Button>
-              {availableTags.slice(0, 10).map((tag) => (
+              {availableTags.map((tag) => (
                 <Button
                   key={tag}
                   variant={selectedTag === tag ? 'default' : 'outline'}
@@ -246,6 +379,9 @@ export default function Questions() {
                   {tag}
                 </Button>
               ))}
+              <Button variant="link" size="sm" onClick={() => navigate('/tags')}>
+                All tags
+              </Button>
             </div>
           )}
         </div>
@@ -254,18 +390,20 @@ export default function Questions() {
         {!loading && (
           <div className="mb-4">
             <p className="text-sm text-muted-foreground">
-              {questions.length} question{questions.length !== 1 ? 's' : ''} found
+              {visibleQuestions.length} question{visibleQuestions.length !== 1 ? 's' : ''} found
             </p>
           </div>
         )}
 
         {/* Questions List */}
         <div className="space-y-4">
-          {questions.map((question) => (
+          {visibleQuestions.map((question) => (
             <QuestionCard
               key={question.id}
               question={question}
               userVote={question.userVote}
+              bookmarked={question.bookmarked}
+              tagPreferences={tagPreferences}
               onVoteChange={handleVoteChange}
               onDelete={handleQuestionDelete}
               onClick={() => handleQuestionClick(question.id)}
@@ -0,0 +1,211 @@
+import { useState, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth';
+import { useProfile } from '@/hooks/useProfile';
+import { usePrivileges } from '@/hooks/usePrivileges';
+import { Header } from '@/components/layout/Header';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { CLOSE_REASON_LABELS, CLOSE_VOTES_NEEDED, CloseReason } from '@/lib/closing';
+import { LockOpen, Pencil } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+interface ClosedQuestion {
+  id: string;
+  title: string;
+  closed_reason: CloseReason | null;
+  closed_at: string;
+  edited_at: string | null;
+  reopenVoters: string[];
+}
+
+const QUEUE_SIZE = 50;
+
+export default function ReopenQueue() {
+  const { user, loading: authLoading } = useAuth();
+  const { profile, loading: profileLoading } = useProfile();
+  const { can, requirement, loading: privilegesLoading } = usePrivileges(profile);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const [questions, setQuestions] = useState<ClosedQuestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [votingId, setVotingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/auth');
+    }
+  }, [user, authLoading, navigate]);
+
+  useEffect(() => {
+    fetchQueue();
+  }, []);
+
+  const fetchQueue = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('questions')
+        .select(`
+          id,
+          title,
+          closed_reason,
+          closed_at,
+          edited_at,
+          close_votes!close_votes_question_id_fkey (
+            user_id,
+            kind
+          )
+        `)
+        .not('closed_at', 'is', null)
+        .is('deleted_at', null)
+        .order('closed_at', { ascending: false })
+        .limit(QUEUE_SIZE);
+
+      if (error) throw error;
+
+      const queue = (data || []).map(q => ({
+        id: q.id,
+        title: q.title,
+        closed_reason: q.closed_reason,
+        closed_at: q.closed_at,
+        edited_at: q.edited_at,
+        reopenVoters: q.close_votes.filter(v => v.kind === 'reopen').map(v => v.user_id),
+      }));
+
+      // Questions closest to reopening first, then ones improved since closing
+      queue.sort((a, b) =>
+        b.reopenVoters.length - a.reopenVoters.length ||
+        Number(editedSinceClosing(b)) - Number(editedSinceClosing(a))
+      );
+      setQuestions(queue);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to fetch reopen queue",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleVote = async (question: ClosedQuestion) => {
+    if (!user) return;
+
+    setVotingId(question.id);
+    try {
+      const voted = question.reopenVoters.includes(user.id);
+      const { error } = voted
+        ? await supabase
+            .from('close_votes')
+            .delete()
+            .eq('question_id', question.id)
+            .eq('user_id', user.id)
+            .eq('kind', 'reopen')
+        : await supabase
+            .from('close_votes')
+            .insert({ question_id: question.id, user_id: user.id, kind: 'reopen' });
+
+      if (error) throw error;
+      await fetchQueue();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to vote to reopen",
+        variant: "destructive",
+      });
+    } finally {
+      setVotingId(null);
+    }
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  const allowed = can('close_vote');
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8 max-w-3xl">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+            Reopen Queue
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Closed questions that may deserve another chance. {CLOSE_VOTES_NEEDED} votes reopen a question.
+          </p>
+        </div>
+
+        {!profileLoading && !privilegesLoading && !allowed ? (
+          <div className="text-center py-12">
+            <LockOpen className="w-10 h-10 text-muted-foreground mx-auto mb-3" />
+            <p className="text-muted-foreground">{requirement('close_vote')}.</p>
+          </div>
+        ) : loading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+            <p className="text-muted-foreground mt-2">Loading queue...</p>
+          </div>
+        ) : questions.length === 0 ? (
+          <div className="text-center py-12">
+            <h3 className="text-lg font-semibold mb-2">Nothing to review</h3>
+            <p className="text-muted-foreground">There are no closed questions right now.</p>
+          </div>
+        ) : (
+          <div className="bg-gradient-card rounded-xl shadow-lg divide-y">
+            {questions.map((question) => {
+              const voted = question.reopenVoters.includes(user.id);
+
+              return (
+                <div key={question.id} className="flex items-center gap-4 p-4">
+                  <div className="flex-1 min-w-0">
+                    <Link
+                      to={`/questions/${question.id}`}
+                      className="font-medium hover:text-primary transition-colors line-clamp-2"
+                    >
+                      {question.title}
+                    </Link>
+                    <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-muted-foreground">
+                      {question.closed_reason && (
+                        <Badge variant="outline">{CLOSE_REASON_LABELS[question.closed_reason]}</Badge>
+                      )}
+                      <span>closed {formatDistanceToNow(new Date(question.closed_at), { addSuffix: true })}</span>
+                      {editedSinceClosing(question) && (
+                        <span className="flex items-center gap-1 text-primary">
+                          <Pencil className="w-3 h-3" />
+                          edited since closing
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <span className="text-sm text-muted-foreground shrink-0">
+                    {question.reopenVoters.length}/{CLOSE_VOTES_NEEDED}
+                  </span>
+                  <Button
+                    variant={voted ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => handleVote(question)}
+                    disabled={votingId === question.id}
+                  >
+                    <LockOpen className="w-4 h-4 mr-1" />
+                    {voted ? 'Retract' : 'Reopen'}
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
+
+function editedSinceClosing(question: ClosedQuestion) {
+  return !!question.edited_at && new Date(question.edited_at) > new Date(question.closed_at);
+}
@@ -0,0 +1,317 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth';
+import { useProfile } from '@/hooks/useProfile';
+import { usePrivileges } from '@/hooks/usePrivileges';
+import { Header } from '@/components/layout/Header';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { RevisionDiff, DiffMode } from '@/components/revisions/RevisionDiff';
+import { MarkdownContent } from '@/components/markdown/MarkdownContent';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowLeft, History, RotateCcw } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+interface Revision {
+  id: string;
+  revision_number: number;
+  created_at: string;
+  title?: string;
+  body: string;
+  tags?: string[];
+  profiles: {
+    username: string;
+    full_name: string;
+    avatar_url?: string;
+  };
+}
+
+export default function Revisions() {
+  const { id, answerId } = useParams<{ id: string; answerId?: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { profile } = useProfile();
+  const { can } = usePrivileges(profile);
+  const { toast } = useToast();
+
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [authorId, setAuthorId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [mode, setMode] = useState<DiffMode>('inline');
+  const [rollingBack, setRollingBack] = useState(false);
+
+  const isAnswer = Boolean(answerId);
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [id, answerId]);
+
+  const fetchRevisions = async () => {
+    try {
+      if (answerId) {
+        const [{ data: answer, error: answerError }, { data, error }] = await Promise.all([
+          supabase.from('answers').select('user_id').eq('id', answerId).single(),
+          supabase
+            .from('answer_revisions')
+            .select(`
+              *,
+              profiles!answer_revisions_edited_by_fkey (
+                username,
+                full_name,
+                avatar_url
+              )
+            `)
+            .eq('answer_id', answerId)
+            .order('revision_number', { ascending: false }),
+        ]);
+
+        if (answerError) throw answerError;
+        if (error) throw error;
+
+        setAuthorId(answer.user_id);
+        setRevisions((data || []).map(revision => ({
+          id: revision.id,
+          revision_number: revision.revision_number,
+          created_at: revision.created_at,
+          body: revision.content,
+          profiles: revision.profiles,
+        })));
+      } else {
+        const [{ data: question, error: questionError }, { data, error }] = await Promise.all([
+          supabase.from('questions').select('user_id').eq('id', id).single(),
+          supabase
+            .from('question_revisions')
+            .select(`
+              *,
+              profiles!question_revisions_edited_by_fkey (
+                username,
+                full_name,
+                avatar_url
+              )
+            `)
+            .eq('question_id', id)
+            .order('revision_number', { ascending: false }),
+        ]);
+
+        if (questionError) throw questionError;
+        if (error) throw error;
+
+        setAuthorId(question.user_id);
+        setRevisions((data || []).map(revision => ({
+          id: revision.id,
+          revision_number: revision.revision_number,
+          created_at: revision.created_at,
+          title: revision.title,
+          body: revision.description,
+          tags: revision.tags || [],
+          profiles: revision.profiles,
+        })));
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to fetch revisions",
+        variant: "destructive",
+      });
+      navigate(`/questions/${id}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const canRollback = !!user && (user.id === authorId || can('edit_others'));
+
+  const handleRollback = async (revision: Revision) => {
+    if (!canRollback) return;
+
+    setRollingBack(true);
+    try {
+      const { error } = answerId
+        ? await supabase
+            .from('answers')
+            .update({ content: revision.body })
+            .eq('id', answerId)
+        : await supabase
+            .from('questions')
+            .update({ title: revision.title, description: revision.body, tags: revision.tags })
+            .eq('id', id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Rolled back",
+        description: `Restored revision ${revision.revision_number}.`,
+      });
+
+      await fetchRevisions();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to roll back",
+        variant: "destructive",
+      });
+    } finally {
+      setRollingBack(false);
+    }
+  };
+
+  const getInitials = (name: string) => {
+    return name
+      .split(' ')
+      .map(n => n[0])
+      .join('')
+      .toUpperCase()
+      .slice(0, 2);
+  };
+
+  const latestNumber = revisions[0]?.revision_number;
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-8">
+          <div>
+            <Link
+              to={`/questions/${id}`}
+              className="inline-flex items-center text-sm text-muted-foreground hover:text-primary mb-2"
+            >
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              Back to question
+            </Link>
+            <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent flex items-center gap-2">
+              <History className="w-7 h-7 text-primary" />
+              {isAnswer ? 'Answer' : 'Question'} Revisions
+            </h1>
+          </div>
+          <Tabs value={mode} onValueChange={(value) => setMode(value as DiffMode)}>
+            <TabsList>
+              <TabsTrigger value="inline">Inline</TabsTrigger>
+              <TabsTrigger value="side-by-side">Side-by-side</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+            <p className="text-muted-foreground mt-2">Loading revisions...</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {revisions.map((revision, index) => {
+              const previous = revisions[index + 1];
+              const isLatest = revision.revision_number === latestNumber;
+
+              return (
+                <div key={revision.id} className="bg-gradient-card rounded-xl p-6 shadow-lg space-y-4">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-3">
+                      <Badge variant={isLatest ? 'default' : 'secondary'}>
+                        {revision.revision_number === 1 ? 'Original' : `Revision ${revision.revision_number}`}
+                      </Badge>
+                      {isLatest && (
+                        <span className="text-xs text-muted-foreground">Current</span>
+                      )}
+                    </div>
+
+                    <div className="flex items-center space-x-3">
+                      <div className="flex items-center space-x-2">
+                        <Avatar className="h-6 w-6">
+                          <AvatarImage src={revision.profiles.avatar_url} />
+                          <AvatarFallback className="text-xs bg-gradient-primary text-primary-foreground">
+                            {getInitials(revision.profiles.full_name)}
+                          </AvatarFallback>
+                        </Avatar>
+                        <span className="text-sm text-muted-foreground">
+                          <Link to={`/users/${revision.profiles.username}`} className="hover:text-primary transition-colors">
+                            @{revision.profiles.username}
+                          </Link>
+                          {' '}· {formatDistanceToNow(new Date(revision.created_at), { addSuffix: true })}
+                        </span>
+                      </div>
+
+                      {canRollback && !isLatest && (
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="outline" size="sm" disabled={rollingBack}>
+                              <RotateCcw className="w-4 h-4 mr-1" />
+                              Roll back
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Roll back to this revision?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                The content of revision {revision.revision_number} will be restored as a new revision. No history is lost.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => handleRollback(revision)}>
+                                Roll back
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      )}
+                    </div>
+                  </div>
+
+                  {previous ? (
+                    <>
+                      {!isAnswer && previous.title !== revision.title && (
+                        <RevisionDiff before={previous.title || ''} after={revision.title || ''} mode={mode} />
+                      )}
+                      {previous.body !== revision.body && (
+                        <RevisionDiff before={previous.body} after={revision.body} mode={mode} />
+                      )}
+                      {!isAnswer && previous.tags?.join(' ') !== revision.tags?.join(' ') && (
+                        <RevisionDiff
+                          before={(previous.tags || []).join(' ')}
+                          after={(revision.tags || []).join(' ')}
+                          mode={mode}
+                        />
+                      )}
+                    </>
+                  ) : (
+                    <>
+                      {revision.title && (
+                        <h2 className="text-xl font-semibold">{revision.title}</h2>
+                      )}
+                      <MarkdownContent source={revision.body} tags={revision.tags} />
+                      {revision.tags && revision.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                          {revision.tags.map((tag) => (
+                            <Badge key={tag} variant="secondary">
+                              {tag}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
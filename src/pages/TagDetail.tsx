@@ -0,0 +1,407 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth';
+import { useProfile } from '@/hooks/useProfile';
+import { usePrivileges } from '@/hooks/usePrivileges';
+import { useTagPreferences, TagPreference } from '@/hooks/useTagPreferences';
+import { Header } from '@/components/layout/Header';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { MarkdownContent } from '@/components/markdown/MarkdownContent';
+import { MarkdownEditor } from '@/components/markdown/MarkdownEditor';
+import { QuestionCard, Question, UserVote } from '@/components/questions/QuestionCard';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowLeft, Pencil, Eye, EyeOff } from 'lucide-react';
+
+interface TagInfo {
+  id: string;
+  name: string;
+  excerpt: string | null;
+  wiki: string | null;
+  usage_count: number;
+  tag_synonyms: { synonym: string }[];
+}
+
+interface QuestionWithVote extends Question {
+  userVote?: UserVote;
+  bookmarked?: boolean;
+}
+
+type TagQuestionSort = 'newest' | 'most_voted';
+
+const QUESTIONS_PER_PAGE = 20;
+const MAX_EXCERPT_LENGTH = 300;
+
+export default function TagDetail() {
+  const { name } = useParams<{ name: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { profile } = useProfile();
+  const { can } = usePrivileges(profile);
+  const { preferences, setPreference } = useTagPreferences();
+  const { toast } = useToast();
+
+  const [tag, setTag] = useState<TagInfo | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [questions, setQuestions] = useState<QuestionWithVote[]>([]);
+  const [questionsLoading, setQuestionsLoading] = useState(true);
+  const [sort, setSort] = useState<TagQuestionSort>('newest');
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [excerpt, setExcerpt] = useState('');
+  const [wiki, setWiki] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const tagName = (name || '').toLowerCase();
+  const canEdit = can('edit_others');
+  const preference = preferences[tagName];
+
+  useEffect(() => {
+    if (tagName) {
+      fetchTag();
+    }
+  }, [tagName]);
+
+  useEffect(() => {
+    if (tagName) {
+      fetchQuestions();
+    }
+  }, [tagName, sort, user]);
+
+  const fetchTag = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('tags')
+        .select('id, name, excerpt, wiki, usage_count, tag_synonyms (synonym)')
+        .eq('name', tagName)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      if (!data) {
+        // Send synonyms to their canonical tag
+        const { data: synonym } = await supabase
+          .from('tag_synonyms')
+          .select('tags (name)')
+          .eq('synonym', tagName)
+          .maybeSingle();
+
+        if (synonym?.tags) {
+          navigate(`/tags/${encodeURIComponent(synonym.tags.name)}`, { replace: true });
+          return;
+        }
+      }
+
+      setTag(data);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to fetch tag",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchQuestions = async (pageNum = 1, append = false) => {
+    setQuestionsLoading(true);
+    try {
+      const { data: questionsData, error } = await supabase
+        .from('questions')
+        .select(`
+          *,
+          profiles!questions_user_id_fkey (
+            username,
+            full_name,
+            avatar_url,
+            reputation
+          )
+        `)
+        .contains('tags', [tagName])
+        .is('deleted_at', null)
+        .order(sort === 'most_voted' ? 'score' : 'created_at', { ascending: false })
+        .range((pageNum - 1) * QUESTIONS_PER_PAGE, pageNum * QUESTIONS_PER_PAGE - 1);
+
+      if (error) throw error;
+
+      let userVotes: { [key: string]: UserVote } = {};
+      let bookmarkedIds = new Set<string>();
+      if (user && questionsData && questionsData.length > 0) {
+        const questionIds = questionsData.map(q => q.id);
+        const [{ data: votesData }, { data: bookmarksData }] = await Promise.all([
+          supabase
+            .from('votes')
+            .select('question_id, vote_type')
+            .eq('user_id', user.id)
+            .in('question_id', questionIds),
+          supabase
+            .from('bookmarks')
+            .select('question_id')
+            .eq('user_id', user.id)
+            .in('question_id', questionIds),
+        ]);
+
+        userVotes = (votesData || []).reduce((acc, vote) => {
+          acc[vote.question_id] = { vote_type: vote.vote_type };
+          return acc;
+        }, {} as { [key: string]: UserVote });
+        bookmarkedIds = new Set((bookmarksData || []).map(b => b.question_id));
+      }
+
+      const questionsWithVotes = (questionsData || []).map(question => ({
+        ...question,
+        userVote: userVotes[question.id],
+        bookmarked: bookmarkedIds.has(question.id),
+      }));
+
+      if (append) {
+        setQuestions(prev => [...prev, ...questionsWithVotes]);
+      } else {
+        setQuestions(questionsWithVotes);
+      }
+      setHasMore(questionsData?.length === QUESTIONS_PER_PAGE);
+      setPage(pageNum);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to fetch questions",
+        variant: "destructive",
+      });
+    } finally {
+      setQuestionsLoading(false);
+    }
+  };
+
+  // Clicking the active preference again clears it
+  const togglePreference = async (next: TagPreference) => {
+    const { error } = await setPreference(tagName, preference === next ? null : next);
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update tag preference",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const startEditing = () => {
+    if (!tag) return;
+    setExcerpt(tag.excerpt || '');
+    setWiki(tag.wiki || '');
+    setEditing(true);
+  };
+
+  const handleSave = async () => {
+    if (!tag) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('tags')
+        .update({
+          excerpt: excerpt.trim() || null,
+          wiki: wiki.trim() || null,
+        })
+        .eq('id', tag.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Tag updated",
+        description: "The tag description has been saved.",
+      });
+
+      setEditing(false);
+      await fetchTag();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update tag",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-subtle">
+        <Header />
+        <div className="container mx-auto px-4 py-8">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+            <p className="text-muted-foreground mt-2">Loading tag...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8 max-w-4xl">
+        <Link
+          to="/tags"
+          className="inline-flex items-center space-x-1 text-sm text-muted-foreground hover:text-primary mb-4"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          <span>All tags</span>
+        </Link>
+
+        <div className="bg-gradient-card rounded-xl p-6 mb-6 shadow-lg">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h1 className="text-2xl font-bold text-foreground">
+                Questions tagged <Badge variant="secondary" className="text-lg align-middle">{tagName}</Badge>
+              </h1>
+              <p className="text-sm text-muted-foreground mt-2">
+                {tag ? tag.usage_count : 0} {tag?.usage_count === 1 ? 'question' : 'questions'}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              {user && (
+                <>
+                  <Button
+                    variant={preference === 'watched' ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => togglePreference('watched')}
+                  >
+                    <Eye className="w-4 h-4 mr-1" />
+                    {preference === 'watched' ? 'Watching' : 'Watch'}
+                  </Button>
+                  <Button
+                    variant={preference === 'ignored' ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => togglePreference('ignored')}
+                  >
+                    <EyeOff className="w-4 h-4 mr-1" />
+                    {preference === 'ignored' ? 'Ignored' : 'Ignore'}
+                  </Button>
+                </>
+              )}
+              {tag && canEdit && !editing && (
+                <Button variant="ghost" size="sm" onClick={startEditing}>
+                  <Pencil className="w-4 h-4 mr-1" />
+                  Edit
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {editing ? (
+            <div className="space-y-4 mt-4">
+              <div>
+                <Label htmlFor="excerpt">Excerpt</Label>
+                <Textarea
+                  id="excerpt"
+                  value={excerpt}
+                  onChange={(e) => setExcerpt(e.target.value)}
+                  maxLength={MAX_EXCERPT_LENGTH}
+                  rows={3}
+                  placeholder="A short summary of what this tag is about"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  {excerpt.length}/{MAX_EXCERPT_LENGTH} characters
+                </p>
+              </div>
+              <div>
+                <Label htmlFor="wiki">Wiki</Label>
+                <MarkdownEditor
+                  id="wiki"
+                  value={wiki}
+                  onChange={setWiki}
+                  placeholder="Usage guidance, background and useful links"
+                  disabled={saving}
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button variant="hero" size="sm" onClick={handleSave} disabled={saving}>
+                  {saving ? "Saving..." : "Save"}
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setEditing(false)} disabled={saving}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <>
+              <p className="text-foreground/90 mt-4">
+                {tag?.excerpt || 'This tag has no description yet.'}
+              </p>
+              {tag?.wiki && (
+                <MarkdownContent source={tag.wiki} className="mt-4" />
+              )}
+              {tag && tag.tag_synonyms.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2 mt-4 text-sm text-muted-foreground">
+                  <span>Synonyms:</span>
+                  {tag.tag_synonyms.map(({ synonym }) => (
+                    <Badge key={synonym} variant="outline">{synonym}</Badge>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold">Questions</h2>
+          <Tabs value={sort} onValueChange={(value) => setSort(value as TagQuestionSort)}>
+            <TabsList>
+              <TabsTrigger value="newest">Newest</TabsTrigger>
+              <TabsTrigger value="most_voted">Most Voted</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+
+        <div className="space-y-4">
+          {questions.map((question) => (
+            <QuestionCard
+              key={question.id}
+              question={question}
+              userVote={question.userVote}
+              bookmarked={question.bookmarked}
+              tagPreferences={preferences}
+              onVoteChange={() => fetchQuestions()}
+              onDelete={() => fetchQuestions()}
+              onClick={() => navigate(`/questions/${question.id}`)}
+            />
+          ))}
+        </div>
+
+        {questionsLoading && questions.length === 0 && (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+            <p className="text-muted-foreground mt-2">Loading questions...</p>
+          </div>
+        )}
+
+        {!questionsLoading && questions.length === 0 && (
+          <div className="text-center py-12">
+            <h3 className="text-lg font-semibold mb-2">No questions yet</h3>
+            <p className="text-muted-foreground">
+              Nobody has asked a question with this tag.
+            </p>
+          </div>
+        )}
+
+        {hasMore && (
+          <div className="text-center mt-8">
+            <Button variant="outline" onClick={() => fetchQuestions(page + 1, true)} disabled={questionsLoading}>
+              {questionsLoading ? "Loading..." : "Load More"}
+            </Button>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
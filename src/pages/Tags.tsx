@@ -0,0 +1,177 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Header } from '@/components/layout/Header';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Search, Filter } from 'lucide-react';
+
+interface TagSummary {
+  id: string;
+  name: string;
+  excerpt: string | null;
+  usage_count: number;
+}
+
+type TagSort = 'popular' | 'name' | 'new';
+
+const TAGS_PER_PAGE = 36;
+
+export default function Tags() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [tags, setTags] = useState<TagSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [sort, setSort] = useState<TagSort>('popular');
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => {
+      fetchTags();
+    }, searchTerm ? 300 : 0);
+    return () => clearTimeout(timeoutId);
+  }, [searchTerm, sort]);
+
+  const fetchTags = async (pageNum = 1, append = false) => {
+    try {
+      setLoading(true);
+
+      let query = supabase
+        .from('tags')
+        .select('id, name, excerpt, usage_count')
+        .range((pageNum - 1) * TAGS_PER_PAGE, pageNum * TAGS_PER_PAGE - 1);
+
+      if (searchTerm.trim()) {
+        // Escape LIKE wildcards so "_" in tag names matches literally
+        const pattern = `%${searchTerm.trim().toLowerCase().replace(/[\\%_]/g, '\\$&')}%`;
+        query = query.ilike('name', pattern);
+      }
+
+      switch (sort) {
+        case 'popular':
+          query = query.order('usage_count', { ascending: false }).order('name');
+          break;
+        case 'name':
+          query = query.order('name');
+          break;
+        case 'new':
+          query = query.order('created_at', { ascending: false });
+          break;
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      if (append) {
+        setTags(prev => [...prev, ...(data || [])]);
+      } else {
+        setTags(data || []);
+      }
+      setHasMore(data?.length === TAGS_PER_PAGE);
+      setPage(pageNum);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to fetch tags",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8 max-w-5xl">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+            Tags
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Browse topics and find questions in the areas you know best
+          </p>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-4 mb-6">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+            <Input
+              placeholder="Filter by tag name..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          <Select value={sort} onValueChange={(value) => setSort(value as TagSort)}>
+            <SelectTrigger className="w-full sm:w-48">
+              <Filter className="w-4 h-4 mr-2" />
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="popular">Popular</SelectItem>
+              <SelectItem value="name">Name</SelectItem>
+              <SelectItem value="new">New</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {tags.map((tag) => (
+            <Card
+              key={tag.id}
+              className="hover:shadow-lg transition-all duration-200 bg-gradient-card cursor-pointer"
+              onClick={() => navigate(`/tags/${encodeURIComponent(tag.name)}`)}
+            >
+              <CardHeader className="pb-2">
+                <div>
+                  <Badge variant="secondary">{tag.name}</Badge>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <p className="text-sm text-muted-foreground line-clamp-3 min-h-[3.75rem]">
+                  {tag.excerpt || 'No description yet.'}
+                </p>
+                <p className="text-xs text-muted-foreground mt-3">
+                  {tag.usage_count} {tag.usage_count === 1 ? 'question' : 'questions'}
+                </p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {loading && tags.length === 0 && (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+            <p className="text-muted-foreground mt-2">Loading tags...</p>
+          </div>
+        )}
+
+        {!loading && tags.length === 0 && (
+          <div className="text-center py-12">
+            <h3 className="text-lg font-semibold mb-2">No tags found</h3>
+            <p className="text-muted-foreground">
+              Try a different search term.
+            </p>
+          </div>
+        )}
+
+        {hasMore && (
+          <div className="text-center mt-8">
+            <Button variant="outline" onClick={() => fetchTags(page + 1, true)} disabled={loading}>
+              {loading ? "Loading..." : "Load More"}
+            </Button>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
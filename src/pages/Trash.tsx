@@ -0,0 +1,223 @@
+import { useState, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth';
+import { useProfile } from '@/hooks/useProfile';
+import { Header } from '@/components/layout/Header';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { canUndelete, purgeDate, PURGE_AFTER_DAYS } from '@/lib/deletion';
+import { markdownToPlainText } from '@/lib/markdown';
+import { isModerator } from '@/lib/roles';
+import { Trash2, RotateCcw } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+
+interface DeletedPost {
+  id: string;
+  kind: 'question' | 'answer';
+  questionId: string;
+  title: string;
+  excerpt: string | null;
+  user_id: string;
+  deleted_at: string;
+  deleted_by: string | null;
+}
+
+export default function Trash() {
+  const { user, loading: authLoading } = useAuth();
+  const { profile, loading: profileLoading } = useProfile();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const [posts, setPosts] = useState<DeletedPost[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const canModerate = isModerator(profile);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/auth');
+    }
+  }, [user, authLoading, navigate]);
+
+  useEffect(() => {
+    if (user && !profileLoading) {
+      fetchTrash();
+    }
+  }, [user, profileLoading]);
+
+  // Users see their own deleted posts; admins see everyone's
+  const fetchTrash = async () => {
+    if (!user) return;
+
+    try {
+      let questionsQuery = supabase
+        .from('questions')
+        .select('id, title, user_id, deleted_at, deleted_by')
+        .not('deleted_at', 'is', null)
+        .order('deleted_at', { ascending: false });
+
+      let answersQuery = supabase
+        .from('answers')
+        .select(`
+          id,
+          content,
+          question_id,
+          user_id,
+          deleted_at,
+          deleted_by,
+          questions!answers_question_id_fkey (
+            title
+          )
+        `)
+        .not('deleted_at', 'is', null)
+        .order('deleted_at', { ascending: false });
+
+      if (!canModerate) {
+        questionsQuery = questionsQuery.eq('user_id', user.id);
+        answersQuery = answersQuery.eq('user_id', user.id);
+      }
+
+      const [questionsResult, answersResult] = await Promise.all([questionsQuery, answersQuery]);
+
+      if (questionsResult.error) throw questionsResult.error;
+      if (answersResult.error) throw answersResult.error;
+
+      const deleted: DeletedPost[] = [
+        ...(questionsResult.data || []).map(q => ({
+          id: q.id,
+          kind: 'question' as const,
+          questionId: q.id,
+          title: q.title,
+          excerpt: null,
+          user_id: q.user_id,
+          deleted_at: q.deleted_at,
+          deleted_by: q.deleted_by,
+        })),
+        ...(answersResult.data || []).map(a => ({
+          id: a.id,
+          kind: 'answer' as const,
+          questionId: a.question_id,
+          title: a.questions?.title ?? 'Deleted question',
+          excerpt: markdownToPlainText(a.content),
+          user_id: a.user_id,
+          deleted_at: a.deleted_at,
+          deleted_by: a.deleted_by,
+        })),
+      ];
+
+      deleted.sort((a, b) => new Date(b.deleted_at).getTime() - new Date(a.deleted_at).getTime());
+      setPosts(deleted);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to fetch deleted posts",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUndelete = async (post: DeletedPost) => {
+    setRestoringId(post.id);
+    try {
+      const { error } = await supabase.rpc('undelete_post', post.kind === 'answer'
+        ? { _answer_id: post.id }
+        : { _question_id: post.id });
+
+      if (error) throw error;
+
+      toast({
+        title: post.kind === 'answer' ? "Answer restored" : "Question restored",
+        description: "It is visible to everyone again.",
+      });
+
+      setPosts(prev => prev.filter(p => p.id !== post.id));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: `Failed to undelete ${post.kind}`,
+        variant: "destructive",
+      });
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8 max-w-3xl">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+            Trash
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            {canModerate ? 'Deleted posts across the site.' : 'Posts you have deleted.'} They are removed
+            permanently {PURGE_AFTER_DAYS} days after deletion.
+          </p>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+            <p className="text-muted-foreground mt-2">Loading trash...</p>
+          </div>
+        ) : posts.length === 0 ? (
+          <div className="text-center py-12">
+            <Trash2 className="w-10 h-10 text-muted-foreground mx-auto mb-3" />
+            <h3 className="text-lg font-semibold mb-2">Trash is empty</h3>
+            <p className="text-muted-foreground">Deleted questions and answers will appear here.</p>
+          </div>
+        ) : (
+          <div className="bg-gradient-card rounded-xl shadow-lg divide-y">
+            {posts.map((post) => (
+              <div key={post.id} className="flex items-start gap-4 p-4">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className="shrink-0">
+                      {post.kind === 'answer' ? 'Answer' : 'Question'}
+                    </Badge>
+                    <Link
+                      to={post.kind === 'answer' ? `/questions/${post.questionId}#answer-${post.id}` : `/questions/${post.questionId}`}
+                      className="font-medium hover:text-primary transition-colors truncate"
+                    >
+                      {post.title}
+                    </Link>
+                  </div>
+                  {post.excerpt && (
+                    <p className="text-sm text-muted-foreground mt-1 line-clamp-2">{post.excerpt}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Deleted {formatDistanceToNow(new Date(post.deleted_at), { addSuffix: true })}
+                    {!post.deleted_by ? ' after spam flags' : post.deleted_by !== post.user_id && ' by a moderator'}
+                    {' · '}removed on {format(purgeDate(post.deleted_at), 'MMM d, yyyy')}
+                  </p>
+                </div>
+                {canUndelete(post, user.id, canModerate) && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleUndelete(post)}
+                    disabled={restoringId === post.id}
+                  >
+                    <RotateCcw className="w-4 h-4 mr-1" />
+                    Undelete
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate, useSearchParams, Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth';
+import { Header } from '@/components/layout/Header';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { BadgeShowcase } from '@/components/badges/BadgeShowcase';
+import { UserPostList } from '@/components/users/UserPostList';
+import { UserActivity } from '@/components/users/UserActivity';
+import { SavedItems } from '@/components/bookmarks/SavedItems';
+import { Calendar, Trophy, Settings, Tag } from 'lucide-react';
+
+interface PublicProfile {
+  user_id: string;
+  username: string;
+  full_name: string;
+  avatar_url: string | null;
+  bio: string | null;
+  reputation: number;
+  created_at: string;
+}
+
+interface TopTag {
+  tag: string;
+  post_count: number;
+  score: number;
+}
+
+export default function UserProfile() {
+  const { username } = useParams<{ username: string }>();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { user } = useAuth();
+  const [profile, setProfile] = useState<PublicProfile | null>(null);
+  const [topTags, setTopTags] = useState<TopTag[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+
+  useEffect(() => {
+    if (username) {
+      fetchProfile();
+    }
+  }, [username]);
+
+  const fetchProfile = async () => {
+    setLoading(true);
+    setNotFound(false);
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('user_id, username, full_name, avatar_url, bio, reputation, created_at')
+        .eq('username', username)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) {
+        setNotFound(true);
+        return;
+      }
+      setProfile(data);
+
+      const { data: tagsData, error: tagsError } = await supabase
+        .rpc('get_user_top_tags', { _user_id: data.user_id, _limit: 8 });
+
+      if (tagsError) throw tagsError;
+      setTopTags(tagsData || []);
+    } catch (error) {
+      console.error('Error fetching user profile:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getInitials = (name: string) => {
+    return name
+      .split(' ')
+      .map(n => n[0])
+      .join('')
+      .toUpperCase()
+      .slice(0, 2);
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-subtle">
+        <Header />
+        <div className="container mx-auto px-4 py-8">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+            <p className="text-muted-foreground mt-2">Loading profile...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (notFound || !profile) {
+    return (
+      <div className="min-h-screen bg-gradient-subtle">
+        <Header />
+        <div className="container mx-auto px-4 py-8 text-center">
+          <h3 className="text-lg font-semibold mb-2">User not found</h3>
+          <p className="text-muted-foreground mb-4">
+            There is no user called @{username}.
+          </p>
+          <Button variant="outline" onClick={() => navigate('/')}>
+            Back to questions
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const isOwnProfile = user?.id === profile.user_id;
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8 max-w-5xl">
+        {/* Profile header */}
+        <div className="bg-gradient-card rounded-xl p-6 mb-6 shadow-lg">
+          <div className="flex flex-col sm:flex-row items-start gap-6">
+            <Avatar className="h-24 w-24">
+              <AvatarImage src={profile.avatar_url ?? undefined} />
+              <AvatarFallback className="text-2xl bg-gradient-primary text-primary-foreground">
+                {getInitials(profile.full_name || profile.username)}
+              </AvatarFallback>
+            </Avatar>
+
+            <div className="flex-1 min-w-0">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <h1 className="text-2xl font-bold text-foreground">
+                    {profile.full_name || profile.username}
+                  </h1>
+                  <p className="text-muted-foreground">@{profile.username}</p>
+                </div>
+                {isOwnProfile && (
+                  <Button variant="outline" size="sm" onClick={() => navigate('/profile')}>
+                    <Settings className="w-4 h-4 mr-1" />
+                    Edit profile
+                  </Button>
+                )}
+              </div>
+
+              {profile.bio && (
+                <p className="mt-3 whitespace-pre-wrap text-foreground/90">{profile.bio}</p>
+              )}
+
+              <div className="flex flex-wrap items-center gap-4 mt-4 text-sm text-muted-foreground">
+                <span className="flex items-center space-x-1">
+                  <Trophy className="w-4 h-4" />
+                  <span>
+                    <span className="font-semibold text-foreground">{profile.reputation.toLocaleString()}</span> reputation
+                  </span>
+                </span>
+                <span className="flex items-center space-x-1">
+                  <Calendar className="w-4 h-4" />
+                  <span>
+                    Member since {new Date(profile.created_at).toLocaleDateString('en-US', {
+                      year: 'numeric',
+                      month: 'long',
+                      day: 'numeric'
+                    })}
+                  </span>
+                </span>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          <div className="lg:col-span-2">
+            <Tabs
+              value={searchParams.get('tab') || 'answers'}
+              onValueChange={(tab) => setSearchParams({ tab }, { replace: true })}
+            >
+              <TabsList>
+                <TabsTrigger value="answers">Answers</TabsTrigger>
+                <TabsTrigger value="questions">Questions</TabsTrigger>
+                <TabsTrigger value="activity">Activity</TabsTrigger>
+                {isOwnProfile && <TabsTrigger value="saved">Saved</TabsTrigger>}
+              </TabsList>
+              <Card className="bg-gradient-card shadow-lg mt-2">
+                <CardContent className="pt-6">
+                  <TabsContent value="answers" className="mt-0">
+                    <UserPostList userId={profile.user_id} kind="answers" />
+                  </TabsContent>
+                  <TabsContent value="questions" className="mt-0">
+                    <UserPostList userId={profile.user_id} kind="questions" />
+                  </TabsContent>
+                  <TabsContent value="activity" className="mt-0">
+                    <UserActivity userId={profile.user_id} />
+                  </TabsContent>
+                  {isOwnProfile && (
+                    <TabsContent value="saved" className="mt-0">
+                      <SavedItems />
+                    </TabsContent>
+                  )}
+                </CardContent>
+              </Card>
+            </Tabs>
+          </div>
+
+          <div className="space-y-6">
+            <Card className="bg-gradient-card shadow-lg">
+              <CardHeader>
+                <CardTitle className="text-lg">Badges</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <BadgeShowcase userId={profile.user_id} />
+              </CardContent>
+            </Card>
+
+            <Card className="bg-gradient-card shadow-lg">
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2 text-lg">
+                  <Tag className="w-4 h-4" />
+                  <span>Top Tags</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {topTags.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No tagged posts yet.</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {topTags.map((tag) => (
+                      <li key={tag.tag} className="flex items-center justify-between text-sm">
+                        <Link to={`/tags/${encodeURIComponent(tag.tag)}`}>
+                          <Badge variant="secondary" className="hover:bg-secondary/60">{tag.tag}</Badge>
+                        </Link>
+                        <span className="text-muted-foreground">
+                          <span className="font-medium text-foreground">{tag.score}</span> score · {tag.post_count} {tag.post_count === 1 ? 'post' : 'posts'}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+-- Track when a post's content (not its counters) was last edited
+ALTER TABLE public.questions ADD COLUMN edited_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.answers ADD COLUMN edited_at TIMESTAMP WITH TIME ZONE;
+
+-- Create revision history tables
+CREATE TABLE public.question_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  question_id UUID NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL,
+  title VARCHAR(255) NOT NULL,
+  description TEXT NOT NULL,
+  tags TEXT[] DEFAULT '{}',
+  edited_by UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT unique_question_revision UNIQUE (question_id, revision_number)
+);
+
+CREATE TABLE public.answer_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  answer_id UUID NOT NULL REFERENCES public.answers(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  edited_by UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT unique_answer_revision UNIQUE (answer_id, revision_number)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.question_revisions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.answer_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Revisions are written only by triggers, so clients get read access only
+CREATE POLICY "Question revisions are viewable by everyone"
+  ON public.question_revisions FOR SELECT
+  USING (true);
+
+CREATE POLICY "Answer revisions are viewable by everyone"
+  ON public.answer_revisions FOR SELECT
+  USING (true);
+
+CREATE INDEX idx_question_revisions_question_id ON public.question_revisions(question_id, revision_number DESC);
+CREATE INDEX idx_answer_revisions_answer_id ON public.answer_revisions(answer_id, revision_number DESC);
+
+-- Stamp edited_at when the content of a question changes
+CREATE OR REPLACE FUNCTION public.mark_question_edited()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.title IS DISTINCT FROM NEW.title
+    OR OLD.description IS DISTINCT FROM NEW.description
+    OR OLD.tags IS DISTINCT FROM NEW.tags THEN
+    NEW.edited_at = NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION public.mark_answer_edited()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.content IS DISTINCT FROM NEW.content THEN
+    NEW.edited_at = NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER mark_question_edited_trigger BEFORE UPDATE ON public.questions
+  FOR EACH ROW EXECUTE FUNCTION public.mark_question_edited();
+
+CREATE TRIGGER mark_answer_edited_trigger BEFORE UPDATE ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.mark_answer_edited();
+
+-- Function to record question revisions (revision 1 is the original post)
+CREATE OR REPLACE FUNCTION public.record_question_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.question_revisions (question_id, revision_number, title, description, tags, edited_by, created_at)
+    VALUES (NEW.id, 1, NEW.title, NEW.description, NEW.tags, NEW.user_id, NEW.created_at);
+  ELSIF OLD.title IS DISTINCT FROM NEW.title
+    OR OLD.description IS DISTINCT FROM NEW.description
+    OR OLD.tags IS DISTINCT FROM NEW.tags THEN
+    INSERT INTO public.question_revisions (question_id, revision_number, title, description, tags, edited_by)
+    SELECT NEW.id, COALESCE(MAX(revision_number), 0) + 1, NEW.title, NEW.description, NEW.tags, COALESCE(auth.uid(), NEW.user_id)
+    FROM public.question_revisions
+    WHERE question_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function to record answer revisions (revision 1 is the original post)
+CREATE OR REPLACE FUNCTION public.record_answer_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.answer_revisions (answer_id, revision_number, content, edited_by, created_at)
+    VALUES (NEW.id, 1, NEW.content, NEW.user_id, NEW.created_at);
+  ELSIF OLD.content IS DISTINCT FROM NEW.content THEN
+    INSERT INTO public.answer_revisions (answer_id, revision_number, content, edited_by)
+    SELECT NEW.id, COALESCE(MAX(revision_number), 0) + 1, NEW.content, COALESCE(auth.uid(), NEW.user_id)
+    FROM public.answer_revisions
+    WHERE answer_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER record_question_revision_trigger
+  AFTER INSERT OR UPDATE ON public.questions
+  FOR EACH ROW EXECUTE FUNCTION public.record_question_revision();
+
+CREATE TRIGGER record_answer_revision_trigger
+  AFTER INSERT OR UPDATE ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.record_answer_revision();
+
+-- Backfill the original revision for existing posts
+INSERT INTO public.question_revisions (question_id, revision_number, title, description, tags, edited_by, created_at)
+SELECT id, 1, title, description, tags, user_id, created_at FROM public.questions;
+
+INSERT INTO public.answer_revisions (answer_id, revision_number, content, edited_by, created_at)
+SELECT id, 1, content, user_id, created_at FROM public.answers;
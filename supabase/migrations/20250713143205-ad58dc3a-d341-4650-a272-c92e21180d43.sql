@@ -0,0 +1,130 @@
+-- Create comments table for clarifications on questions and answers
+CREATE TABLE public.comments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  question_id UUID REFERENCES public.questions(id) ON DELETE CASCADE,
+  answer_id UUID REFERENCES public.answers(id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  upvote_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT comment_length_check CHECK (char_length(content) BETWEEN 1 AND 600),
+
+  -- Ensure comment is for either question or answer, not both
+  CONSTRAINT comment_target_check CHECK (
+    (question_id IS NOT NULL AND answer_id IS NULL) OR
+    (question_id IS NULL AND answer_id IS NOT NULL)
+  )
+);
+
+-- Create comment votes table (comments can only be upvoted)
+CREATE TABLE public.comment_votes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  comment_id UUID NOT NULL REFERENCES public.comments(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT unique_comment_vote UNIQUE (user_id, comment_id)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.comment_votes ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for comments
+CREATE POLICY "Comments are viewable by everyone"
+  ON public.comments FOR SELECT
+  USING (true);
+
+CREATE POLICY "Authenticated users can create comments"
+  ON public.comments FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own comments"
+  ON public.comments FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Comment authors and admins can delete comments"
+  ON public.comments FOR DELETE
+  USING (
+    auth.uid() = user_id OR
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE user_id = auth.uid() AND role = 'admin'
+    )
+  );
+
+-- Create RLS policies for comment votes
+CREATE POLICY "Users can view all comment votes"
+  ON public.comment_votes FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can upvote other users' comments"
+  ON public.comment_votes FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id AND
+    NOT EXISTS (
+      SELECT 1 FROM public.comments
+      WHERE id = comment_id AND user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete their own comment votes"
+  ON public.comment_votes FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Create indexes for better performance
+CREATE INDEX idx_comments_question_id ON public.comments(question_id);
+CREATE INDEX idx_comments_answer_id ON public.comments(answer_id);
+CREATE INDEX idx_comments_user_id ON public.comments(user_id);
+CREATE INDEX idx_comment_votes_comment_id ON public.comment_votes(comment_id);
+
+CREATE TRIGGER update_comments_updated_at BEFORE UPDATE ON public.comments
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Function to update comment upvote counts
+CREATE OR REPLACE FUNCTION public.update_comment_vote_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.comments SET upvote_count = upvote_count + 1 WHERE id = NEW.comment_id;
+    RETURN NEW;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE public.comments SET upvote_count = upvote_count - 1 WHERE id = OLD.comment_id;
+    RETURN OLD;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER update_comment_vote_count_trigger
+  AFTER INSERT OR DELETE ON public.comment_votes
+  FOR EACH ROW EXECUTE FUNCTION public.update_comment_vote_count();
+
+-- Comment upvotes only change through comment_votes, and an edit can't move a
+-- comment to another post or author
+CREATE OR REPLACE FUNCTION public.protect_comment_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.upvote_count := 0;
+    ELSE
+      NEW.upvote_count := OLD.upvote_count;
+      NEW.question_id := OLD.question_id;
+      NEW.answer_id := OLD.answer_id;
+      NEW.user_id := OLD.user_id;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER protect_comment_columns_trigger
+  BEFORE INSERT OR UPDATE ON public.comments
+  FOR EACH ROW EXECUTE FUNCTION public.protect_comment_columns();
@@ -0,0 +1,131 @@
+-- Allow mentions (and their notifications) to point at comments
+ALTER TABLE public.mentions
+  ADD COLUMN comment_id UUID REFERENCES public.comments(id) ON DELETE CASCADE;
+
+ALTER TABLE public.mentions DROP CONSTRAINT mention_target_check;
+ALTER TABLE public.mentions ADD CONSTRAINT mention_target_check CHECK (
+  (question_id IS NOT NULL)::int + (answer_id IS NOT NULL)::int + (comment_id IS NOT NULL)::int = 1
+);
+
+ALTER TABLE public.notifications
+  ADD COLUMN comment_id UUID REFERENCES public.comments(id) ON DELETE CASCADE;
+
+-- A user is mentioned at most once per post
+CREATE UNIQUE INDEX unique_mention_target
+  ON public.mentions (user_id, COALESCE(question_id, answer_id, comment_id));
+
+-- Mentions are written by triggers only
+DROP POLICY "Users can create mentions" ON public.mentions;
+
+-- Returns the users @mentioned in a piece of Markdown, ignoring code spans and
+-- fenced code blocks, email addresses and the author mentioning themselves
+CREATE OR REPLACE FUNCTION public.extract_mentioned_user_ids(_content TEXT, _author UUID)
+RETURNS SETOF UUID AS $$
+  SELECT DISTINCT p.user_id
+  FROM regexp_matches(
+    regexp_replace(regexp_replace(_content, '```.*?```', '', 'g'), '`[^`\n]*`', '', 'g'),
+    '(?:^|[^A-Za-z0-9_.])@([A-Za-z0-9_](?:[A-Za-z0-9_.-]*[A-Za-z0-9_])?)',
+    'g'
+  ) AS m(parts)
+  JOIN public.profiles p ON lower(p.username) = lower(m.parts[1])
+  WHERE p.user_id <> _author;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Function to sync mentions and notify newly mentioned users
+CREATE OR REPLACE FUNCTION public.process_mentions()
+RETURNS TRIGGER AS $$
+DECLARE
+  _content TEXT;
+  _question_id UUID;
+  _answer_id UUID;
+  _comment_id UUID;
+  _link_question_id UUID;
+  _link_answer_id UUID;
+  _context TEXT;
+  _question_title TEXT;
+  _author_username TEXT;
+  _mentioned_user UUID;
+BEGIN
+  IF TG_TABLE_NAME = 'questions' THEN
+    IF TG_OP = 'UPDATE' AND OLD.description IS NOT DISTINCT FROM NEW.description THEN
+      RETURN NEW;
+    END IF;
+    _content := NEW.description;
+    _question_id := NEW.id;
+    _link_question_id := NEW.id;
+    _context := 'a question';
+  ELSIF TG_TABLE_NAME = 'answers' THEN
+    IF TG_OP = 'UPDATE' AND OLD.content IS NOT DISTINCT FROM NEW.content THEN
+      RETURN NEW;
+    END IF;
+    _content := NEW.content;
+    _answer_id := NEW.id;
+    _link_question_id := NEW.question_id;
+    _link_answer_id := NEW.id;
+    _context := 'an answer to';
+  ELSE
+    IF TG_OP = 'UPDATE' AND OLD.content IS NOT DISTINCT FROM NEW.content THEN
+      RETURN NEW;
+    END IF;
+    _content := NEW.content;
+    _comment_id := NEW.id;
+    _link_answer_id := NEW.answer_id;
+    _link_question_id := COALESCE(
+      NEW.question_id,
+      (SELECT question_id FROM public.answers WHERE id = NEW.answer_id)
+    );
+    _context := 'a comment on';
+  END IF;
+
+  SELECT title INTO _question_title FROM public.questions WHERE id = _link_question_id;
+  SELECT username INTO _author_username FROM public.profiles WHERE user_id = NEW.user_id;
+
+  -- Forget mentions removed by an edit
+  DELETE FROM public.mentions
+  WHERE COALESCE(question_id, answer_id, comment_id) = NEW.id
+    AND user_id NOT IN (SELECT public.extract_mentioned_user_ids(_content, NEW.user_id));
+
+  -- Only users not already mentioned in this post are recorded and notified
+  FOR _mentioned_user IN
+    SELECT mentioned.user_id
+    FROM public.extract_mentioned_user_ids(_content, NEW.user_id) AS mentioned(user_id)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.mentions
+      WHERE mentions.user_id = mentioned.user_id
+        AND COALESCE(question_id, answer_id, comment_id) = NEW.id
+    )
+  LOOP
+    INSERT INTO public.mentions (user_id, question_id, answer_id, comment_id, mentioned_by)
+    VALUES (_mentioned_user, _question_id, _answer_id, _comment_id, NEW.user_id);
+
+    INSERT INTO public.notifications (user_id, type, title, message, question_id, answer_id, comment_id, mentioned_by)
+    VALUES (
+      _mentioned_user,
+      'mention',
+      '@' || _author_username || ' mentioned you',
+      'You were mentioned in ' || _context || ' "' || _question_title || '"',
+      _link_question_id,
+      _link_answer_id,
+      _comment_id,
+      NEW.user_id
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create triggers for mention processing
+CREATE TRIGGER process_question_mentions
+  AFTER INSERT OR UPDATE ON public.questions
+  FOR EACH ROW EXECUTE FUNCTION public.process_mentions();
+
+CREATE TRIGGER process_answer_mentions
+  AFTER INSERT OR UPDATE ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.process_mentions();
+
+CREATE TRIGGER process_comment_mentions
+  AFTER INSERT OR UPDATE ON public.comments
+  FOR EACH ROW EXECUTE FUNCTION public.process_mentions();
+
+CREATE INDEX idx_mentions_comment_id ON public.mentions(comment_id);
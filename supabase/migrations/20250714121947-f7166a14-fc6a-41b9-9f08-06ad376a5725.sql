@@ -0,0 +1,6 @@
+-- Stream new notifications and answers to connected clients
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.answers;
+
+-- Speed up unread counts for the header badge
+CREATE INDEX idx_notifications_user_unread ON public.notifications(user_id) WHERE is_read = false;
@@ -0,0 +1,85 @@
+-- Notifications are created only by the triggers below (and the mention
+-- trigger), never directly by clients
+DROP POLICY "System can create notifications" ON public.notifications;
+
+-- Function to notify a question's author about a new answer
+CREATE OR REPLACE FUNCTION public.notify_new_answer()
+RETURNS TRIGGER AS $$
+DECLARE
+  _question RECORD;
+  _answerer TEXT;
+BEGIN
+  SELECT id, title, user_id INTO _question FROM public.questions WHERE id = NEW.question_id;
+  IF _question.user_id = NEW.user_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT username INTO _answerer FROM public.profiles WHERE user_id = NEW.user_id;
+
+  INSERT INTO public.notifications (user_id, type, title, message, question_id, answer_id)
+  VALUES (
+    _question.user_id,
+    'answer',
+    '@' || _answerer || ' answered your question',
+    _question.title,
+    _question.id,
+    NEW.id
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function to notify an answer's author when their answer is accepted
+CREATE OR REPLACE FUNCTION public.notify_answer_accepted()
+RETURNS TRIGGER AS $$
+DECLARE
+  _question RECORD;
+BEGIN
+  IF NEW.is_accepted = true AND OLD.is_accepted = false THEN
+    SELECT id, title, user_id INTO _question FROM public.questions WHERE id = NEW.question_id;
+    IF _question.user_id = NEW.user_id THEN
+      RETURN NEW;
+    END IF;
+
+    INSERT INTO public.notifications (user_id, type, title, message, question_id, answer_id)
+    VALUES (
+      NEW.user_id,
+      'accepted',
+      'Your answer was accepted',
+      _question.title,
+      _question.id,
+      NEW.id
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create triggers for answer notifications
+CREATE TRIGGER notify_new_answer_trigger
+  AFTER INSERT ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.notify_new_answer();
+
+CREATE TRIGGER notify_answer_accepted_trigger
+  AFTER UPDATE OF is_accepted ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.notify_answer_accepted();
+
+-- Accepting an answer updates rows owned by other users (the answer, and any
+-- previously accepted answer), which RLS would otherwise silently filter out
+ALTER FUNCTION public.update_question_accepted_status() SECURITY DEFINER SET search_path = public;
+
+-- Function for a question's author to accept an answer
+CREATE OR REPLACE FUNCTION public.accept_answer(_answer_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.answers a
+    JOIN public.questions q ON q.id = a.question_id
+    WHERE a.id = _answer_id AND q.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the question author can accept an answer';
+  END IF;
+
+  UPDATE public.answers SET is_accepted = true WHERE id = _answer_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,277 @@
+-- Reputation earned (or lost) through votes and accepted answers
+CREATE TYPE public.reputation_event_type AS ENUM (
+  'question_upvoted',
+  'answer_upvoted',
+  'downvote_received',
+  'downvote_given',
+  'answer_accepted'
+);
+
+ALTER TABLE public.profiles
+  ADD COLUMN reputation INTEGER NOT NULL DEFAULT 1;
+
+-- Ledger of every reputation change; profiles.reputation is derived from it
+CREATE TABLE public.reputation_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  event_type reputation_event_type NOT NULL,
+  delta INTEGER NOT NULL,
+  -- The vote that caused the event, so it can be reversed when the vote changes
+  vote_id UUID,
+  question_id UUID REFERENCES public.questions(id) ON DELETE CASCADE,
+  answer_id UUID REFERENCES public.answers(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.reputation_events ENABLE ROW LEVEL SECURITY;
+
+-- Events are written by triggers only
+CREATE POLICY "Reputation events are viewable by everyone"
+  ON public.reputation_events FOR SELECT
+  USING (true);
+
+CREATE INDEX idx_reputation_events_user_id ON public.reputation_events(user_id, created_at DESC);
+CREATE INDEX idx_reputation_events_vote_id ON public.reputation_events(vote_id);
+CREATE INDEX idx_reputation_events_answer_id ON public.reputation_events(answer_id);
+
+-- Reputation points per event
+CREATE OR REPLACE FUNCTION public.reputation_delta(_event reputation_event_type)
+RETURNS INTEGER AS $$
+  SELECT CASE _event
+    WHEN 'question_upvoted' THEN 5
+    WHEN 'answer_upvoted' THEN 10
+    WHEN 'downvote_received' THEN -2
+    WHEN 'downvote_given' THEN -1
+    WHEN 'answer_accepted' THEN 15
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Rebuild a user's reputation total from the ledger (never below 1)
+CREATE OR REPLACE FUNCTION public.refresh_reputation(_user_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.profiles
+  SET reputation = GREATEST(1, 1 + COALESCE(
+    (SELECT SUM(delta) FROM public.reputation_events WHERE user_id = _user_id), 0
+  ))
+  WHERE user_id = _user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function to keep profiles.reputation in sync with the ledger
+CREATE OR REPLACE FUNCTION public.apply_reputation_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.refresh_reputation(OLD.user_id);
+    RETURN OLD;
+  END IF;
+  PERFORM public.refresh_reputation(NEW.user_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER apply_reputation_event_trigger
+  AFTER INSERT OR DELETE ON public.reputation_events
+  FOR EACH ROW EXECUTE FUNCTION public.apply_reputation_event();
+
+-- Function to record reputation events for votes
+CREATE OR REPLACE FUNCTION public.update_vote_reputation()
+RETURNS TRIGGER AS $$
+DECLARE
+  _author UUID;
+  _event reputation_event_type;
+BEGIN
+  -- A changed or removed vote reverses whatever it earned before
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    DELETE FROM public.reputation_events WHERE vote_id = OLD.id;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+
+  IF NEW.question_id IS NOT NULL THEN
+    SELECT user_id INTO _author FROM public.questions WHERE id = NEW.question_id;
+  ELSE
+    SELECT user_id INTO _author FROM public.answers WHERE id = NEW.answer_id;
+  END IF;
+
+  -- Voting on your own post earns nothing
+  IF _author IS NULL OR _author = NEW.user_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.vote_type = 'upvote' THEN
+    _event := CASE WHEN NEW.question_id IS NOT NULL THEN 'question_upvoted' ELSE 'answer_upvoted' END;
+    INSERT INTO public.reputation_events (user_id, event_type, delta, vote_id, question_id, answer_id)
+    VALUES (_author, _event, public.reputation_delta(_event), NEW.id, NEW.question_id, NEW.answer_id);
+  ELSE
+    INSERT INTO public.reputation_events (user_id, event_type, delta, vote_id, question_id, answer_id)
+    VALUES
+      (_author, 'downvote_received', public.reputation_delta('downvote_received'), NEW.id, NEW.question_id, NEW.answer_id),
+      (NEW.user_id, 'downvote_given', public.reputation_delta('downvote_given'), NEW.id, NEW.question_id, NEW.answer_id);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER update_vote_reputation_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON public.votes
+  FOR EACH ROW EXECUTE FUNCTION public.update_vote_reputation();
+
+-- Function to record reputation events for accepted answers
+CREATE OR REPLACE FUNCTION public.update_accepted_reputation()
+RETURNS TRIGGER AS $$
+DECLARE
+  _question_author UUID;
+BEGIN
+  IF OLD.is_accepted = NEW.is_accepted THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.is_accepted = false THEN
+    DELETE FROM public.reputation_events
+    WHERE answer_id = NEW.id AND event_type = 'answer_accepted';
+    RETURN NEW;
+  END IF;
+
+  -- Accepting your own answer earns nothing
+  SELECT user_id INTO _question_author FROM public.questions WHERE id = NEW.question_id;
+  IF _question_author = NEW.user_id THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.reputation_events (user_id, event_type, delta, question_id, answer_id)
+  VALUES (NEW.user_id, 'answer_accepted', public.reputation_delta('answer_accepted'), NEW.question_id, NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER update_accepted_reputation_trigger
+  AFTER UPDATE OF is_accepted ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.update_accepted_reputation();
+
+-- Reputation can only change through the ledger, not through profile edits
+CREATE OR REPLACE FUNCTION public.protect_reputation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    NEW.reputation := OLD.reputation;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_reputation_trigger
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.protect_reputation();
+
+-- Vote tallies and answer counts are written on other users' posts, which RLS
+-- would otherwise silently filter out
+ALTER FUNCTION public.update_vote_counts() SECURITY DEFINER SET search_path = public;
+ALTER FUNCTION public.update_question_answer_count() SECURITY DEFINER SET search_path = public;
+
+-- Acceptance and vote tallies earn reputation, so they only change through
+-- accept_answer and the vote/answer triggers, not through posting or editing
+CREATE OR REPLACE FUNCTION public.protect_question_counts()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.upvote_count := 0;
+      NEW.downvote_count := 0;
+      NEW.answer_count := 0;
+      NEW.has_accepted_answer := false;
+    ELSE
+      NEW.upvote_count := OLD.upvote_count;
+      NEW.downvote_count := OLD.downvote_count;
+      NEW.answer_count := OLD.answer_count;
+      NEW.has_accepted_answer := OLD.has_accepted_answer;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.protect_answer_counts()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.upvote_count := 0;
+      NEW.downvote_count := 0;
+      NEW.is_accepted := false;
+    ELSE
+      NEW.upvote_count := OLD.upvote_count;
+      NEW.downvote_count := OLD.downvote_count;
+      NEW.is_accepted := OLD.is_accepted;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER protect_question_counts_trigger
+  BEFORE INSERT OR UPDATE ON public.questions
+  FOR EACH ROW EXECUTE FUNCTION public.protect_question_counts();
+
+CREATE TRIGGER protect_answer_counts_trigger
+  BEFORE INSERT OR UPDATE ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.protect_answer_counts();
+
+-- Rebuild reputation totals from the ledger, for one user or everyone (admins only)
+CREATE OR REPLACE FUNCTION public.recompute_reputation(_user_id UUID DEFAULT NULL)
+RETURNS VOID AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can recompute reputation';
+  END IF;
+
+  UPDATE public.profiles p
+  SET reputation = GREATEST(1, 1 + COALESCE(
+    (SELECT SUM(e.delta) FROM public.reputation_events e WHERE e.user_id = p.user_id), 0
+  ))
+  WHERE _user_id IS NULL OR p.user_id = _user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_reputation(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Backfill the ledger from existing votes and accepted answers
+INSERT INTO public.reputation_events (user_id, event_type, delta, vote_id, question_id, answer_id, created_at)
+SELECT
+  COALESCE(q.user_id, a.user_id),
+  CASE
+    WHEN v.vote_type = 'downvote' THEN 'downvote_received'
+    WHEN v.question_id IS NOT NULL THEN 'question_upvoted'
+    ELSE 'answer_upvoted'
+  END::reputation_event_type,
+  public.reputation_delta(CASE
+    WHEN v.vote_type = 'downvote' THEN 'downvote_received'
+    WHEN v.question_id IS NOT NULL THEN 'question_upvoted'
+    ELSE 'answer_upvoted'
+  END::reputation_event_type),
+  v.id, v.question_id, v.answer_id, v.created_at
+FROM public.votes v
+LEFT JOIN public.questions q ON q.id = v.question_id
+LEFT JOIN public.answers a ON a.id = v.answer_id
+WHERE COALESCE(q.user_id, a.user_id) <> v.user_id;
+
+INSERT INTO public.reputation_events (user_id, event_type, delta, vote_id, question_id, answer_id, created_at)
+SELECT v.user_id, 'downvote_given', public.reputation_delta('downvote_given'), v.id, v.question_id, v.answer_id, v.created_at
+FROM public.votes v
+LEFT JOIN public.questions q ON q.id = v.question_id
+LEFT JOIN public.answers a ON a.id = v.answer_id
+WHERE v.vote_type = 'downvote' AND COALESCE(q.user_id, a.user_id) <> v.user_id;
+
+INSERT INTO public.reputation_events (user_id, event_type, delta, question_id, answer_id, created_at)
+SELECT a.user_id, 'answer_accepted', public.reputation_delta('answer_accepted'), a.question_id, a.id, a.updated_at
+FROM public.answers a
+JOIN public.questions q ON q.id = a.question_id
+WHERE a.is_accepted = true AND q.user_id <> a.user_id;
+
+SELECT public.recompute_reputation();
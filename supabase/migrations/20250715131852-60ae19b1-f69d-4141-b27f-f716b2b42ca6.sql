@@ -0,0 +1,140 @@
+-- Privileges unlocked by reputation
+CREATE TYPE public.privilege_type AS ENUM ('upvote', 'downvote', 'comment', 'edit_others', 'close_vote');
+
+CREATE TABLE public.privileges (
+  privilege privilege_type NOT NULL PRIMARY KEY,
+  description TEXT NOT NULL,
+  min_reputation INTEGER NOT NULL CHECK (min_reputation >= 1)
+);
+
+ALTER TABLE public.privileges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Privileges are viewable by everyone"
+  ON public.privileges FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage privileges"
+  ON public.privileges FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE user_id = auth.uid() AND role = 'admin'
+    )
+  );
+
+INSERT INTO public.privileges (privilege, description, min_reputation) VALUES
+  ('upvote', 'upvote questions and answers', 15),
+  ('downvote', 'downvote questions and answers', 125),
+  ('comment', 'comment on other users'' posts', 50),
+  ('edit_others', 'edit other users'' posts', 2000),
+  ('close_vote', 'vote to close or reopen questions', 3000);
+
+-- Whether a user has earned a privilege (admins have them all)
+CREATE OR REPLACE FUNCTION public.has_privilege(_user_id UUID, _privilege privilege_type)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.profiles p
+    WHERE p.user_id = _user_id
+      AND (
+        p.role = 'admin' OR
+        p.reputation >= (SELECT min_reputation FROM public.privileges WHERE privilege = _privilege)
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Votes require the upvote/downvote privilege
+DROP POLICY "Users can create their own votes" ON public.votes;
+DROP POLICY "Users can update their own votes" ON public.votes;
+
+CREATE POLICY "Privileged users can create their own votes"
+  ON public.votes FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id AND
+    public.has_privilege(auth.uid(), CASE WHEN vote_type = 'upvote' THEN 'upvote' ELSE 'downvote' END::privilege_type)
+  );
+
+CREATE POLICY "Privileged users can update their own votes"
+  ON public.votes FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id AND
+    public.has_privilege(auth.uid(), CASE WHEN vote_type = 'upvote' THEN 'upvote' ELSE 'downvote' END::privilege_type)
+  );
+
+-- Commenting requires the comment privilege, except on your own posts
+-- and on answers to your own questions
+DROP POLICY "Authenticated users can create comments" ON public.comments;
+
+CREATE POLICY "Authenticated users can create comments"
+  ON public.comments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id AND (
+      public.has_privilege(auth.uid(), 'comment') OR
+      EXISTS (
+        SELECT 1 FROM public.questions
+        WHERE id = question_id AND user_id = auth.uid()
+      ) OR
+      EXISTS (
+        SELECT 1 FROM public.answers a
+        JOIN public.questions q ON q.id = a.question_id
+        WHERE a.id = answer_id AND (a.user_id = auth.uid() OR q.user_id = auth.uid())
+      )
+    )
+  );
+
+-- Trusted users can edit other users' posts
+CREATE POLICY "Privileged users can edit questions"
+  ON public.questions FOR UPDATE
+  TO authenticated
+  USING (public.has_privilege(auth.uid(), 'edit_others'));
+
+CREATE POLICY "Privileged users can edit answers"
+  ON public.answers FOR UPDATE
+  TO authenticated
+  USING (public.has_privilege(auth.uid(), 'edit_others'));
+
+-- Editing someone else's post only changes its content; every other column
+-- keeps its current value. Named to fire before the other BEFORE UPDATE
+-- triggers (they run alphabetically), so those still stamp their own columns.
+CREATE OR REPLACE FUNCTION public.enforce_question_edit_scope()
+RETURNS TRIGGER AS $$
+DECLARE
+  _edited public.questions;
+BEGIN
+  IF current_user IN ('anon', 'authenticated') AND auth.uid() IS DISTINCT FROM OLD.user_id THEN
+    _edited := OLD;
+    _edited.title := NEW.title;
+    _edited.description := NEW.description;
+    _edited.tags := NEW.tags;
+    RETURN _edited;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.enforce_answer_edit_scope()
+RETURNS TRIGGER AS $$
+DECLARE
+  _edited public.answers;
+BEGIN
+  IF current_user IN ('anon', 'authenticated') AND auth.uid() IS DISTINCT FROM OLD.user_id THEN
+    _edited := OLD;
+    _edited.content := NEW.content;
+    RETURN _edited;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER enforce_question_edit_scope_trigger
+  BEFORE UPDATE ON public.questions
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_question_edit_scope();
+
+CREATE TRIGGER enforce_answer_edit_scope_trigger
+  BEFORE UPDATE ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_answer_edit_scope();
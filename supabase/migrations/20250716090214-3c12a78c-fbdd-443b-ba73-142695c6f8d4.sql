@@ -0,0 +1,3 @@
+-- Notifications for earned badges (added on its own so the value is
+-- committed before the badge functions use it)
+ALTER TYPE public.notification_type ADD VALUE IF NOT EXISTS 'badge';
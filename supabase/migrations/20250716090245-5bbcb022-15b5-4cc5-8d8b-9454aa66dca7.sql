@@ -0,0 +1,241 @@
+-- Track how often questions are viewed
+ALTER TABLE public.questions
+  ADD COLUMN view_count INTEGER NOT NULL DEFAULT 0;
+
+-- Who has viewed each question, so a view is only counted once per viewer
+CREATE TABLE public.question_views (
+  question_id UUID NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+  -- The signed-in user's id, or a hash of an anonymous visitor's address
+  viewer TEXT NOT NULL,
+  viewed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  PRIMARY KEY (question_id, viewer)
+);
+
+-- Written by increment_question_views only
+ALTER TABLE public.question_views ENABLE ROW LEVEL SECURITY;
+
+-- Function to count a question view (clients can't update others' questions).
+-- Repeat views by the same user or address are ignored. Anonymous visitors are
+-- identified by the last x-forwarded-for entry, the one our proxy appends;
+-- earlier entries come from the client and can be anything.
+CREATE OR REPLACE FUNCTION public.increment_question_views(_question_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  _viewer TEXT := COALESCE(
+    auth.uid()::TEXT,
+    'ip:' || md5(NULLIF(trim(regexp_replace(
+      NULLIF(current_setting('request.headers', true), '')::json->>'x-forwarded-for', '^.*,', ''
+    )), ''))
+  );
+BEGIN
+  IF _viewer IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.question_views (question_id, viewer)
+  VALUES (_question_id, _viewer)
+  ON CONFLICT DO NOTHING;
+
+  IF FOUND THEN
+    UPDATE public.questions SET view_count = view_count + 1 WHERE id = _question_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- View counts earn badges, so they only change through increment_question_views
+CREATE OR REPLACE FUNCTION public.protect_question_counts()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.upvote_count := 0;
+      NEW.downvote_count := 0;
+      NEW.answer_count := 0;
+      NEW.has_accepted_answer := false;
+      NEW.view_count := 0;
+    ELSE
+      NEW.upvote_count := OLD.upvote_count;
+      NEW.downvote_count := OLD.downvote_count;
+      NEW.answer_count := OLD.answer_count;
+      NEW.has_accepted_answer := OLD.has_accepted_answer;
+      NEW.view_count := OLD.view_count;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Badge catalog
+CREATE TYPE public.badge_tier AS ENUM ('bronze', 'silver', 'gold');
+CREATE TYPE public.badge_rule AS ENUM ('accepted_answers', 'answers_with_score', 'question_views', 'tag_score');
+
+CREATE TABLE public.badges (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  slug VARCHAR(50) NOT NULL UNIQUE,
+  name VARCHAR(100) NOT NULL,
+  description TEXT NOT NULL,
+  tier badge_tier NOT NULL,
+  -- How the badge is earned: `threshold` is the count (or views) required and
+  -- `min_score` the per-answer (or per-tag) score, where the rule uses one
+  rule badge_rule NOT NULL,
+  threshold INTEGER NOT NULL,
+  min_score INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Badges awarded to users; tag badges are awarded once per tag
+CREATE TABLE public.user_badges (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  badge_id UUID NOT NULL REFERENCES public.badges(id) ON DELETE CASCADE,
+  tag TEXT,
+  awarded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_user_badges_unique ON public.user_badges(user_id, badge_id, COALESCE(tag, ''));
+CREATE INDEX idx_user_badges_user_id ON public.user_badges(user_id, awarded_at DESC);
+
+ALTER TABLE public.badges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_badges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Badges are viewable by everyone"
+  ON public.badges FOR SELECT
+  USING (true);
+
+-- Awards are written by the rules engine only
+CREATE POLICY "Awarded badges are viewable by everyone"
+  ON public.user_badges FOR SELECT
+  USING (true);
+
+INSERT INTO public.badges (slug, name, description, tier, rule, threshold, min_score) VALUES
+  ('scholar', 'Scholar', 'Had an answer accepted for the first time', 'bronze', 'accepted_answers', 1, NULL),
+  ('trusted-answerer', 'Trusted Answerer', 'Posted 10 answers with a score of 5 or more', 'silver', 'answers_with_score', 10, 5),
+  ('popular-question', 'Popular Question', 'Asked a question with 1,000 views', 'bronze', 'question_views', 1000, NULL),
+  ('notable-question', 'Notable Question', 'Asked a question with 2,500 views', 'silver', 'question_views', 2500, NULL),
+  ('famous-question', 'Famous Question', 'Asked a question with 10,000 views', 'gold', 'question_views', 10000, NULL),
+  ('tag-bronze', 'Tag Bronze', 'Earned a total score of 100 across 20 answers in a tag', 'bronze', 'tag_score', 20, 100),
+  ('tag-silver', 'Tag Silver', 'Earned a total score of 400 across 80 answers in a tag', 'silver', 'tag_score', 80, 400),
+  ('tag-gold', 'Tag Gold', 'Earned a total score of 1000 across 200 answers in a tag', 'gold', 'tag_score', 200, 1000);
+
+-- Award a badge once and notify the user
+CREATE OR REPLACE FUNCTION public.award_badge(_user_id UUID, _badge public.badges, _tag TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  _awarded_id UUID;
+BEGIN
+  INSERT INTO public.user_badges (user_id, badge_id, tag)
+  VALUES (_user_id, _badge.id, _tag)
+  ON CONFLICT DO NOTHING
+  RETURNING id INTO _awarded_id;
+
+  IF _awarded_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, type, title, message)
+  VALUES (
+    _user_id,
+    'badge',
+    CASE
+      WHEN _tag IS NULL THEN 'You earned the "' || _badge.name || '" badge'
+      ELSE 'You earned a ' || _badge.tier || ' badge in [' || _tag || ']'
+    END,
+    _badge.description
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Rules engine: check every badge rule for a user and award what they've earned
+CREATE OR REPLACE FUNCTION public.evaluate_badges(_user_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  _badge public.badges;
+  _tag TEXT;
+BEGIN
+  FOR _badge IN SELECT * FROM public.badges LOOP
+    CASE _badge.rule
+      WHEN 'accepted_answers' THEN
+        IF (
+          SELECT COUNT(*) FROM public.answers a
+          JOIN public.questions q ON q.id = a.question_id
+          WHERE a.user_id = _user_id AND a.is_accepted = true AND q.user_id <> _user_id
+        ) >= _badge.threshold THEN
+          PERFORM public.award_badge(_user_id, _badge);
+        END IF;
+
+      WHEN 'answers_with_score' THEN
+        IF (
+          SELECT COUNT(*) FROM public.answers
+          WHERE user_id = _user_id AND upvote_count - downvote_count >= _badge.min_score
+        ) >= _badge.threshold THEN
+          PERFORM public.award_badge(_user_id, _badge);
+        END IF;
+
+      WHEN 'question_views' THEN
+        IF EXISTS (
+          SELECT 1 FROM public.questions
+          WHERE user_id = _user_id AND view_count >= _badge.threshold
+        ) THEN
+          PERFORM public.award_badge(_user_id, _badge);
+        END IF;
+
+      WHEN 'tag_score' THEN
+        FOR _tag IN
+          SELECT t.tag
+          FROM public.answers a
+          JOIN public.questions q ON q.id = a.question_id
+          CROSS JOIN LATERAL unnest(q.tags) AS t(tag)
+          WHERE a.user_id = _user_id
+          GROUP BY t.tag
+          HAVING COUNT(*) >= _badge.threshold
+            AND SUM(a.upvote_count - a.downvote_count) >= _badge.min_score
+        LOOP
+          PERFORM public.award_badge(_user_id, _badge, _tag);
+        END LOOP;
+    END CASE;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.award_badge(UUID, public.badges, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.evaluate_badges(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Re-evaluate when an answer's score or accepted state changes
+CREATE OR REPLACE FUNCTION public.evaluate_answer_badges()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_accepted IS DISTINCT FROM OLD.is_accepted
+    OR NEW.upvote_count IS DISTINCT FROM OLD.upvote_count
+    OR NEW.downvote_count IS DISTINCT FROM OLD.downvote_count THEN
+    PERFORM public.evaluate_badges(NEW.user_id);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Re-evaluate when a question's views cross a view badge threshold
+CREATE OR REPLACE FUNCTION public.evaluate_question_badges()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.badges
+    WHERE rule = 'question_views'
+      AND threshold > OLD.view_count AND threshold <= NEW.view_count
+  ) THEN
+    PERFORM public.evaluate_badges(NEW.user_id);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER evaluate_answer_badges_trigger
+  AFTER UPDATE OF is_accepted, upvote_count, downvote_count ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.evaluate_answer_badges();
+
+CREATE TRIGGER evaluate_question_badges_trigger
+  AFTER UPDATE OF view_count ON public.questions
+  FOR EACH ROW EXECUTE FUNCTION public.evaluate_question_badges();
+
+-- Award badges already earned by existing activity
+SELECT public.evaluate_badges(user_id) FROM public.profiles;
@@ -0,0 +1,29 @@
+-- Net vote score, so posts can be sorted by it
+ALTER TABLE public.questions
+  ADD COLUMN score INTEGER GENERATED ALWAYS AS (upvote_count - downvote_count) STORED;
+
+ALTER TABLE public.answers
+  ADD COLUMN score INTEGER GENERATED ALWAYS AS (upvote_count - downvote_count) STORED;
+
+CREATE INDEX idx_questions_user_score ON public.questions(user_id, score DESC);
+CREATE INDEX idx_answers_user_score ON public.answers(user_id, score DESC);
+
+-- Tags a user is most active in, from their questions and answers
+CREATE OR REPLACE FUNCTION public.get_user_top_tags(_user_id UUID, _limit INTEGER DEFAULT 10)
+RETURNS TABLE (tag TEXT, post_count BIGINT, score BIGINT) AS $$
+  SELECT t.tag, COUNT(*) AS post_count, SUM(posts.score) AS score
+  FROM (
+    SELECT q.tags, q.score
+    FROM public.questions q
+    WHERE q.user_id = _user_id
+    UNION ALL
+    SELECT q.tags, a.score
+    FROM public.answers a
+    JOIN public.questions q ON q.id = a.question_id
+    WHERE a.user_id = _user_id
+  ) posts
+  CROSS JOIN LATERAL unnest(posts.tags) AS t(tag)
+  GROUP BY t.tag
+  ORDER BY score DESC, post_count DESC, t.tag
+  LIMIT _limit;
+$$ LANGUAGE sql STABLE SET search_path = public;
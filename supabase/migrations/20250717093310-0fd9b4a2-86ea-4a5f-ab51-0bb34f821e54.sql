@@ -0,0 +1,134 @@
+-- Full-text search over questions, including the text of their answers
+ALTER TABLE public.questions
+  ADD COLUMN search_vector tsvector;
+
+-- Build a question's search document: title and tags rank highest, then the
+-- body, then answers
+CREATE OR REPLACE FUNCTION public.question_search_vector(_question_id UUID, _title TEXT, _description TEXT, _tags TEXT[])
+RETURNS tsvector AS $$
+  SELECT
+    setweight(to_tsvector('english', COALESCE(_title, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(array_to_string(_tags, ' '), '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(_description, '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(
+      (SELECT string_agg(content, ' ') FROM public.answers WHERE question_id = _question_id), ''
+    )), 'C');
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Function to refresh the search document when a question's text changes.
+-- Writing search_vector directly also recomputes it, so clients can't set it.
+CREATE OR REPLACE FUNCTION public.update_question_search_vector()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector := public.question_search_vector(NEW.id, NEW.title, NEW.description, NEW.tags);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Function to refresh the parent question's search document when its answers change
+CREATE OR REPLACE FUNCTION public.update_answer_search_vector()
+RETURNS TRIGGER AS $$
+DECLARE
+  _question_id UUID := COALESCE(NEW.question_id, OLD.question_id);
+BEGIN
+  UPDATE public.questions
+  SET search_vector = public.question_search_vector(id, title, description, tags)
+  WHERE id = _question_id;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER update_question_search_vector_trigger
+  BEFORE INSERT OR UPDATE OF title, description, tags, search_vector ON public.questions
+  FOR EACH ROW EXECUTE FUNCTION public.update_question_search_vector();
+
+CREATE TRIGGER update_answer_search_vector_trigger
+  AFTER INSERT OR UPDATE OF content OR DELETE ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.update_answer_search_vector();
+
+UPDATE public.questions
+SET search_vector = public.question_search_vector(id, title, description, tags);
+
+CREATE INDEX idx_questions_search_vector ON public.questions USING GIN(search_vector);
+
+-- Ranked question search. `_query` uses web search syntax (quoted phrases,
+-- OR, -word); the other arguments come from operators parsed by the client.
+-- Usernames match in any case.
+-- Matches in the returned title/snippet are wrapped in ⟦ and ⟧.
+CREATE OR REPLACE FUNCTION public.search_questions(
+  _query TEXT DEFAULT NULL,
+  _tags TEXT[] DEFAULT NULL,
+  _username TEXT DEFAULT NULL,
+  _answered BOOLEAN DEFAULT NULL,
+  _accepted BOOLEAN DEFAULT NULL,
+  _min_score INTEGER DEFAULT NULL,
+  _max_score INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  title VARCHAR,
+  description TEXT,
+  tags TEXT[],
+  user_id UUID,
+  upvote_count INTEGER,
+  downvote_count INTEGER,
+  answer_count INTEGER,
+  has_accepted_answer BOOLEAN,
+  score INTEGER,
+  view_count INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE,
+  username VARCHAR,
+  full_name VARCHAR,
+  avatar_url TEXT,
+  reputation INTEGER,
+  rank REAL,
+  title_highlight TEXT,
+  snippet TEXT
+) AS $$
+  WITH search AS (
+    SELECT CASE
+      WHEN COALESCE(btrim(_query), '') = '' THEN NULL
+      ELSE websearch_to_tsquery('english', _query)
+    END AS tsq
+  )
+  SELECT
+    q.id,
+    q.title,
+    q.description,
+    q.tags,
+    q.user_id,
+    q.upvote_count,
+    q.downvote_count,
+    q.answer_count,
+    q.has_accepted_answer,
+    q.score,
+    q.view_count,
+    q.created_at,
+    p.username,
+    p.full_name,
+    p.avatar_url,
+    p.reputation,
+    CASE WHEN s.tsq IS NULL THEN 0 ELSE ts_rank_cd(q.search_vector, s.tsq) END AS rank,
+    CASE
+      WHEN s.tsq IS NULL THEN q.title::TEXT
+      ELSE ts_headline('english', q.title, s.tsq, 'HighlightAll=true, StartSel="⟦", StopSel="⟧"')
+    END AS title_highlight,
+    CASE
+      WHEN s.tsq IS NULL THEN left(q.description, 300)
+      ELSE ts_headline(
+        'english', q.description, s.tsq,
+        'MaxFragments=2, MinWords=10, MaxWords=30, StartSel="⟦", StopSel="⟧", FragmentDelimiter=" … "'
+      )
+    END AS snippet
+  FROM public.questions q
+  JOIN public.profiles p ON p.user_id = q.user_id
+  CROSS JOIN search s
+  WHERE (s.tsq IS NULL OR q.search_vector @@ s.tsq)
+    AND (_tags IS NULL OR q.tags @> _tags)
+    AND (_username IS NULL OR lower(p.username) = lower(_username))
+    AND (_answered IS NULL OR (q.answer_count > 0) = _answered)
+    AND (_accepted IS NULL OR q.has_accepted_answer = _accepted)
+    AND (_min_score IS NULL OR q.score >= _min_score)
+    AND (_max_score IS NULL OR q.score <= _max_score)
+  ORDER BY rank DESC, q.created_at DESC;
+$$ LANGUAGE sql STABLE SET search_path = public;
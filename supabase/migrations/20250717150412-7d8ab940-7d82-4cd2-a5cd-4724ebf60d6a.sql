@@ -0,0 +1,177 @@
+-- Tags become first-class: descriptions, usage counts and synonyms
+CREATE TABLE public.tags (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name VARCHAR(35) NOT NULL UNIQUE,
+  excerpt TEXT,
+  wiki TEXT,
+  usage_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Alternative names that are rewritten to a canonical tag (e.g. js -> javascript)
+CREATE TABLE public.tag_synonyms (
+  synonym VARCHAR(35) NOT NULL PRIMARY KEY,
+  tag_id UUID NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tag_synonyms ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tags are viewable by everyone"
+  ON public.tags FOR SELECT
+  USING (true);
+
+-- Tags are created by the usage trigger; trusted users maintain their wikis
+CREATE POLICY "Privileged users can edit tag wikis"
+  ON public.tags FOR UPDATE
+  TO authenticated
+  USING (public.has_privilege(auth.uid(), 'edit_others'));
+
+CREATE POLICY "Tag synonyms are viewable by everyone"
+  ON public.tag_synonyms FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage tag synonyms"
+  ON public.tag_synonyms FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE user_id = auth.uid() AND role = 'admin'
+    )
+  );
+
+CREATE INDEX idx_tags_usage_count ON public.tags(usage_count DESC);
+CREATE INDEX idx_tag_synonyms_tag_id ON public.tag_synonyms(tag_id);
+
+CREATE TRIGGER update_tags_updated_at BEFORE UPDATE ON public.tags
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Wiki editors can only change the excerpt and wiki; names and usage counts
+-- are maintained by the tag triggers (and renamed by admins only)
+CREATE OR REPLACE FUNCTION public.protect_tag_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') AND NOT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ) THEN
+    NEW.id := OLD.id;
+    NEW.name := OLD.name;
+    NEW.usage_count := OLD.usage_count;
+    NEW.created_at := OLD.created_at;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER protect_tag_columns_trigger
+  BEFORE UPDATE ON public.tags
+  FOR EACH ROW EXECUTE FUNCTION public.protect_tag_columns();
+
+-- Normalize a question's tags: lowercase, resolve synonyms, drop duplicates
+-- (keeping the order the author gave)
+CREATE OR REPLACE FUNCTION public.normalize_tags(_tags TEXT[])
+RETURNS TEXT[] AS $$
+  SELECT COALESCE(array_agg(tag ORDER BY position), '{}')
+  FROM (
+    SELECT COALESCE(t.name, raw.tag) AS tag, MIN(raw.position) AS position
+    FROM (
+      SELECT lower(btrim(u.tag)) AS tag, u.position
+      FROM unnest(_tags) WITH ORDINALITY AS u(tag, position)
+      WHERE btrim(u.tag) <> ''
+    ) raw
+    LEFT JOIN public.tag_synonyms s ON s.synonym = raw.tag
+    LEFT JOIN public.tags t ON t.id = s.tag_id
+    GROUP BY COALESCE(t.name, raw.tag)
+  ) normalized;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Function to apply synonyms before a question is saved
+CREATE OR REPLACE FUNCTION public.apply_tag_synonyms()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.tags := public.normalize_tags(NEW.tags);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER apply_tag_synonyms_trigger
+  BEFORE INSERT OR UPDATE OF tags ON public.questions
+  FOR EACH ROW EXECUTE FUNCTION public.apply_tag_synonyms();
+
+-- Function to keep tag usage counts in sync with questions
+CREATE OR REPLACE FUNCTION public.update_tag_usage_counts()
+RETURNS TRIGGER AS $$
+DECLARE
+  _old_tags TEXT[] := CASE WHEN TG_OP = 'INSERT' THEN '{}' ELSE COALESCE(OLD.tags, '{}') END;
+  _new_tags TEXT[] := CASE WHEN TG_OP = 'DELETE' THEN '{}' ELSE COALESCE(NEW.tags, '{}') END;
+BEGIN
+  -- Tags used for the first time are created on the fly
+  INSERT INTO public.tags (name)
+  SELECT tag FROM unnest(_new_tags) AS tag
+  ON CONFLICT (name) DO NOTHING;
+
+  UPDATE public.tags
+  SET usage_count = usage_count + 1
+  WHERE name = ANY(_new_tags) AND NOT name = ANY(_old_tags);
+
+  UPDATE public.tags
+  SET usage_count = GREATEST(usage_count - 1, 0)
+  WHERE name = ANY(_old_tags) AND NOT name = ANY(_new_tags);
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER update_tag_usage_counts_trigger
+  AFTER INSERT OR UPDATE OF tags OR DELETE ON public.questions
+  FOR EACH ROW EXECUTE FUNCTION public.update_tag_usage_counts();
+
+-- Seed common tags and their synonyms
+INSERT INTO public.tags (name, excerpt) VALUES
+  ('javascript', 'For questions about programming in ECMAScript (JavaScript/JS) and its dialects and implementations.'),
+  ('typescript', 'A typed superset of JavaScript that compiles to plain JavaScript.'),
+  ('react', 'A JavaScript library for building user interfaces out of components.'),
+  ('python', 'A general-purpose, dynamically typed programming language.'),
+  ('postgresql', 'An open-source relational database management system.');
+
+INSERT INTO public.tag_synonyms (synonym, tag_id)
+SELECT s.synonym, t.id
+FROM (VALUES
+  ('js', 'javascript'),
+  ('ecmascript', 'javascript'),
+  ('ts', 'typescript'),
+  ('reactjs', 'react'),
+  ('react.js', 'react'),
+  ('py', 'python'),
+  ('postgres', 'postgresql')
+) AS s(synonym, tag)
+JOIN public.tags t ON t.name = s.tag;
+
+-- Rewrite existing questions to canonical tags without recording revisions
+ALTER TABLE public.questions DISABLE TRIGGER USER;
+
+UPDATE public.questions
+SET
+  tags = public.normalize_tags(tags),
+  search_vector = public.question_search_vector(id, title, description, public.normalize_tags(tags))
+WHERE tags IS DISTINCT FROM public.normalize_tags(tags);
+
+ALTER TABLE public.questions ENABLE TRIGGER USER;
+
+-- Backfill tags and usage counts from existing questions
+INSERT INTO public.tags (name)
+SELECT DISTINCT tag
+FROM public.questions, unnest(tags) AS tag
+ON CONFLICT (name) DO NOTHING;
+
+UPDATE public.tags t
+SET usage_count = (
+  SELECT COUNT(*) FROM public.questions q WHERE t.name = ANY(q.tags)
+);
@@ -0,0 +1,2 @@
+-- New privilege for introducing tags that don't exist yet
+ALTER TYPE public.privilege_type ADD VALUE 'create_tag';
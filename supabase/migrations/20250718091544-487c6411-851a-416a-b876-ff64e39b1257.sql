@@ -0,0 +1,41 @@
+INSERT INTO public.privileges (privilege, description, min_reputation) VALUES
+  ('create_tag', 'create new tags', 300);
+
+-- Tag names: lowercase letters, digits and + # . - (e.g. c++, c#, node.js, vue-router)
+CREATE OR REPLACE FUNCTION public.is_valid_tag_name(_name TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT _name ~ '^[a-z0-9][a-z0-9+#.-]*$' AND char_length(_name) <= 35;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Normalize a question's tags, then reject malformed tags, too many tags,
+-- and brand-new tags from users without the create_tag privilege
+CREATE OR REPLACE FUNCTION public.apply_tag_synonyms()
+RETURNS TRIGGER AS $$
+DECLARE
+  _old_tags TEXT[] := CASE WHEN TG_OP = 'UPDATE' THEN COALESCE(OLD.tags, '{}') ELSE '{}' END;
+  _tag TEXT;
+BEGIN
+  NEW.tags := public.normalize_tags(NEW.tags);
+
+  IF cardinality(NEW.tags) > 5 THEN
+    RAISE EXCEPTION 'A question can have at most 5 tags';
+  END IF;
+
+  FOREACH _tag IN ARRAY NEW.tags LOOP
+    -- Tags the question already had are left alone so old posts stay editable
+    CONTINUE WHEN _tag = ANY(_old_tags);
+
+    IF NOT public.is_valid_tag_name(_tag) THEN
+      RAISE EXCEPTION 'Invalid tag "%"', _tag;
+    END IF;
+
+    IF auth.uid() IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM public.tags WHERE name = _tag)
+      AND NOT public.has_privilege(auth.uid(), 'create_tag') THEN
+      RAISE EXCEPTION 'Not enough reputation to create the tag "%"', _tag;
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,106 @@
+-- Per-user tag preferences for the personalized question feed
+CREATE TYPE public.tag_preference AS ENUM ('watched', 'ignored');
+
+CREATE TABLE public.tag_preferences (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  tag VARCHAR(35) NOT NULL,
+  preference tag_preference NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, tag)
+);
+
+ALTER TABLE public.tag_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own tag preferences"
+  ON public.tag_preferences FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own tag preferences"
+  ON public.tag_preferences FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own tag preferences"
+  ON public.tag_preferences FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own tag preferences"
+  ON public.tag_preferences FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Whether questions with ignored tags are hidden instead of dimmed
+ALTER TABLE public.profiles ADD COLUMN hide_ignored_tags BOOLEAN NOT NULL DEFAULT false;
+
+-- Questions ranked for the current user: watched tags first, then recent
+-- activity (asking, editing, answering) and score; ignored tags sink
+CREATE OR REPLACE FUNCTION public.interesting_questions(
+  _tag TEXT DEFAULT NULL,
+  _answered BOOLEAN DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  title VARCHAR,
+  description TEXT,
+  tags TEXT[],
+  user_id UUID,
+  upvote_count INTEGER,
+  downvote_count INTEGER,
+  answer_count INTEGER,
+  has_accepted_answer BOOLEAN,
+  score INTEGER,
+  view_count INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE,
+  last_activity_at TIMESTAMP WITH TIME ZONE,
+  username VARCHAR,
+  full_name VARCHAR,
+  avatar_url TEXT,
+  reputation INTEGER,
+  interest DOUBLE PRECISION
+) AS $$
+  WITH prefs AS (
+    SELECT
+      COALESCE(array_agg(tag::TEXT) FILTER (WHERE preference = 'watched'), '{}') AS watched,
+      COALESCE(array_agg(tag::TEXT) FILTER (WHERE preference = 'ignored'), '{}') AS ignored
+    FROM public.tag_preferences
+    WHERE user_id = auth.uid()
+  ),
+  activity AS (
+    SELECT
+      q.*,
+      GREATEST(
+        q.created_at,
+        COALESCE(q.edited_at, q.created_at),
+        COALESCE((SELECT MAX(a.created_at) FROM public.answers a WHERE a.question_id = q.id), q.created_at)
+      ) AS last_activity_at
+    FROM public.questions q
+    WHERE (_tag IS NULL OR q.tags @> ARRAY[_tag])
+      AND (_answered IS NULL OR (q.answer_count > 0) = _answered)
+  )
+  SELECT
+    q.id,
+    q.title,
+    q.description,
+    q.tags,
+    q.user_id,
+    q.upvote_count,
+    q.downvote_count,
+    q.answer_count,
+    q.has_accepted_answer,
+    q.score,
+    q.view_count,
+    q.created_at,
+    q.last_activity_at,
+    p.username,
+    p.full_name,
+    p.avatar_url,
+    p.reputation,
+    (
+      3.0 * cardinality(ARRAY(SELECT unnest(q.tags) INTERSECT SELECT unnest(prefs.watched)))
+      - 5.0 * (q.tags && prefs.ignored)::INT
+      + ln(2 + GREATEST(q.score, 0))
+      + 4.0 / (1 + EXTRACT(EPOCH FROM NOW() - q.last_activity_at) / 86400)
+    )::DOUBLE PRECISION AS interest
+  FROM activity q
+  JOIN public.profiles p ON p.user_id = q.user_id
+  CROSS JOIN prefs
+  ORDER BY interest DESC, q.last_activity_at DESC;
+$$ LANGUAGE sql STABLE SET search_path = public;
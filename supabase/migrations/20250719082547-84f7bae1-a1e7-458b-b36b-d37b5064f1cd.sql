@@ -0,0 +1,90 @@
+-- Named personal lists for organizing bookmarks
+CREATE TABLE public.bookmark_lists (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT unique_bookmark_list_name UNIQUE (user_id, name),
+  CONSTRAINT bookmark_list_name_check CHECK (char_length(btrim(name)) > 0)
+);
+
+-- Saved questions and answers, optionally filed in a list with a private note
+CREATE TABLE public.bookmarks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  question_id UUID REFERENCES public.questions(id) ON DELETE CASCADE,
+  answer_id UUID REFERENCES public.answers(id) ON DELETE CASCADE,
+  list_id UUID REFERENCES public.bookmark_lists(id) ON DELETE SET NULL,
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT bookmark_note_length_check CHECK (char_length(note) <= 1000),
+
+  -- Ensure bookmark is for either question or answer, not both
+  CONSTRAINT bookmark_target_check CHECK (
+    (question_id IS NOT NULL AND answer_id IS NULL) OR
+    (question_id IS NULL AND answer_id IS NOT NULL)
+  )
+);
+
+CREATE UNIQUE INDEX idx_bookmarks_user_question ON public.bookmarks(user_id, question_id) WHERE question_id IS NOT NULL;
+CREATE UNIQUE INDEX idx_bookmarks_user_answer ON public.bookmarks(user_id, answer_id) WHERE answer_id IS NOT NULL;
+CREATE INDEX idx_bookmarks_list_id ON public.bookmarks(list_id);
+
+ALTER TABLE public.bookmark_lists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bookmarks ENABLE ROW LEVEL SECURITY;
+
+-- Bookmarks and lists are private to their owner
+CREATE POLICY "Users can view their own bookmark lists"
+  ON public.bookmark_lists FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own bookmark lists"
+  ON public.bookmark_lists FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own bookmark lists"
+  ON public.bookmark_lists FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own bookmark lists"
+  ON public.bookmark_lists FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own bookmarks"
+  ON public.bookmarks FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own bookmarks"
+  ON public.bookmarks FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (
+      list_id IS NULL
+      OR EXISTS (SELECT 1 FROM public.bookmark_lists WHERE id = list_id AND user_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Users can update their own bookmarks"
+  ON public.bookmarks FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (
+      list_id IS NULL
+      OR EXISTS (SELECT 1 FROM public.bookmark_lists WHERE id = list_id AND user_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Users can delete their own bookmarks"
+  ON public.bookmarks FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_bookmark_lists_updated_at BEFORE UPDATE ON public.bookmark_lists
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_bookmarks_updated_at BEFORE UPDATE ON public.bookmarks
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
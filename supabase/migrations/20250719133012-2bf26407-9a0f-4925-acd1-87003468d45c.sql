@@ -0,0 +1,2 @@
+-- Notifications about activity on followed questions
+ALTER TYPE public.notification_type ADD VALUE 'activity';
@@ -0,0 +1,242 @@
+-- Users following a question; muted followers stay subscribed but get no notifications
+CREATE TABLE public.question_followers (
+  user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  question_id UUID NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+  muted BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, question_id)
+);
+
+CREATE INDEX idx_question_followers_question_id ON public.question_followers(question_id);
+
+ALTER TABLE public.question_followers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own follows"
+  ON public.question_followers FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Only questions the user can see (the subquery goes through the questions'
+-- SELECT policies, so deleted and held questions can't be followed by id)
+CREATE POLICY "Users can follow questions"
+  ON public.question_followers FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (SELECT 1 FROM public.questions WHERE id = question_id)
+  );
+
+CREATE POLICY "Users can update their own follows"
+  ON public.question_followers FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can unfollow questions"
+  ON public.question_followers FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Notify everyone following a question, except the user who caused the activity
+-- and anyone in _skip (who already got a more specific notification)
+CREATE OR REPLACE FUNCTION public.notify_question_followers(
+  _question_id UUID,
+  _actor UUID,
+  _title TEXT,
+  _answer_id UUID DEFAULT NULL,
+  _comment_id UUID DEFAULT NULL,
+  _skip UUID[] DEFAULT '{}'
+)
+RETURNS VOID AS $$
+  INSERT INTO public.notifications (user_id, type, title, message, question_id, answer_id, comment_id)
+  SELECT f.user_id, 'activity', _title, q.title, q.id, _answer_id, _comment_id
+  FROM public.question_followers f
+  JOIN public.questions q ON q.id = f.question_id
+  WHERE f.question_id = _question_id
+    AND NOT f.muted
+    AND f.user_id IS DISTINCT FROM _actor
+    AND NOT f.user_id = ANY(_skip);
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Users a post's text @mentions who aren't recorded as mentioned in it yet,
+-- i.e. who process_mentions is about to notify. Follower notifications skip
+-- them, whichever of the two triggers runs first.
+CREATE OR REPLACE FUNCTION public.newly_mentioned_user_ids(_content TEXT, _author UUID, _post_id UUID)
+RETURNS UUID[] AS $$
+  SELECT COALESCE(array_agg(mentioned.user_id), '{}')
+  FROM public.extract_mentioned_user_ids(_content, _author) AS mentioned(user_id)
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.mentions
+    WHERE mentions.user_id = mentioned.user_id
+      AND COALESCE(question_id, answer_id, comment_id) = _post_id
+  );
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Askers and answerers follow the question automatically
+CREATE OR REPLACE FUNCTION public.auto_follow_question()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Separate branches: NEW.question_id doesn't exist on questions, even in an
+  -- unused CASE arm
+  IF TG_TABLE_NAME = 'answers' THEN
+    INSERT INTO public.question_followers (user_id, question_id)
+    VALUES (NEW.user_id, NEW.question_id)
+    ON CONFLICT (user_id, question_id) DO NOTHING;
+  ELSE
+    INSERT INTO public.question_followers (user_id, question_id)
+    VALUES (NEW.user_id, NEW.id)
+    ON CONFLICT (user_id, question_id) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER auto_follow_asked_question_trigger
+  AFTER INSERT ON public.questions
+  FOR EACH ROW EXECUTE FUNCTION public.auto_follow_question();
+
+CREATE TRIGGER auto_follow_answered_question_trigger
+  AFTER INSERT ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.auto_follow_question();
+
+-- New answers: the asker gets the usual "answered your question" notification
+-- (unless they muted the thread), other followers an activity notification
+-- unless the answer @mentions them
+CREATE OR REPLACE FUNCTION public.notify_new_answer()
+RETURNS TRIGGER AS $$
+DECLARE
+  _question RECORD;
+  _answerer TEXT;
+BEGIN
+  SELECT id, title, user_id INTO _question FROM public.questions WHERE id = NEW.question_id;
+  SELECT username INTO _answerer FROM public.profiles WHERE user_id = NEW.user_id;
+
+  IF _question.user_id <> NEW.user_id AND NOT EXISTS (
+    SELECT 1 FROM public.question_followers
+    WHERE question_id = _question.id AND user_id = _question.user_id AND muted
+  ) THEN
+    INSERT INTO public.notifications (user_id, type, title, message, question_id, answer_id)
+    VALUES (
+      _question.user_id,
+      'answer',
+      '@' || _answerer || ' answered your question',
+      _question.title,
+      _question.id,
+      NEW.id
+    );
+  END IF;
+
+  PERFORM public.notify_question_followers(
+    _question.id,
+    NEW.user_id,
+    '@' || _answerer || ' answered a question you follow',
+    NEW.id,
+    NULL,
+    _question.user_id || public.newly_mentioned_user_ids(NEW.content, NEW.user_id, NEW.id)
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Accepted answers: followers hear about it too (the answerer already gets 'accepted')
+CREATE OR REPLACE FUNCTION public.notify_answer_accepted()
+RETURNS TRIGGER AS $$
+DECLARE
+  _question RECORD;
+BEGIN
+  IF NEW.is_accepted = true AND OLD.is_accepted = false THEN
+    SELECT id, title, user_id INTO _question FROM public.questions WHERE id = NEW.question_id;
+
+    IF _question.user_id <> NEW.user_id THEN
+      INSERT INTO public.notifications (user_id, type, title, message, question_id, answer_id)
+      VALUES (
+        NEW.user_id,
+        'accepted',
+        'Your answer was accepted',
+        _question.title,
+        _question.id,
+        NEW.id
+      );
+    END IF;
+
+    PERFORM public.notify_question_followers(
+      _question.id,
+      _question.user_id,
+      'An answer was accepted on a question you follow',
+      NEW.id,
+      NULL,
+      ARRAY[NEW.user_id]
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Edits to a followed question or one of its answers; followers the edit
+-- newly @mentions get the mention notification instead
+CREATE OR REPLACE FUNCTION public.notify_followers_of_edit()
+RETURNS TRIGGER AS $$
+DECLARE
+  _actor UUID := COALESCE(auth.uid(), NEW.user_id);
+  _editor TEXT;
+BEGIN
+  IF NEW.edited_at IS NOT DISTINCT FROM OLD.edited_at THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT username INTO _editor FROM public.profiles WHERE user_id = _actor;
+
+  IF TG_TABLE_NAME = 'answers' THEN
+    PERFORM public.notify_question_followers(
+      NEW.question_id, _actor, '@' || _editor || ' edited an answer on a question you follow', NEW.id, NULL,
+      public.newly_mentioned_user_ids(NEW.content, NEW.user_id, NEW.id)
+    );
+  ELSE
+    PERFORM public.notify_question_followers(
+      NEW.id, _actor, '@' || _editor || ' edited a question you follow', NULL, NULL,
+      public.newly_mentioned_user_ids(NEW.description, NEW.user_id, NEW.id)
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_question_edit_trigger
+  AFTER UPDATE ON public.questions
+  FOR EACH ROW EXECUTE FUNCTION public.notify_followers_of_edit();
+
+CREATE TRIGGER notify_answer_edit_trigger
+  AFTER UPDATE ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.notify_followers_of_edit();
+
+-- Comments on a followed question or its answers. Followers who were @mentioned
+-- in the comment already have a mention notification for it and are skipped
+-- (this trigger is named to fire after process_comment_mentions).
+CREATE OR REPLACE FUNCTION public.relay_comment_to_followers()
+RETURNS TRIGGER AS $$
+DECLARE
+  _question_id UUID := COALESCE(
+    NEW.question_id,
+    (SELECT question_id FROM public.answers WHERE id = NEW.answer_id)
+  );
+  _commenter TEXT;
+BEGIN
+  SELECT username INTO _commenter FROM public.profiles WHERE user_id = NEW.user_id;
+
+  PERFORM public.notify_question_followers(
+    _question_id,
+    NEW.user_id,
+    '@' || _commenter || ' commented on a question you follow',
+    NEW.answer_id,
+    NEW.id,
+    ARRAY(SELECT user_id FROM public.notifications WHERE comment_id = NEW.id)
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER relay_comment_to_followers_trigger
+  AFTER INSERT ON public.comments
+  FOR EACH ROW EXECUTE FUNCTION public.relay_comment_to_followers();
+
+-- Existing askers and answerers follow their threads
+INSERT INTO public.question_followers (user_id, question_id)
+SELECT user_id, id FROM public.questions
+UNION
+SELECT user_id, question_id FROM public.answers
+ON CONFLICT (user_id, question_id) DO NOTHING;
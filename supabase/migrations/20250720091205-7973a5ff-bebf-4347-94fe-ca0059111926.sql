@@ -0,0 +1,140 @@
+-- Closing and reopening questions by community vote
+CREATE TYPE public.close_reason AS ENUM ('duplicate', 'off_topic', 'needs_details', 'opinion_based');
+CREATE TYPE public.close_vote_kind AS ENUM ('close', 'reopen');
+
+ALTER TABLE public.questions
+  ADD COLUMN closed_reason close_reason,
+  ADD COLUMN closed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN duplicate_of UUID REFERENCES public.questions(id) ON DELETE SET NULL;
+
+CREATE TABLE public.close_votes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  question_id UUID NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  kind close_vote_kind NOT NULL,
+  reason close_reason,
+  duplicate_of UUID REFERENCES public.questions(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT unique_close_vote UNIQUE (question_id, user_id, kind),
+
+  -- Close votes need a reason, and duplicate votes the question it duplicates
+  CONSTRAINT close_vote_reason_check CHECK (
+    (kind = 'reopen' AND reason IS NULL AND duplicate_of IS NULL) OR
+    (kind = 'close' AND reason IS NOT NULL AND (reason = 'duplicate') = (duplicate_of IS NOT NULL))
+  ),
+  CONSTRAINT close_vote_duplicate_check CHECK (duplicate_of IS DISTINCT FROM question_id)
+);
+
+CREATE INDEX idx_close_votes_question_id ON public.close_votes(question_id, kind);
+
+ALTER TABLE public.close_votes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Close votes are viewable by everyone"
+  ON public.close_votes FOR SELECT
+  USING (true);
+
+-- Close votes go on open questions, reopen votes on closed ones
+CREATE POLICY "Privileged users can vote to close or reopen"
+  ON public.close_votes FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND public.has_privilege(auth.uid(), 'close_vote')
+    AND EXISTS (
+      SELECT 1 FROM public.questions q
+      WHERE q.id = question_id
+        AND (q.closed_at IS NULL) = (kind = 'close')
+    )
+  );
+
+CREATE POLICY "Users can retract their close votes"
+  ON public.close_votes FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Closed questions don't take new answers
+CREATE POLICY "Answers cannot be added to closed questions"
+  ON public.answers AS RESTRICTIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    NOT EXISTS (
+      SELECT 1 FROM public.questions
+      WHERE id = question_id AND closed_at IS NOT NULL
+    )
+  );
+
+-- Only close votes change a question's closed state, not direct updates
+CREATE OR REPLACE FUNCTION public.protect_closed_state()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    NEW.closed_reason := OLD.closed_reason;
+    NEW.closed_at := OLD.closed_at;
+    NEW.duplicate_of := OLD.duplicate_of;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER protect_closed_state_trigger
+  BEFORE UPDATE ON public.questions
+  FOR EACH ROW EXECUTE FUNCTION public.protect_closed_state();
+
+-- Close or reopen a question once it has enough votes (admin votes are binding).
+-- The most common reason wins; the votes are cleared for the next round.
+CREATE OR REPLACE FUNCTION public.apply_close_votes()
+RETURNS TRIGGER AS $$
+DECLARE
+  _votes_needed CONSTANT INTEGER := 3;
+  _reason close_reason;
+  _duplicate_of UUID;
+BEGIN
+  IF (
+    SELECT COUNT(*) FROM public.close_votes
+    WHERE question_id = NEW.question_id AND kind = NEW.kind
+  ) < _votes_needed AND NOT EXISTS (
+    SELECT 1 FROM public.profiles WHERE user_id = NEW.user_id AND role = 'admin'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.kind = 'close' THEN
+    SELECT reason INTO _reason
+    FROM public.close_votes
+    WHERE question_id = NEW.question_id AND kind = 'close'
+    GROUP BY reason
+    ORDER BY COUNT(*) DESC, MIN(created_at)
+    LIMIT 1;
+
+    IF _reason = 'duplicate' THEN
+      SELECT duplicate_of INTO _duplicate_of
+      FROM public.close_votes
+      WHERE question_id = NEW.question_id AND kind = 'close' AND reason = 'duplicate'
+      GROUP BY duplicate_of
+      ORDER BY COUNT(*) DESC, MIN(created_at)
+      LIMIT 1;
+    END IF;
+
+    UPDATE public.questions
+    SET closed_reason = _reason, closed_at = NOW(), duplicate_of = _duplicate_of
+    WHERE id = NEW.question_id;
+
+    PERFORM public.notify_question_followers(NEW.question_id, NULL, 'A question you follow was closed');
+  ELSE
+    UPDATE public.questions
+    SET closed_reason = NULL, closed_at = NULL, duplicate_of = NULL
+    WHERE id = NEW.question_id;
+
+    PERFORM public.notify_question_followers(NEW.question_id, NULL, 'A question you follow was reopened');
+  END IF;
+
+  DELETE FROM public.close_votes WHERE question_id = NEW.question_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER apply_close_votes_trigger
+  AFTER INSERT ON public.close_votes
+  FOR EACH ROW EXECUTE FUNCTION public.apply_close_votes();
+
+CREATE INDEX idx_questions_closed_at ON public.questions(closed_at) WHERE closed_at IS NOT NULL;
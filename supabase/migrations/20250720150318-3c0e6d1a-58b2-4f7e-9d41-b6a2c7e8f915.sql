@@ -0,0 +1,479 @@
+-- Soft deletion: deleted posts stay recoverable for a while before they are purged
+ALTER TABLE public.questions
+  ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN deleted_by UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL;
+
+ALTER TABLE public.answers
+  ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN deleted_by UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL;
+
+CREATE INDEX idx_questions_deleted_at ON public.questions(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_answers_deleted_at ON public.answers(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Deleted posts are only visible to their authors and admins; answers also
+-- disappear along with their question
+DROP POLICY "Questions are viewable by everyone" ON public.questions;
+DROP POLICY "Answers are viewable by everyone" ON public.answers;
+
+CREATE POLICY "Questions are viewable by everyone unless deleted"
+  ON public.questions FOR SELECT
+  USING (
+    deleted_at IS NULL OR
+    auth.uid() = user_id OR
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE user_id = auth.uid() AND role = 'admin'
+    )
+  );
+
+CREATE POLICY "Answers are viewable by everyone unless deleted"
+  ON public.answers FOR SELECT
+  USING (
+    (
+      deleted_at IS NULL AND
+      EXISTS (SELECT 1 FROM public.questions q WHERE q.id = question_id AND q.deleted_at IS NULL)
+    ) OR
+    auth.uid() = user_id OR
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE user_id = auth.uid() AND role = 'admin'
+    )
+  );
+
+-- Deleted questions don't take new answers
+CREATE POLICY "Answers cannot be added to deleted questions"
+  ON public.answers AS RESTRICTIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    NOT EXISTS (
+      SELECT 1 FROM public.questions
+      WHERE id = question_id AND deleted_at IS NOT NULL
+    )
+  );
+
+-- Deleted posts can't be voted on (votes earn reputation); retracting a vote
+-- is still allowed
+CREATE POLICY "Deleted posts cannot be voted on"
+  ON public.votes AS RESTRICTIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    (question_id IS NULL OR EXISTS (
+      SELECT 1 FROM public.questions WHERE id = question_id AND deleted_at IS NULL
+    )) AND
+    (answer_id IS NULL OR EXISTS (
+      SELECT 1 FROM public.answers WHERE id = answer_id AND deleted_at IS NULL
+    ))
+  );
+
+CREATE POLICY "Votes on deleted posts cannot be changed"
+  ON public.votes AS RESTRICTIVE FOR UPDATE
+  TO authenticated
+  USING (
+    (question_id IS NULL OR EXISTS (
+      SELECT 1 FROM public.questions WHERE id = question_id AND deleted_at IS NULL
+    )) AND
+    (answer_id IS NULL OR EXISTS (
+      SELECT 1 FROM public.answers WHERE id = answer_id AND deleted_at IS NULL
+    ))
+  );
+
+CREATE POLICY "Comments on deleted posts cannot be voted on"
+  ON public.comment_votes AS RESTRICTIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.comments c
+      WHERE c.id = comment_id
+        AND (c.question_id IS NULL OR EXISTS (
+          SELECT 1 FROM public.questions WHERE id = c.question_id AND deleted_at IS NULL
+        ))
+        AND (c.answer_id IS NULL OR EXISTS (
+          SELECT 1 FROM public.answers WHERE id = c.answer_id AND deleted_at IS NULL
+        ))
+    )
+  );
+
+-- Deleted answers can't be accepted
+CREATE OR REPLACE FUNCTION public.accept_answer(_answer_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.answers a
+    JOIN public.questions q ON q.id = a.question_id
+    WHERE a.id = _answer_id AND q.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the question author can accept an answer';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.answers WHERE id = _answer_id AND deleted_at IS NOT NULL) THEN
+    RAISE EXCEPTION 'Deleted answers can''t be accepted';
+  END IF;
+
+  UPDATE public.answers SET is_accepted = true WHERE id = _answer_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Revisions and comments are only visible along with their post. The
+-- subqueries go through the posts' own SELECT policies, so whoever can't see
+-- a deleted post can't read it through its history or comments either.
+DROP POLICY "Question revisions are viewable by everyone" ON public.question_revisions;
+DROP POLICY "Answer revisions are viewable by everyone" ON public.answer_revisions;
+
+CREATE POLICY "Question revisions are viewable with their question"
+  ON public.question_revisions FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.questions q WHERE q.id = question_id));
+
+CREATE POLICY "Answer revisions are viewable with their answer"
+  ON public.answer_revisions FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.answers a WHERE a.id = answer_id));
+
+CREATE POLICY "Comments are only visible with their post"
+  ON public.comments AS RESTRICTIVE FOR SELECT
+  USING (
+    EXISTS (SELECT 1 FROM public.questions q WHERE q.id = question_id) OR
+    EXISTS (SELECT 1 FROM public.answers a WHERE a.id = answer_id)
+  );
+
+-- Posts are no longer deleted outright; only the purge job removes rows
+DROP POLICY "Question authors and admins can delete questions" ON public.questions;
+DROP POLICY "Answer authors and admins can delete answers" ON public.answers;
+
+-- Only delete_post/undelete_post change a post's deleted state
+CREATE OR REPLACE FUNCTION public.protect_deleted_state()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    NEW.deleted_at := OLD.deleted_at;
+    NEW.deleted_by := OLD.deleted_by;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER protect_deleted_state_trigger
+  BEFORE UPDATE ON public.questions
+  FOR EACH ROW EXECUTE FUNCTION public.protect_deleted_state();
+
+CREATE TRIGGER protect_deleted_state_trigger
+  BEFORE UPDATE ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.protect_deleted_state();
+
+-- Deleted answers don't count towards a question's answers
+CREATE OR REPLACE FUNCTION public.update_question_answer_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.questions 
+    SET answer_count = answer_count + 1
+    WHERE id = NEW.question_id;
+    RETURN NEW;
+  ELSIF TG_OP = 'UPDATE' THEN
+    IF (OLD.deleted_at IS NULL) <> (NEW.deleted_at IS NULL) THEN
+      UPDATE public.questions
+      SET answer_count = answer_count + CASE WHEN NEW.deleted_at IS NULL THEN 1 ELSE -1 END
+      WHERE id = NEW.question_id;
+    END IF;
+    RETURN NEW;
+  ELSIF TG_OP = 'DELETE' THEN
+    IF OLD.deleted_at IS NULL THEN
+      UPDATE public.questions 
+      SET answer_count = answer_count - 1
+      WHERE id = OLD.question_id;
+    END IF;
+    RETURN OLD;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER update_answer_count_on_soft_delete
+  AFTER UPDATE OF deleted_at ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.update_question_answer_count();
+
+-- Deleted questions don't count towards their tags' usage
+CREATE OR REPLACE FUNCTION public.update_tag_usage_counts()
+RETURNS TRIGGER AS $$
+DECLARE
+  _old_tags TEXT[] := CASE
+    WHEN TG_OP = 'INSERT' THEN '{}'
+    WHEN OLD.deleted_at IS NOT NULL THEN '{}'
+    ELSE COALESCE(OLD.tags, '{}')
+  END;
+  _new_tags TEXT[] := CASE
+    WHEN TG_OP = 'DELETE' THEN '{}'
+    WHEN NEW.deleted_at IS NOT NULL THEN '{}'
+    ELSE COALESCE(NEW.tags, '{}')
+  END;
+BEGIN
+  -- Tags used for the first time are created on the fly
+  INSERT INTO public.tags (name)
+  SELECT tag FROM unnest(_new_tags) AS tag
+  ON CONFLICT (name) DO NOTHING;
+
+  UPDATE public.tags
+  SET usage_count = usage_count + 1
+  WHERE name = ANY(_new_tags) AND NOT name = ANY(_old_tags);
+
+  UPDATE public.tags
+  SET usage_count = GREATEST(usage_count - 1, 0)
+  WHERE name = ANY(_old_tags) AND NOT name = ANY(_new_tags);
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER update_tag_usage_counts_trigger ON public.questions;
+
+CREATE TRIGGER update_tag_usage_counts_trigger
+  AFTER INSERT OR UPDATE OF tags, deleted_at OR DELETE ON public.questions
+  FOR EACH ROW EXECUTE FUNCTION public.update_tag_usage_counts();
+
+-- Soft-delete a question or an answer (pass exactly one id). Authors can
+-- delete their own posts, admins any post.
+CREATE OR REPLACE FUNCTION public.delete_post(_question_id UUID DEFAULT NULL, _answer_id UUID DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  _is_admin BOOLEAN := EXISTS (
+    SELECT 1 FROM public.profiles WHERE user_id = auth.uid() AND role = 'admin'
+  );
+BEGIN
+  IF (_question_id IS NULL) = (_answer_id IS NULL) THEN
+    RAISE EXCEPTION 'Pass either a question or an answer';
+  END IF;
+
+  IF _question_id IS NOT NULL THEN
+    UPDATE public.questions
+    SET deleted_at = NOW(), deleted_by = auth.uid()
+    WHERE id = _question_id AND deleted_at IS NULL
+      AND (user_id = auth.uid() OR _is_admin);
+  ELSE
+    UPDATE public.answers
+    SET deleted_at = NOW(), deleted_by = auth.uid()
+    WHERE id = _answer_id AND deleted_at IS NULL
+      AND (user_id = auth.uid() OR _is_admin);
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the author or an admin can delete this post';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Restore a soft-deleted post. Authors can undelete what they deleted
+-- themselves; posts deleted by an admin need an admin.
+CREATE OR REPLACE FUNCTION public.undelete_post(_question_id UUID DEFAULT NULL, _answer_id UUID DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  _is_admin BOOLEAN := EXISTS (
+    SELECT 1 FROM public.profiles WHERE user_id = auth.uid() AND role = 'admin'
+  );
+BEGIN
+  IF (_question_id IS NULL) = (_answer_id IS NULL) THEN
+    RAISE EXCEPTION 'Pass either a question or an answer';
+  END IF;
+
+  IF _question_id IS NOT NULL THEN
+    UPDATE public.questions
+    SET deleted_at = NULL, deleted_by = NULL
+    WHERE id = _question_id AND deleted_at IS NOT NULL
+      AND ((user_id = auth.uid() AND deleted_by = auth.uid()) OR _is_admin);
+  ELSE
+    UPDATE public.answers
+    SET deleted_at = NULL, deleted_by = NULL
+    WHERE id = _answer_id AND deleted_at IS NOT NULL
+      AND ((user_id = auth.uid() AND deleted_by = auth.uid()) OR _is_admin);
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the author or an admin can undelete this post';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Permanently remove posts that have been deleted for longer than the
+-- retention window, along with everything that cascades from them
+CREATE OR REPLACE FUNCTION public.purge_deleted_posts(_retention INTERVAL DEFAULT INTERVAL '30 days')
+RETURNS INTEGER AS $$
+DECLARE
+  _answers INTEGER;
+  _questions INTEGER;
+BEGIN
+  DELETE FROM public.answers WHERE deleted_at < NOW() - _retention;
+  GET DIAGNOSTICS _answers = ROW_COUNT;
+
+  DELETE FROM public.questions WHERE deleted_at < NOW() - _retention;
+  GET DIAGNOSTICS _questions = ROW_COUNT;
+
+  RETURN _answers + _questions;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.purge_deleted_posts(INTERVAL) FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('purge-deleted-posts', '30 3 * * *', 'SELECT public.purge_deleted_posts()');
+
+-- Feeds and search leave deleted questions out, even for their authors
+
+-- Ranked question search. `_query` uses web search syntax (quoted phrases,
+-- OR, -word); the other arguments come from operators parsed by the client.
+-- Tags are resolved through their synonyms and usernames match in any case.
+-- Matches in the returned title/snippet are wrapped in ⟦ and ⟧.
+CREATE OR REPLACE FUNCTION public.search_questions(
+  _query TEXT DEFAULT NULL,
+  _tags TEXT[] DEFAULT NULL,
+  _username TEXT DEFAULT NULL,
+  _answered BOOLEAN DEFAULT NULL,
+  _accepted BOOLEAN DEFAULT NULL,
+  _min_score INTEGER DEFAULT NULL,
+  _max_score INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  title VARCHAR,
+  description TEXT,
+  tags TEXT[],
+  user_id UUID,
+  upvote_count INTEGER,
+  downvote_count INTEGER,
+  answer_count INTEGER,
+  has_accepted_answer BOOLEAN,
+  score INTEGER,
+  view_count INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE,
+  username VARCHAR,
+  full_name VARCHAR,
+  avatar_url TEXT,
+  reputation INTEGER,
+  rank REAL,
+  title_highlight TEXT,
+  snippet TEXT
+) AS $$
+  WITH search AS (
+    SELECT CASE
+      WHEN COALESCE(btrim(_query), '') = '' THEN NULL
+      ELSE websearch_to_tsquery('english', _query)
+    END AS tsq
+  )
+  SELECT
+    q.id,
+    q.title,
+    q.description,
+    q.tags,
+    q.user_id,
+    q.upvote_count,
+    q.downvote_count,
+    q.answer_count,
+    q.has_accepted_answer,
+    q.score,
+    q.view_count,
+    q.created_at,
+    p.username,
+    p.full_name,
+    p.avatar_url,
+    p.reputation,
+    CASE WHEN s.tsq IS NULL THEN 0 ELSE ts_rank_cd(q.search_vector, s.tsq) END AS rank,
+    CASE
+      WHEN s.tsq IS NULL THEN q.title::TEXT
+      ELSE ts_headline('english', q.title, s.tsq, 'HighlightAll=true, StartSel="⟦", StopSel="⟧"')
+    END AS title_highlight,
+    CASE
+      WHEN s.tsq IS NULL THEN left(q.description, 300)
+      ELSE ts_headline(
+        'english', q.description, s.tsq,
+        'MaxFragments=2, MinWords=10, MaxWords=30, StartSel="⟦", StopSel="⟧", FragmentDelimiter=" … "'
+      )
+    END AS snippet
+  FROM public.questions q
+  JOIN public.profiles p ON p.user_id = q.user_id
+  CROSS JOIN search s
+  WHERE q.deleted_at IS NULL
+    AND (s.tsq IS NULL OR q.search_vector @@ s.tsq)
+    AND (_tags IS NULL OR q.tags @> public.normalize_tags(_tags))
+    AND (_username IS NULL OR lower(p.username) = lower(_username))
+    AND (_answered IS NULL OR (q.answer_count > 0) = _answered)
+    AND (_accepted IS NULL OR q.has_accepted_answer = _accepted)
+    AND (_min_score IS NULL OR q.score >= _min_score)
+    AND (_max_score IS NULL OR q.score <= _max_score)
+  ORDER BY rank DESC, q.created_at DESC;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Questions ranked for the current user: watched tags first, then recent
+-- activity (asking, editing, answering) and score; ignored tags sink
+CREATE OR REPLACE FUNCTION public.interesting_questions(
+  _tag TEXT DEFAULT NULL,
+  _answered BOOLEAN DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  title VARCHAR,
+  description TEXT,
+  tags TEXT[],
+  user_id UUID,
+  upvote_count INTEGER,
+  downvote_count INTEGER,
+  answer_count INTEGER,
+  has_accepted_answer BOOLEAN,
+  score INTEGER,
+  view_count INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE,
+  last_activity_at TIMESTAMP WITH TIME ZONE,
+  username VARCHAR,
+  full_name VARCHAR,
+  avatar_url TEXT,
+  reputation INTEGER,
+  interest DOUBLE PRECISION
+) AS $$
+  WITH prefs AS (
+    SELECT
+      COALESCE(array_agg(tag::TEXT) FILTER (WHERE preference = 'watched'), '{}') AS watched,
+      COALESCE(array_agg(tag::TEXT) FILTER (WHERE preference = 'ignored'), '{}') AS ignored
+    FROM public.tag_preferences
+    WHERE user_id = auth.uid()
+  ),
+  activity AS (
+    SELECT
+      q.*,
+      GREATEST(
+        q.created_at,
+        COALESCE(q.edited_at, q.created_at),
+        COALESCE((SELECT MAX(a.created_at) FROM public.answers a WHERE a.question_id = q.id AND a.deleted_at IS NULL), q.created_at)
+      ) AS last_activity_at
+    FROM public.questions q
+    WHERE q.deleted_at IS NULL
+      AND (_tag IS NULL OR q.tags @> ARRAY[_tag])
+      AND (_answered IS NULL OR (q.answer_count > 0) = _answered)
+  )
+  SELECT
+    q.id,
+    q.title,
+    q.description,
+    q.tags,
+    q.user_id,
+    q.upvote_count,
+    q.downvote_count,
+    q.answer_count,
+    q.has_accepted_answer,
+    q.score,
+    q.view_count,
+    q.created_at,
+    q.last_activity_at,
+    p.username,
+    p.full_name,
+    p.avatar_url,
+    p.reputation,
+    (
+      3.0 * cardinality(ARRAY(SELECT unnest(q.tags) INTERSECT SELECT unnest(prefs.watched)))
+      - 5.0 * (q.tags && prefs.ignored)::INT
+      + ln(2 + GREATEST(q.score, 0))
+      + 4.0 / (1 + EXTRACT(EPOCH FROM NOW() - q.last_activity_at) / 86400)
+    )::DOUBLE PRECISION AS interest
+  FROM activity q
+  JOIN public.profiles p ON p.user_id = q.user_id
+  CROSS JOIN prefs
+  ORDER BY interest DESC, q.last_activity_at DESC;
+$$ LANGUAGE sql STABLE SET search_path = public;
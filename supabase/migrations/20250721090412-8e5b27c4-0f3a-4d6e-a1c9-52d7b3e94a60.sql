@@ -0,0 +1,2 @@
+-- New privilege for flagging posts for moderator attention
+ALTER TYPE public.privilege_type ADD VALUE 'flag';
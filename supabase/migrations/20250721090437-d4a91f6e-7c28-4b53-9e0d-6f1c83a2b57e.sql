@@ -0,0 +1,207 @@
+INSERT INTO public.privileges (privilege, description, min_reputation) VALUES
+  ('flag', 'flag posts for moderator attention', 15);
+
+-- Flags raised by users on questions, answers and comments, reviewed by admins
+CREATE TYPE public.flag_reason AS ENUM ('spam', 'rude', 'low_quality', 'needs_moderator');
+CREATE TYPE public.flag_status AS ENUM ('pending', 'helpful', 'declined');
+
+CREATE TABLE public.flags (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  question_id UUID REFERENCES public.questions(id) ON DELETE CASCADE,
+  answer_id UUID REFERENCES public.answers(id) ON DELETE CASCADE,
+  comment_id UUID REFERENCES public.comments(id) ON DELETE CASCADE,
+  reason flag_reason NOT NULL,
+  details TEXT,
+  status flag_status NOT NULL DEFAULT 'pending',
+  reviewed_by UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT flag_target_check CHECK (num_nonnulls(question_id, answer_id, comment_id) = 1),
+  CONSTRAINT flag_details_length_check CHECK (char_length(details) <= 500),
+  -- Moderator flags have to say what needs attention
+  CONSTRAINT flag_details_check CHECK (reason <> 'needs_moderator' OR COALESCE(btrim(details), '') <> '')
+);
+
+-- One flag per user per post
+CREATE UNIQUE INDEX unique_question_flag ON public.flags(user_id, question_id) WHERE question_id IS NOT NULL;
+CREATE UNIQUE INDEX unique_answer_flag ON public.flags(user_id, answer_id) WHERE answer_id IS NOT NULL;
+CREATE UNIQUE INDEX unique_comment_flag ON public.flags(user_id, comment_id) WHERE comment_id IS NOT NULL;
+CREATE INDEX idx_flags_pending ON public.flags(created_at) WHERE status = 'pending';
+
+ALTER TABLE public.flags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own flags and admins all flags"
+  ON public.flags FOR SELECT
+  USING (
+    auth.uid() = user_id OR
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE user_id = auth.uid() AND role = 'admin'
+    )
+  );
+
+-- Flags start pending, and users can't flag their own posts
+CREATE POLICY "Privileged users can flag posts"
+  ON public.flags FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND status = 'pending'
+    AND public.has_privilege(auth.uid(), 'flag')
+    AND NOT EXISTS (
+      SELECT 1 FROM public.questions WHERE id = question_id AND user_id = auth.uid()
+      UNION ALL
+      SELECT 1 FROM public.answers WHERE id = answer_id AND user_id = auth.uid()
+      UNION ALL
+      SELECT 1 FROM public.comments WHERE id = comment_id AND user_id = auth.uid()
+    )
+  );
+
+-- How a user's flags have been judged, shown to admins reviewing new ones
+ALTER TABLE public.profiles
+  ADD COLUMN helpful_flag_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN declined_flag_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.protect_flag_counts()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    NEW.helpful_flag_count := OLD.helpful_flag_count;
+    NEW.declined_flag_count := OLD.declined_flag_count;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER protect_flag_counts_trigger
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.protect_flag_counts();
+
+-- Comments can be hidden by flags too, the same way posts are soft-deleted
+ALTER TABLE public.comments
+  ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN deleted_by UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL;
+
+CREATE POLICY "Hidden comments are only visible to their authors and admins"
+  ON public.comments AS RESTRICTIVE FOR SELECT
+  USING (
+    deleted_at IS NULL OR
+    auth.uid() = user_id OR
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE user_id = auth.uid() AND role = 'admin'
+    )
+  );
+
+CREATE TRIGGER protect_deleted_state_trigger
+  BEFORE UPDATE ON public.comments
+  FOR EACH ROW EXECUTE FUNCTION public.protect_deleted_state();
+
+-- Hide a post once enough users have flagged it as spam. Hidden posts are
+-- soft-deleted with no deleted_by, so only an admin can bring them back.
+CREATE OR REPLACE FUNCTION public.hide_spam_flagged_post()
+RETURNS TRIGGER AS $$
+DECLARE
+  _flags_needed CONSTANT INTEGER := 3;
+BEGIN
+  IF NEW.reason <> 'spam' OR (
+    SELECT COUNT(*) FROM public.flags
+    WHERE status = 'pending' AND reason = 'spam'
+      AND question_id IS NOT DISTINCT FROM NEW.question_id
+      AND answer_id IS NOT DISTINCT FROM NEW.answer_id
+      AND comment_id IS NOT DISTINCT FROM NEW.comment_id
+  ) < _flags_needed THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.questions SET deleted_at = NOW(), deleted_by = NULL
+  WHERE id = NEW.question_id AND deleted_at IS NULL;
+
+  UPDATE public.answers SET deleted_at = NOW(), deleted_by = NULL
+  WHERE id = NEW.answer_id AND deleted_at IS NULL;
+
+  UPDATE public.comments SET deleted_at = NOW(), deleted_by = NULL
+  WHERE id = NEW.comment_id AND deleted_at IS NULL;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER hide_spam_flagged_post_trigger
+  AFTER INSERT ON public.flags
+  FOR EACH ROW EXECUTE FUNCTION public.hide_spam_flagged_post();
+
+-- Resolve every pending flag on a post (pass exactly one id) as helpful or
+-- declined, crediting the flaggers' records. Declining restores a post that
+-- the flags had hidden.
+CREATE OR REPLACE FUNCTION public.review_flags(
+  _helpful BOOLEAN,
+  _question_id UUID DEFAULT NULL,
+  _answer_id UUID DEFAULT NULL,
+  _comment_id UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can review flags';
+  END IF;
+
+  IF num_nonnulls(_question_id, _answer_id, _comment_id) <> 1 THEN
+    RAISE EXCEPTION 'Pass exactly one of a question, an answer or a comment';
+  END IF;
+
+  WITH reviewed AS (
+    UPDATE public.flags
+    SET status = CASE WHEN _helpful THEN 'helpful' ELSE 'declined' END::flag_status,
+        reviewed_by = auth.uid(),
+        reviewed_at = NOW()
+    WHERE status = 'pending'
+      AND question_id IS NOT DISTINCT FROM _question_id
+      AND answer_id IS NOT DISTINCT FROM _answer_id
+      AND comment_id IS NOT DISTINCT FROM _comment_id
+    RETURNING user_id
+  )
+  UPDATE public.profiles p
+  SET helpful_flag_count = helpful_flag_count + CASE WHEN _helpful THEN r.flags ELSE 0 END,
+      declined_flag_count = declined_flag_count + CASE WHEN _helpful THEN 0 ELSE r.flags END
+  FROM (SELECT user_id, COUNT(*) AS flags FROM reviewed GROUP BY user_id) r
+  WHERE p.user_id = r.user_id;
+
+  IF NOT _helpful THEN
+    UPDATE public.questions SET deleted_at = NULL
+    WHERE id = _question_id AND deleted_at IS NOT NULL AND deleted_by IS NULL;
+
+    UPDATE public.answers SET deleted_at = NULL
+    WHERE id = _answer_id AND deleted_at IS NOT NULL AND deleted_by IS NULL;
+
+    UPDATE public.comments SET deleted_at = NULL
+    WHERE id = _comment_id AND deleted_at IS NOT NULL AND deleted_by IS NULL;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Hidden comments are purged along with deleted posts
+CREATE OR REPLACE FUNCTION public.purge_deleted_posts(_retention INTERVAL DEFAULT INTERVAL '30 days')
+RETURNS INTEGER AS $$
+DECLARE
+  _comments INTEGER;
+  _answers INTEGER;
+  _questions INTEGER;
+BEGIN
+  DELETE FROM public.comments WHERE deleted_at < NOW() - _retention;
+  GET DIAGNOSTICS _comments = ROW_COUNT;
+
+  DELETE FROM public.answers WHERE deleted_at < NOW() - _retention;
+  GET DIAGNOSTICS _answers = ROW_COUNT;
+
+  DELETE FROM public.questions WHERE deleted_at < NOW() - _retention;
+  GET DIAGNOSTICS _questions = ROW_COUNT;
+
+  RETURN _comments + _answers + _questions;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
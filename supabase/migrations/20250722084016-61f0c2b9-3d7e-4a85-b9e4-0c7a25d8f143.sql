@@ -0,0 +1,2 @@
+-- Moderators sit between users and admins: they handle content, not roles
+ALTER TYPE public.user_role ADD VALUE 'moderator' BEFORE 'admin';
@@ -0,0 +1,384 @@
+-- Whether a user is staff: moderators and admins
+CREATE OR REPLACE FUNCTION public.is_moderator(_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE user_id = _user_id AND role IN ('moderator', 'admin')
+  );
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Roles only change through set_user_role(), never by editing one's own profile
+CREATE OR REPLACE FUNCTION public.protect_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    NEW.role := OLD.role;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER protect_role_trigger
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.protect_role();
+
+-- Every action taken by staff, with who did it, to whom and when
+CREATE TYPE public.admin_action_type AS ENUM (
+  'role_changed',
+  'user_suspended',
+  'suspension_lifted',
+  'flags_reviewed',
+  'post_deleted',
+  'post_undeleted'
+);
+
+CREATE TABLE public.admin_actions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  actor_id UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  action admin_action_type NOT NULL,
+  target_user_id UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  -- Posts are referenced without foreign keys so entries outlive purged posts
+  question_id UUID,
+  answer_id UUID,
+  comment_id UUID,
+  details JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_admin_actions_created_at ON public.admin_actions(created_at DESC);
+CREATE INDEX idx_admin_actions_target_user_id ON public.admin_actions(target_user_id);
+
+ALTER TABLE public.admin_actions ENABLE ROW LEVEL SECURITY;
+
+-- Entries are only written by the functions below
+CREATE POLICY "Staff can view admin actions"
+  ON public.admin_actions FOR SELECT
+  USING (public.is_moderator(auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.log_admin_action(
+  _action admin_action_type,
+  _target_user_id UUID,
+  _details JSONB DEFAULT '{}',
+  _question_id UUID DEFAULT NULL,
+  _answer_id UUID DEFAULT NULL,
+  _comment_id UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+  INSERT INTO public.admin_actions (actor_id, action, target_user_id, question_id, answer_id, comment_id, details)
+  VALUES (auth.uid(), _action, _target_user_id, _question_id, _answer_id, _comment_id, _details);
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.log_admin_action(admin_action_type, UUID, JSONB, UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Change a user's role (admins only, and not their own)
+CREATE OR REPLACE FUNCTION public.set_user_role(_user_id UUID, _role user_role)
+RETURNS VOID AS $$
+DECLARE
+  _old_role user_role;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can change roles';
+  END IF;
+
+  IF _user_id = auth.uid() THEN
+    RAISE EXCEPTION 'Admins cannot change their own role';
+  END IF;
+
+  SELECT role INTO _old_role FROM public.profiles WHERE user_id = _user_id;
+  IF _old_role IS NULL THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+  IF _old_role = _role THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.profiles SET role = _role WHERE user_id = _user_id;
+
+  PERFORM public.log_admin_action(
+    'role_changed', _user_id, jsonb_build_object('from', _old_role, 'to', _role)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Suspensions stop a user from posting, voting and flagging until they end
+-- or are lifted
+CREATE TABLE public.user_suspensions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  reason TEXT NOT NULL CHECK (char_length(btrim(reason)) BETWEEN 1 AND 500),
+  ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  suspended_by UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  lifted_at TIMESTAMP WITH TIME ZONE,
+  lifted_by UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_user_suspensions_user_id ON public.user_suspensions(user_id, ends_at DESC);
+
+ALTER TABLE public.user_suspensions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own suspensions and staff all suspensions"
+  ON public.user_suspensions FOR SELECT
+  USING (auth.uid() = user_id OR public.is_moderator(auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.is_suspended(_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_suspensions
+    WHERE user_id = _user_id AND lifted_at IS NULL AND ends_at > NOW()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Suspend a user until `_ends_at`, replacing any current suspension. Staff
+-- can't suspend each other; that needs a role change first.
+CREATE OR REPLACE FUNCTION public.suspend_user(_user_id UUID, _ends_at TIMESTAMP WITH TIME ZONE, _reason TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT public.is_moderator(auth.uid()) THEN
+    RAISE EXCEPTION 'Only moderators and admins can suspend users';
+  END IF;
+
+  IF public.is_moderator(_user_id) THEN
+    RAISE EXCEPTION 'Moderators and admins cannot be suspended';
+  END IF;
+
+  IF _ends_at <= NOW() THEN
+    RAISE EXCEPTION 'A suspension has to end in the future';
+  END IF;
+
+  UPDATE public.user_suspensions
+  SET lifted_at = NOW(), lifted_by = auth.uid()
+  WHERE user_id = _user_id AND lifted_at IS NULL AND ends_at > NOW();
+
+  INSERT INTO public.user_suspensions (user_id, reason, ends_at, suspended_by)
+  VALUES (_user_id, btrim(_reason), _ends_at, auth.uid());
+
+  PERFORM public.log_admin_action(
+    'user_suspended', _user_id, jsonb_build_object('reason', btrim(_reason), 'ends_at', _ends_at)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.lift_suspension(_user_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT public.is_moderator(auth.uid()) THEN
+    RAISE EXCEPTION 'Only moderators and admins can lift suspensions';
+  END IF;
+
+  UPDATE public.user_suspensions
+  SET lifted_at = NOW(), lifted_by = auth.uid()
+  WHERE user_id = _user_id AND lifted_at IS NULL AND ends_at > NOW();
+
+  IF FOUND THEN
+    PERFORM public.log_admin_action('suspension_lifted', _user_id);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Suspended users can't add content or take part in voting and flagging
+CREATE POLICY "Suspended users cannot ask questions"
+  ON public.questions AS RESTRICTIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (NOT public.is_suspended(auth.uid()));
+
+CREATE POLICY "Suspended users cannot answer"
+  ON public.answers AS RESTRICTIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (NOT public.is_suspended(auth.uid()));
+
+CREATE POLICY "Suspended users cannot comment"
+  ON public.comments AS RESTRICTIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (NOT public.is_suspended(auth.uid()));
+
+CREATE POLICY "Suspended users cannot vote"
+  ON public.votes AS RESTRICTIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (NOT public.is_suspended(auth.uid()));
+
+CREATE POLICY "Suspended users cannot vote on comments"
+  ON public.comment_votes AS RESTRICTIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (NOT public.is_suspended(auth.uid()));
+
+CREATE POLICY "Suspended users cannot vote to close"
+  ON public.close_votes AS RESTRICTIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (NOT public.is_suspended(auth.uid()));
+
+CREATE POLICY "Suspended users cannot flag"
+  ON public.flags AS RESTRICTIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (NOT public.is_suspended(auth.uid()));
+
+-- Moderators share the admins' content rights: seeing deleted and hidden
+-- posts, deleting and restoring any post, and reviewing flags
+DROP POLICY "Questions are viewable by everyone unless deleted" ON public.questions;
+DROP POLICY "Answers are viewable by everyone unless deleted" ON public.answers;
+DROP POLICY "Hidden comments are only visible to their authors and admins" ON public.comments;
+DROP POLICY "Comment authors and admins can delete comments" ON public.comments;
+DROP POLICY "Users can view their own flags and admins all flags" ON public.flags;
+
+CREATE POLICY "Questions are viewable by everyone unless deleted"
+  ON public.questions FOR SELECT
+  USING (deleted_at IS NULL OR auth.uid() = user_id OR public.is_moderator(auth.uid()));
+
+CREATE POLICY "Answers are viewable by everyone unless deleted"
+  ON public.answers FOR SELECT
+  USING (
+    (
+      deleted_at IS NULL AND
+      EXISTS (SELECT 1 FROM public.questions q WHERE q.id = question_id AND q.deleted_at IS NULL)
+    ) OR
+    auth.uid() = user_id OR
+    public.is_moderator(auth.uid())
+  );
+
+CREATE POLICY "Hidden comments are only visible to their authors and moderators"
+  ON public.comments AS RESTRICTIVE FOR SELECT
+  USING (deleted_at IS NULL OR auth.uid() = user_id OR public.is_moderator(auth.uid()));
+
+CREATE POLICY "Comment authors and moderators can delete comments"
+  ON public.comments FOR DELETE
+  USING (auth.uid() = user_id OR public.is_moderator(auth.uid()));
+
+CREATE POLICY "Users can view their own flags and moderators all flags"
+  ON public.flags FOR SELECT
+  USING (auth.uid() = user_id OR public.is_moderator(auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.delete_post(_question_id UUID DEFAULT NULL, _answer_id UUID DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  _is_moderator BOOLEAN := public.is_moderator(auth.uid());
+  _author_id UUID;
+BEGIN
+  IF (_question_id IS NULL) = (_answer_id IS NULL) THEN
+    RAISE EXCEPTION 'Pass either a question or an answer';
+  END IF;
+
+  IF _question_id IS NOT NULL THEN
+    UPDATE public.questions
+    SET deleted_at = NOW(), deleted_by = auth.uid()
+    WHERE id = _question_id AND deleted_at IS NULL
+      AND (user_id = auth.uid() OR _is_moderator)
+    RETURNING user_id INTO _author_id;
+  ELSE
+    UPDATE public.answers
+    SET deleted_at = NOW(), deleted_by = auth.uid()
+    WHERE id = _answer_id AND deleted_at IS NULL
+      AND (user_id = auth.uid() OR _is_moderator)
+    RETURNING user_id INTO _author_id;
+  END IF;
+
+  IF _author_id IS NULL THEN
+    RAISE EXCEPTION 'Only the author or a moderator can delete this post';
+  END IF;
+
+  IF _author_id <> auth.uid() THEN
+    PERFORM public.log_admin_action('post_deleted', _author_id, '{}', _question_id, _answer_id);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.undelete_post(_question_id UUID DEFAULT NULL, _answer_id UUID DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  _is_moderator BOOLEAN := public.is_moderator(auth.uid());
+  _author_id UUID;
+BEGIN
+  IF (_question_id IS NULL) = (_answer_id IS NULL) THEN
+    RAISE EXCEPTION 'Pass either a question or an answer';
+  END IF;
+
+  IF _question_id IS NOT NULL THEN
+    UPDATE public.questions
+    SET deleted_at = NULL, deleted_by = NULL
+    WHERE id = _question_id AND deleted_at IS NOT NULL
+      AND ((user_id = auth.uid() AND deleted_by = auth.uid()) OR _is_moderator)
+    RETURNING user_id INTO _author_id;
+  ELSE
+    UPDATE public.answers
+    SET deleted_at = NULL, deleted_by = NULL
+    WHERE id = _answer_id AND deleted_at IS NOT NULL
+      AND ((user_id = auth.uid() AND deleted_by = auth.uid()) OR _is_moderator)
+    RETURNING user_id INTO _author_id;
+  END IF;
+
+  IF _author_id IS NULL THEN
+    RAISE EXCEPTION 'Only the author or a moderator can undelete this post';
+  END IF;
+
+  IF _author_id <> auth.uid() THEN
+    PERFORM public.log_admin_action('post_undeleted', _author_id, '{}', _question_id, _answer_id);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.review_flags(
+  _helpful BOOLEAN,
+  _question_id UUID DEFAULT NULL,
+  _answer_id UUID DEFAULT NULL,
+  _comment_id UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  _flag_count INTEGER;
+BEGIN
+  IF NOT public.is_moderator(auth.uid()) THEN
+    RAISE EXCEPTION 'Only moderators and admins can review flags';
+  END IF;
+
+  IF num_nonnulls(_question_id, _answer_id, _comment_id) <> 1 THEN
+    RAISE EXCEPTION 'Pass exactly one of a question, an answer or a comment';
+  END IF;
+
+  WITH reviewed AS (
+    UPDATE public.flags
+    SET status = CASE WHEN _helpful THEN 'helpful' ELSE 'declined' END::flag_status,
+        reviewed_by = auth.uid(),
+        reviewed_at = NOW()
+    WHERE status = 'pending'
+      AND question_id IS NOT DISTINCT FROM _question_id
+      AND answer_id IS NOT DISTINCT FROM _answer_id
+      AND comment_id IS NOT DISTINCT FROM _comment_id
+    RETURNING user_id
+  ),
+  credited AS (
+    UPDATE public.profiles p
+    SET helpful_flag_count = helpful_flag_count + CASE WHEN _helpful THEN r.flags ELSE 0 END,
+        declined_flag_count = declined_flag_count + CASE WHEN _helpful THEN 0 ELSE r.flags END
+    FROM (SELECT user_id, COUNT(*) AS flags FROM reviewed GROUP BY user_id) r
+    WHERE p.user_id = r.user_id
+    RETURNING r.flags
+  )
+  SELECT COALESCE(SUM(flags), 0) INTO _flag_count FROM credited;
+
+  IF NOT _helpful THEN
+    UPDATE public.questions SET deleted_at = NULL
+    WHERE id = _question_id AND deleted_at IS NOT NULL AND deleted_by IS NULL;
+
+    UPDATE public.answers SET deleted_at = NULL
+    WHERE id = _answer_id AND deleted_at IS NOT NULL AND deleted_by IS NULL;
+
+    UPDATE public.comments SET deleted_at = NULL
+    WHERE id = _comment_id AND deleted_at IS NOT NULL AND deleted_by IS NULL;
+  END IF;
+
+  IF _flag_count > 0 THEN
+    PERFORM public.log_admin_action(
+      'flags_reviewed',
+      COALESCE(
+        (SELECT user_id FROM public.questions WHERE id = _question_id),
+        (SELECT user_id FROM public.answers WHERE id = _answer_id),
+        (SELECT user_id FROM public.comments WHERE id = _comment_id)
+      ),
+      jsonb_build_object('helpful', _helpful, 'flags', _flag_count),
+      _question_id, _answer_id, _comment_id
+    );
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,93 @@
+-- Whether a user is an admin (moderators excluded)
+CREATE OR REPLACE FUNCTION public.is_admin(_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE user_id = _user_id AND role = 'admin'
+  );
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Row-level history of destructive and privileged changes, written by triggers only
+CREATE TYPE public.audit_operation AS ENUM ('update', 'delete');
+
+CREATE TABLE public.audit_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  table_name TEXT NOT NULL,
+  record_id UUID NOT NULL,
+  operation audit_operation NOT NULL,
+  -- NULL for changes made by scheduled jobs; no foreign key so entries outlive deleted users
+  actor_id UUID,
+  old_data JSONB NOT NULL,
+  new_data JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_audit_log_created_at ON public.audit_log(created_at DESC);
+CREATE INDEX idx_audit_log_table_name ON public.audit_log(table_name, created_at DESC);
+CREATE INDEX idx_audit_log_actor_id ON public.audit_log(actor_id);
+CREATE INDEX idx_audit_log_record_id ON public.audit_log(record_id);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view the audit log"
+  ON public.audit_log FOR SELECT
+  USING (public.is_admin(auth.uid()));
+
+-- Append-only, even for privileged roles
+REVOKE UPDATE, DELETE, TRUNCATE ON public.audit_log FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'The audit log is append-only';
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER prevent_audit_log_changes_trigger
+  BEFORE UPDATE OR DELETE ON public.audit_log
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+-- Records the before/after snapshot of an updated or deleted row. Trigger arguments
+-- name derived columns (counters, timestamps) whose changes alone aren't recorded.
+CREATE OR REPLACE FUNCTION public.audit_row_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  _ignored TEXT[] := COALESCE(TG_ARGV::TEXT[], '{}');
+  _old JSONB := to_jsonb(OLD) - 'search_vector';
+  _new JSONB;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    _new := to_jsonb(NEW) - 'search_vector';
+    IF (_old - _ignored) = (_new - _ignored) THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  INSERT INTO public.audit_log (table_name, record_id, operation, actor_id, old_data, new_data)
+  VALUES (TG_TABLE_NAME, OLD.id, lower(TG_OP)::audit_operation, auth.uid(), _old, _new);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER audit_questions_trigger
+  AFTER UPDATE OR DELETE ON public.questions
+  FOR EACH ROW EXECUTE FUNCTION public.audit_row_change(
+    'answer_count', 'upvote_count', 'downvote_count', 'score', 'view_count', 'has_accepted_answer', 'updated_at'
+  );
+
+CREATE TRIGGER audit_answers_trigger
+  AFTER UPDATE OR DELETE ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.audit_row_change(
+    'upvote_count', 'downvote_count', 'score', 'updated_at'
+  );
+
+CREATE TRIGGER audit_votes_trigger
+  AFTER UPDATE OR DELETE ON public.votes
+  FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_profile_role_trigger
+  AFTER UPDATE OF role ON public.profiles
+  FOR EACH ROW
+  WHEN (OLD.role IS DISTINCT FROM NEW.role)
+  EXECUTE FUNCTION public.audit_row_change();
@@ -0,0 +1,193 @@
+-- Server-enforced limits on how often a user can post and vote
+CREATE TYPE public.rate_limited_action AS ENUM ('question', 'answer', 'vote');
+
+CREATE TABLE public.rate_limits (
+  action rate_limited_action NOT NULL PRIMARY KEY,
+  max_count INTEGER NOT NULL CHECK (max_count > 0),
+  window_hours INTEGER NOT NULL CHECK (window_hours > 0),
+  -- Accounts younger than new_account_hours get the stricter new_account_max_count
+  new_account_max_count INTEGER NOT NULL CHECK (new_account_max_count > 0),
+  new_account_hours INTEGER NOT NULL CHECK (new_account_hours >= 0),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_by UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  CONSTRAINT new_account_limit_check CHECK (new_account_max_count <= max_count)
+);
+
+INSERT INTO public.rate_limits (action, max_count, window_hours, new_account_max_count, new_account_hours) VALUES
+  ('question', 5, 1, 1, 24),
+  ('answer', 10, 1, 3, 24),
+  ('vote', 40, 24, 10, 24);
+
+ALTER TABLE public.rate_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Rate limits are viewable by everyone"
+  ON public.rate_limits FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can update rate limits"
+  ON public.rate_limits FOR UPDATE
+  USING (public.is_admin(auth.uid()));
+
+CREATE TRIGGER update_rate_limits_updated_at
+  BEFORE UPDATE ON public.rate_limits
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- One row per rate-limited action taken. Votes are counted here rather than in
+-- the votes table so that removing and re-casting a vote still counts.
+CREATE TABLE public.rate_limit_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  action rate_limited_action NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_rate_limit_events_user_action ON public.rate_limit_events(user_id, action, created_at DESC);
+
+-- Only read and written by the functions below
+ALTER TABLE public.rate_limit_events ENABLE ROW LEVEL SECURITY;
+
+-- Whether a write should be rate limited. Staff, the service role and scheduled jobs
+-- are exempt; the request's JWT role is checked because current_user is the function
+-- owner inside the SECURITY DEFINER triggers below.
+CREATE OR REPLACE FUNCTION public.is_rate_limited_user(_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(auth.role() IN ('anon', 'authenticated'), false)
+    AND NOT public.is_moderator(_user_id);
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Rejects the insert (or vote change) once the user has used up their allowance.
+-- The action is passed as the trigger argument.
+CREATE OR REPLACE FUNCTION public.enforce_rate_limit()
+RETURNS TRIGGER AS $$
+DECLARE
+  _action rate_limited_action := TG_ARGV[0]::rate_limited_action;
+  _limit public.rate_limits;
+  _new_account BOOLEAN;
+  _max INTEGER;
+  _used INTEGER;
+  _oldest TIMESTAMP WITH TIME ZONE;
+  _period TEXT;
+  _wait_minutes INTEGER;
+BEGIN
+  IF NOT public.is_rate_limited_user(NEW.user_id) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _limit FROM public.rate_limits WHERE action = _action;
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT created_at > NOW() - make_interval(hours => _limit.new_account_hours) INTO _new_account
+  FROM public.profiles WHERE user_id = NEW.user_id;
+
+  _max := CASE WHEN _new_account THEN _limit.new_account_max_count ELSE _limit.max_count END;
+
+  SELECT COUNT(*), MIN(created_at) INTO _used, _oldest
+  FROM (
+    SELECT created_at FROM public.rate_limit_events
+    WHERE user_id = NEW.user_id
+      AND action = _action
+      AND created_at > NOW() - make_interval(hours => _limit.window_hours)
+    ORDER BY created_at DESC
+    LIMIT _max
+  ) recent;
+
+  IF _used >= _max THEN
+    _period := CASE
+      WHEN _limit.window_hours = 1 THEN 'hour'
+      WHEN _limit.window_hours = 24 THEN 'day'
+      WHEN _limit.window_hours % 24 = 0 THEN (_limit.window_hours / 24) || ' days'
+      ELSE _limit.window_hours || ' hours'
+    END;
+    _wait_minutes := GREATEST(1, CEIL(EXTRACT(EPOCH FROM (
+      _oldest + make_interval(hours => _limit.window_hours) - NOW()
+    )) / 60));
+
+    RAISE EXCEPTION '% can % at most % % per %. Try again in %.',
+      CASE WHEN _new_account THEN 'New accounts' ELSE 'You' END,
+      CASE WHEN _action = 'vote' THEN 'cast' ELSE 'post' END,
+      _max,
+      CASE WHEN _max = 1 THEN _action::TEXT ELSE _action || 's' END,
+      _period,
+      CASE
+        WHEN _wait_minutes >= 120 THEN (_wait_minutes / 60) || ' hours'
+        WHEN _wait_minutes = 1 THEN '1 minute'
+        ELSE _wait_minutes || ' minutes'
+      END
+      USING ERRCODE = 'PT429';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Runs after the row is written so an upserted vote is counted once, not once
+-- for the attempted insert and again for the conflicting update
+CREATE OR REPLACE FUNCTION public.record_rate_limited_action()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF public.is_rate_limited_user(NEW.user_id) THEN
+    INSERT INTO public.rate_limit_events (user_id, action)
+    VALUES (NEW.user_id, TG_ARGV[0]::rate_limited_action);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER enforce_question_rate_limit
+  BEFORE INSERT ON public.questions
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_rate_limit('question');
+
+CREATE TRIGGER record_question_rate_limit
+  AFTER INSERT ON public.questions
+  FOR EACH ROW EXECUTE FUNCTION public.record_rate_limited_action('question');
+
+CREATE TRIGGER enforce_answer_rate_limit
+  BEFORE INSERT ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_rate_limit('answer');
+
+CREATE TRIGGER record_answer_rate_limit
+  AFTER INSERT ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.record_rate_limited_action('answer');
+
+-- Changing the direction of an existing vote counts as casting a new one
+CREATE TRIGGER enforce_vote_rate_limit
+  BEFORE INSERT ON public.votes
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_rate_limit('vote');
+
+CREATE TRIGGER enforce_vote_change_rate_limit
+  BEFORE UPDATE OF vote_type ON public.votes
+  FOR EACH ROW
+  WHEN (OLD.vote_type IS DISTINCT FROM NEW.vote_type)
+  EXECUTE FUNCTION public.enforce_rate_limit('vote');
+
+CREATE TRIGGER record_vote_rate_limit
+  AFTER INSERT ON public.votes
+  FOR EACH ROW EXECUTE FUNCTION public.record_rate_limited_action('vote');
+
+CREATE TRIGGER record_vote_change_rate_limit
+  AFTER UPDATE OF vote_type ON public.votes
+  FOR EACH ROW
+  WHEN (OLD.vote_type IS DISTINCT FROM NEW.vote_type)
+  EXECUTE FUNCTION public.record_rate_limited_action('vote');
+
+-- Events only matter within their action's window
+CREATE OR REPLACE FUNCTION public.purge_rate_limit_events()
+RETURNS INTEGER AS $$
+DECLARE
+  _deleted INTEGER;
+BEGIN
+  DELETE FROM public.rate_limit_events e
+  USING public.rate_limits l
+  WHERE e.action = l.action
+    AND e.created_at < NOW() - make_interval(hours => l.window_hours);
+  GET DIAGNOSTICS _deleted = ROW_COUNT;
+
+  RETURN _deleted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.purge_rate_limit_events() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('purge-rate-limit-events', '15 * * * *', 'SELECT public.purge_rate_limit_events()');
@@ -0,0 +1,3 @@
+-- Audit log entries for approved held posts (added on its own so the value
+-- is committed before review_held_post uses it)
+ALTER TYPE public.admin_action_type ADD VALUE 'post_approved';
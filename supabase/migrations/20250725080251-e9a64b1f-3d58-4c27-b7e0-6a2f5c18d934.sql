@@ -0,0 +1,446 @@
+-- Admin-managed blocklist consulted by the content filter
+CREATE TYPE public.blocked_term_kind AS ENUM ('word', 'regex', 'domain');
+
+CREATE TABLE public.blocked_terms (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  kind blocked_term_kind NOT NULL,
+  pattern TEXT NOT NULL,
+  created_by UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT blocked_term_length_check CHECK (char_length(pattern) BETWEEN 1 AND 200 AND pattern = btrim(pattern)),
+  CONSTRAINT blocked_domain_check CHECK (kind <> 'domain' OR pattern ~ '^[a-z0-9-]+(\.[a-z0-9-]+)+$'),
+  -- Rejects patterns that don't compile (raises invalid_regular_expression)
+  CONSTRAINT blocked_regex_check CHECK (kind <> 'regex' OR ('' ~* pattern) IS NOT NULL)
+);
+
+CREATE UNIQUE INDEX idx_blocked_terms_kind_pattern ON public.blocked_terms(kind, lower(pattern));
+
+ALTER TABLE public.blocked_terms ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view blocked terms"
+  ON public.blocked_terms FOR SELECT
+  USING (public.is_admin(auth.uid()));
+
+CREATE POLICY "Admins can add blocked terms"
+  ON public.blocked_terms FOR INSERT
+  WITH CHECK (public.is_admin(auth.uid()) AND created_by = auth.uid());
+
+CREATE POLICY "Admins can remove blocked terms"
+  ON public.blocked_terms FOR DELETE
+  USING (public.is_admin(auth.uid()));
+
+-- Posts that trip the filter are held for moderator review rather than rejected
+ALTER TABLE public.questions
+  ADD COLUMN held_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN held_reason TEXT;
+
+ALTER TABLE public.answers
+  ADD COLUMN held_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN held_reason TEXT;
+
+CREATE INDEX idx_questions_held_at ON public.questions(held_at) WHERE held_at IS NOT NULL;
+CREATE INDEX idx_answers_held_at ON public.answers(held_at) WHERE held_at IS NOT NULL;
+
+CREATE POLICY "Held questions are visible to their author and moderators"
+  ON public.questions AS RESTRICTIVE FOR SELECT
+  USING (held_at IS NULL OR user_id = auth.uid() OR public.is_moderator(auth.uid()));
+
+CREATE POLICY "Held answers are visible to their author and moderators"
+  ON public.answers AS RESTRICTIVE FOR SELECT
+  USING (held_at IS NULL OR user_id = auth.uid() OR public.is_moderator(auth.uid()));
+
+-- Revisions and comments follow their post through the policies above. A held
+-- question also hides its answers and takes no new ones until it's approved.
+DROP POLICY "Answers are viewable by everyone unless deleted" ON public.answers;
+
+CREATE POLICY "Answers are viewable by everyone unless deleted"
+  ON public.answers FOR SELECT
+  USING (
+    (
+      deleted_at IS NULL AND
+      EXISTS (
+        SELECT 1 FROM public.questions q
+        WHERE q.id = question_id AND q.deleted_at IS NULL AND q.held_at IS NULL
+      )
+    ) OR
+    auth.uid() = user_id OR
+    public.is_moderator(auth.uid())
+  );
+
+CREATE POLICY "Answers cannot be added to held questions"
+  ON public.answers AS RESTRICTIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.questions
+      WHERE id = question_id AND held_at IS NULL
+    )
+  );
+
+-- Held and rejected answers stay out of their question's search document
+CREATE OR REPLACE FUNCTION public.question_search_vector(_question_id UUID, _title TEXT, _description TEXT, _tags TEXT[])
+RETURNS tsvector AS $$
+  SELECT
+    setweight(to_tsvector('english', COALESCE(_title, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(array_to_string(_tags, ' '), '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(_description, '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(
+      (SELECT string_agg(content, ' ') FROM public.answers
+       WHERE question_id = _question_id AND held_at IS NULL AND deleted_at IS NULL), ''
+    )), 'C');
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+DROP TRIGGER update_answer_search_vector_trigger ON public.answers;
+
+CREATE TRIGGER update_answer_search_vector_trigger
+  AFTER INSERT OR UPDATE OF content, held_at, deleted_at OR DELETE ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.update_answer_search_vector();
+
+-- Held answers don't count towards a question's answers either, until approved
+CREATE OR REPLACE FUNCTION public.update_question_answer_count()
+RETURNS TRIGGER AS $$
+DECLARE
+  _counted_before INTEGER := 0;
+  _counted_after INTEGER := 0;
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    _counted_before := (OLD.deleted_at IS NULL AND OLD.held_at IS NULL)::INTEGER;
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    _counted_after := (NEW.deleted_at IS NULL AND NEW.held_at IS NULL)::INTEGER;
+  END IF;
+
+  IF _counted_after <> _counted_before THEN
+    UPDATE public.questions
+    SET answer_count = answer_count + _counted_after - _counted_before
+    WHERE id = COALESCE(NEW.question_id, OLD.question_id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER update_answer_count_on_soft_delete ON public.answers;
+
+CREATE TRIGGER update_answer_count_on_visibility_change
+  AFTER UPDATE OF deleted_at, held_at ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.update_question_answer_count();
+
+-- Whitespace- and case-insensitive fingerprint of a post body, used to spot copy-pasted spam
+CREATE OR REPLACE FUNCTION public.content_fingerprint(_content TEXT)
+RETURNS TEXT AS $$
+  SELECT md5(lower(regexp_replace(btrim(_content), '\s+', ' ', 'g')));
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+CREATE INDEX idx_questions_content_fingerprint ON public.questions(public.content_fingerprint(description));
+CREATE INDEX idx_answers_content_fingerprint ON public.answers(public.content_fingerprint(content));
+
+-- Why a post should be held, or NULL if it passes. `_text` is everything the
+-- blocklist applies to; `_body` is the part checked for duplicates.
+CREATE OR REPLACE FUNCTION public.content_filter_reason(
+  _text TEXT,
+  _body TEXT,
+  _user_id UUID,
+  _post_id UUID
+)
+RETURNS TEXT AS $$
+DECLARE
+  -- Mirror the constants in src/lib/contentFilter.ts
+  _duplicates_to_hold CONSTANT INTEGER := 2;
+  _duplicate_window CONSTANT INTERVAL := INTERVAL '30 days';
+  _link_limit_reputation CONSTANT INTEGER := 10;
+  _max_links CONSTANT INTEGER := 2;
+  _term RECORD;
+  _fingerprint TEXT := public.content_fingerprint(_body);
+  _duplicates INTEGER;
+  _links INTEGER;
+BEGIN
+  FOR _term IN SELECT kind, pattern FROM public.blocked_terms ORDER BY created_at LOOP
+    -- Words are matched literally, bounded by non-word characters rather than
+    -- \m/\M so terms like "c++" or ".net" still match
+    IF _term.kind = 'word'
+      AND _text ~* ('(^|\W)' || regexp_replace(_term.pattern, '([.\\+*?\[^\]$(){}=!<>|:#-])', '\\\1', 'g') || '($|\W)') THEN
+      RETURN format('Contains the blocked word "%s"', _term.pattern);
+    ELSIF _term.kind = 'regex' AND _text ~* _term.pattern THEN
+      RETURN 'Matches a blocked pattern';
+    ELSIF _term.kind = 'domain' AND EXISTS (
+      SELECT 1 FROM regexp_matches(_text, 'https?://([a-z0-9.-]+)', 'gi') AS link(parts)
+      WHERE lower(link.parts[1]) = _term.pattern OR lower(link.parts[1]) LIKE '%.' || _term.pattern
+    ) THEN
+      RETURN format('Links to the blocked domain %s', _term.pattern);
+    END IF;
+  END LOOP;
+
+  SELECT
+    (SELECT COUNT(*) FROM public.questions
+     WHERE public.content_fingerprint(description) = _fingerprint
+       AND id <> _post_id AND created_at > NOW() - _duplicate_window)
+    + (SELECT COUNT(*) FROM public.answers
+       WHERE public.content_fingerprint(content) = _fingerprint
+         AND id <> _post_id AND created_at > NOW() - _duplicate_window)
+  INTO _duplicates;
+
+  IF _duplicates >= _duplicates_to_hold THEN
+    RETURN format('Identical text was already posted %s times', _duplicates);
+  END IF;
+
+  IF (SELECT reputation FROM public.profiles WHERE user_id = _user_id) < _link_limit_reputation THEN
+    SELECT COUNT(*) INTO _links FROM regexp_matches(_text, 'https?://', 'gi');
+    IF _links > _max_links THEN
+      RETURN format('%s links from a user with under %s reputation', _links, _link_limit_reputation);
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.content_filter_reason(TEXT, TEXT, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Holds new or edited posts that fail the filter, and keeps other users from
+-- changing the held state themselves. Staff, the service role and scheduled
+-- jobs are exempt (auth.role() is checked because current_user is the owner here).
+CREATE OR REPLACE FUNCTION public.filter_post_content()
+RETURNS TRIGGER AS $$
+DECLARE
+  _changed BOOLEAN;
+  _text TEXT;
+  _body TEXT;
+  _reason TEXT;
+BEGIN
+  IF NOT COALESCE(auth.role() IN ('anon', 'authenticated'), false)
+    OR public.is_moderator(auth.uid()) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.held_at := NULL;
+    NEW.held_reason := NULL;
+  ELSE
+    NEW.held_at := OLD.held_at;
+    NEW.held_reason := OLD.held_reason;
+  END IF;
+
+  IF TG_TABLE_NAME = 'questions' THEN
+    _changed := TG_OP = 'INSERT'
+      OR NEW.title IS DISTINCT FROM OLD.title
+      OR NEW.description IS DISTINCT FROM OLD.description;
+    _text := NEW.title || E'\n' || NEW.description;
+    _body := NEW.description;
+  ELSE
+    _changed := TG_OP = 'INSERT' OR NEW.content IS DISTINCT FROM OLD.content;
+    _text := NEW.content;
+    _body := NEW.content;
+  END IF;
+
+  IF NOT _changed THEN
+    RETURN NEW;
+  END IF;
+
+  _reason := public.content_filter_reason(_text, _body, NEW.user_id, NEW.id);
+  IF _reason IS NOT NULL THEN
+    NEW.held_at := NOW();
+    NEW.held_reason := _reason;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER filter_question_content_trigger
+  BEFORE INSERT OR UPDATE ON public.questions
+  FOR EACH ROW EXECUTE FUNCTION public.filter_post_content();
+
+CREATE TRIGGER filter_answer_content_trigger
+  BEFORE INSERT OR UPDATE ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.filter_post_content();
+
+-- Held posts don't notify anyone, so spam never reaches an inbox. Approving
+-- a post sends the notifications it held back, as if it had just been posted;
+-- rejecting it (which deletes it) sends nothing.
+DROP TRIGGER notify_new_answer_trigger ON public.answers;
+
+CREATE TRIGGER notify_new_answer_trigger
+  AFTER INSERT ON public.answers
+  FOR EACH ROW
+  WHEN (NEW.held_at IS NULL)
+  EXECUTE FUNCTION public.notify_new_answer();
+
+CREATE TRIGGER notify_approved_answer_trigger
+  AFTER UPDATE OF held_at ON public.answers
+  FOR EACH ROW
+  WHEN (OLD.held_at IS NOT NULL AND NEW.held_at IS NULL AND NEW.deleted_at IS NULL)
+  EXECUTE FUNCTION public.notify_new_answer();
+
+-- Same as before, except that a post leaving the hold has its mentions
+-- processed even though its text didn't change
+CREATE OR REPLACE FUNCTION public.process_mentions()
+RETURNS TRIGGER AS $$
+DECLARE
+  _content TEXT;
+  _question_id UUID;
+  _answer_id UUID;
+  _comment_id UUID;
+  _link_question_id UUID;
+  _link_answer_id UUID;
+  _context TEXT;
+  _question_title TEXT;
+  _author_username TEXT;
+  _mentioned_user UUID;
+BEGIN
+  IF TG_TABLE_NAME = 'questions' THEN
+    IF TG_OP = 'UPDATE' AND OLD.description IS NOT DISTINCT FROM NEW.description
+      AND (OLD.held_at IS NULL OR NEW.deleted_at IS NOT NULL) THEN
+      RETURN NEW;
+    END IF;
+    _content := NEW.description;
+    _question_id := NEW.id;
+    _link_question_id := NEW.id;
+    _context := 'a question';
+  ELSIF TG_TABLE_NAME = 'answers' THEN
+    IF TG_OP = 'UPDATE' AND OLD.content IS NOT DISTINCT FROM NEW.content
+      AND (OLD.held_at IS NULL OR NEW.deleted_at IS NOT NULL) THEN
+      RETURN NEW;
+    END IF;
+    _content := NEW.content;
+    _answer_id := NEW.id;
+    _link_question_id := NEW.question_id;
+    _link_answer_id := NEW.id;
+    _context := 'an answer to';
+  ELSE
+    IF TG_OP = 'UPDATE' AND OLD.content IS NOT DISTINCT FROM NEW.content THEN
+      RETURN NEW;
+    END IF;
+    _content := NEW.content;
+    _comment_id := NEW.id;
+    _link_answer_id := NEW.answer_id;
+    _link_question_id := COALESCE(
+      NEW.question_id,
+      (SELECT question_id FROM public.answers WHERE id = NEW.answer_id)
+    );
+    _context := 'a comment on';
+  END IF;
+
+  SELECT title INTO _question_title FROM public.questions WHERE id = _link_question_id;
+  SELECT username INTO _author_username FROM public.profiles WHERE user_id = NEW.user_id;
+
+  -- Forget mentions removed by an edit
+  DELETE FROM public.mentions
+  WHERE COALESCE(question_id, answer_id, comment_id) = NEW.id
+    AND user_id NOT IN (SELECT public.extract_mentioned_user_ids(_content, NEW.user_id));
+
+  -- Only users not already mentioned in this post are recorded and notified
+  FOR _mentioned_user IN
+    SELECT mentioned.user_id
+    FROM public.extract_mentioned_user_ids(_content, NEW.user_id) AS mentioned(user_id)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.mentions
+      WHERE mentions.user_id = mentioned.user_id
+        AND COALESCE(question_id, answer_id, comment_id) = NEW.id
+    )
+  LOOP
+    INSERT INTO public.mentions (user_id, question_id, answer_id, comment_id, mentioned_by)
+    VALUES (_mentioned_user, _question_id, _answer_id, _comment_id, NEW.user_id);
+
+    INSERT INTO public.notifications (user_id, type, title, message, question_id, answer_id, comment_id, mentioned_by)
+    VALUES (
+      _mentioned_user,
+      'mention',
+      '@' || _author_username || ' mentioned you',
+      'You were mentioned in ' || _context || ' "' || _question_title || '"',
+      _link_question_id,
+      _link_answer_id,
+      _comment_id,
+      NEW.user_id
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER process_question_mentions ON public.questions;
+
+CREATE TRIGGER process_question_mentions
+  AFTER INSERT OR UPDATE ON public.questions
+  FOR EACH ROW
+  WHEN (NEW.held_at IS NULL)
+  EXECUTE FUNCTION public.process_mentions();
+
+DROP TRIGGER process_answer_mentions ON public.answers;
+
+CREATE TRIGGER process_answer_mentions
+  AFTER INSERT OR UPDATE ON public.answers
+  FOR EACH ROW
+  WHEN (NEW.held_at IS NULL)
+  EXECUTE FUNCTION public.process_mentions();
+
+DROP TRIGGER notify_question_edit_trigger ON public.questions;
+
+CREATE TRIGGER notify_question_edit_trigger
+  AFTER UPDATE ON public.questions
+  FOR EACH ROW
+  WHEN (NEW.held_at IS NULL)
+  EXECUTE FUNCTION public.notify_followers_of_edit();
+
+DROP TRIGGER notify_answer_edit_trigger ON public.answers;
+
+CREATE TRIGGER notify_answer_edit_trigger
+  AFTER UPDATE ON public.answers
+  FOR EACH ROW
+  WHEN (NEW.held_at IS NULL)
+  EXECUTE FUNCTION public.notify_followers_of_edit();
+
+-- Approve a held post (making it visible) or reject it (deleting it)
+CREATE OR REPLACE FUNCTION public.review_held_post(
+  _approve BOOLEAN,
+  _question_id UUID DEFAULT NULL,
+  _answer_id UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  _author_id UUID;
+  _reason TEXT;
+BEGIN
+  IF NOT public.is_moderator(auth.uid()) THEN
+    RAISE EXCEPTION 'Only moderators and admins can review held posts';
+  END IF;
+
+  IF (_question_id IS NULL) = (_answer_id IS NULL) THEN
+    RAISE EXCEPTION 'Exactly one of _question_id and _answer_id must be given';
+  END IF;
+
+  IF _question_id IS NOT NULL THEN
+    SELECT held_reason INTO _reason FROM public.questions WHERE id = _question_id;
+
+    UPDATE public.questions
+    SET held_at = NULL,
+        held_reason = NULL,
+        deleted_at = CASE WHEN _approve THEN deleted_at ELSE NOW() END,
+        deleted_by = CASE WHEN _approve THEN deleted_by ELSE auth.uid() END
+    WHERE id = _question_id AND held_at IS NOT NULL
+    RETURNING user_id INTO _author_id;
+  ELSE
+    SELECT held_reason INTO _reason FROM public.answers WHERE id = _answer_id;
+
+    UPDATE public.answers
+    SET held_at = NULL,
+        held_reason = NULL,
+        deleted_at = CASE WHEN _approve THEN deleted_at ELSE NOW() END,
+        deleted_by = CASE WHEN _approve THEN deleted_by ELSE auth.uid() END
+    WHERE id = _answer_id AND held_at IS NOT NULL
+    RETURNING user_id INTO _author_id;
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This post is not held for review';
+  END IF;
+
+  PERFORM public.log_admin_action(
+    CASE WHEN _approve THEN 'post_approved' ELSE 'post_deleted' END::admin_action_type,
+    _author_id,
+    jsonb_build_object('held_reason', _reason),
+    _question_id,
+    _answer_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,259 @@
+// @vitest-environment node
+import { beforeAll, describe, expect, it } from 'vitest';
+import { PGlite } from '@electric-sql/pglite';
+import { asClient, createTestDatabase, createUser } from './database';
+
+let db: PGlite;
+let userCount = 0;
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+}, 120_000);
+
+const newUser = () => createUser(db, `user${++userCount}`);
+
+const createQuestion = async (userId: string, tags: string[] = ['general']) => {
+  const { rows } = await db.query<{ id: string }>(
+    `INSERT INTO public.questions (title, description, tags, user_id)
+     VALUES ('How do I do this?', 'Some details about the problem.', $1, $2)
+     RETURNING id`,
+    [tags, userId]
+  );
+  return rows[0].id;
+};
+
+const createAnswer = async (userId: string, questionId: string, score = 0) => {
+  const { rows } = await db.query<{ id: string }>(
+    `INSERT INTO public.answers (question_id, content, user_id)
+     VALUES ($1, 'Try this approach.', $2)
+     RETURNING id`,
+    [questionId, userId]
+  );
+  if (score !== 0) {
+    await db.query('UPDATE public.answers SET upvote_count = $1 WHERE id = $2', [score, rows[0].id]);
+  }
+  return rows[0].id;
+};
+
+// Awarded badges as `slug` or `slug:tag`, sorted
+const badgesOf = async (userId: string) => {
+  const { rows } = await db.query<{ badge: string }>(
+    `SELECT b.slug || COALESCE(':' || ub.tag, '') AS badge
+     FROM public.user_badges ub
+     JOIN public.badges b ON b.id = ub.badge_id
+     WHERE ub.user_id = $1
+     ORDER BY 1`,
+    [userId]
+  );
+  return rows.map(row => row.badge);
+};
+
+describe('accepted_answers rule', () => {
+  it('awards Scholar when an answer to someone else\'s question is accepted', async () => {
+    const asker = await newUser();
+    const answerer = await newUser();
+    const answerId = await createAnswer(answerer, await createQuestion(asker));
+
+    expect(await badgesOf(answerer)).toEqual([]);
+
+    await asClient(db, asker, tx => tx.query('SELECT public.accept_answer($1)', [answerId]));
+
+    expect(await badgesOf(answerer)).toEqual(['scholar']);
+  });
+
+  it('ignores answers accepted on your own question', async () => {
+    const asker = await newUser();
+    const answerId = await createAnswer(asker, await createQuestion(asker));
+
+    await asClient(db, asker, tx => tx.query('SELECT public.accept_answer($1)', [answerId]));
+
+    expect(await badgesOf(asker)).toEqual([]);
+  });
+
+  it('notifies the user once per badge', async () => {
+    const asker = await newUser();
+    const answerer = await newUser();
+    const questionId = await createQuestion(asker);
+    const first = await createAnswer(answerer, questionId);
+    const second = await createAnswer(answerer, questionId);
+
+    await asClient(db, asker, tx => tx.query('SELECT public.accept_answer($1)', [first]));
+    await asClient(db, asker, tx => tx.query('SELECT public.accept_answer($1)', [second]));
+    await db.query('SELECT public.evaluate_badges($1)', [answerer]);
+
+    const { rows } = await db.query<{ title: string }>(
+      `SELECT title FROM public.notifications WHERE user_id = $1 AND type = 'badge'`,
+      [answerer]
+    );
+    expect(rows.map(row => row.title)).toEqual(['You earned the "Scholar" badge']);
+  });
+});
+
+describe('answers_with_score rule', () => {
+  it('awards Trusted Answerer for 10 answers scoring 5 or more', async () => {
+    const asker = await newUser();
+    const answerer = await newUser();
+    const questionId = await createQuestion(asker);
+
+    for (let i = 0; i < 9; i++) {
+      await createAnswer(answerer, questionId, 5);
+    }
+    await createAnswer(answerer, questionId, 4);
+    expect(await badgesOf(answerer)).toEqual([]);
+
+    await createAnswer(answerer, questionId, 5);
+    expect(await badgesOf(answerer)).toEqual(['trusted-answerer']);
+  });
+});
+
+describe('question_views rule', () => {
+  it('awards each view badge as its threshold is crossed', async () => {
+    const asker = await newUser();
+    const questionId = await createQuestion(asker);
+
+    await db.query('UPDATE public.questions SET view_count = 999 WHERE id = $1', [questionId]);
+    expect(await badgesOf(asker)).toEqual([]);
+
+    await db.query('UPDATE public.questions SET view_count = 1000 WHERE id = $1', [questionId]);
+    expect(await badgesOf(asker)).toEqual(['popular-question']);
+
+    await db.query('UPDATE public.questions SET view_count = 10000 WHERE id = $1', [questionId]);
+    expect(await badgesOf(asker)).toEqual(['famous-question', 'notable-question', 'popular-question']);
+  });
+});
+
+describe('tag_score rule', () => {
+  it('awards a tag badge per tag once both the answer count and score are met', async () => {
+    const asker = await newUser();
+    const answerer = await newUser();
+    const rustQuestion = await createQuestion(asker, ['rust', 'cargo']);
+    const goQuestion = await createQuestion(asker, ['go']);
+
+    const tagBadges = async () => (await badgesOf(answerer)).filter(badge => badge.startsWith('tag-'));
+
+    for (let i = 0; i < 19; i++) {
+      await createAnswer(answerer, rustQuestion, 5);
+      await createAnswer(answerer, goQuestion, 10);
+    }
+    expect(await tagBadges()).toEqual([]);
+
+    await createAnswer(answerer, rustQuestion, 5);
+    expect(await tagBadges()).toEqual(['tag-bronze:cargo', 'tag-bronze:rust']);
+  });
+});
+
+describe('badge counters', () => {
+  it('ignores authors writing their own vote counts and acceptance', async () => {
+    const asker = await newUser();
+    const answerer = await newUser();
+    const questionId = await createQuestion(asker);
+    const answerId = await createAnswer(answerer, questionId);
+
+    await asClient(db, answerer, tx => tx.query(
+      'UPDATE public.answers SET upvote_count = 1000, downvote_count = 0, is_accepted = true WHERE id = $1',
+      [answerId]
+    ));
+
+    const { rows } = await db.query<{ upvote_count: number; is_accepted: boolean }>(
+      'SELECT upvote_count, is_accepted FROM public.answers WHERE id = $1',
+      [answerId]
+    );
+    expect(rows[0]).toEqual({ upvote_count: 0, is_accepted: false });
+    expect(await badgesOf(answerer)).toEqual([]);
+  });
+
+  it('ignores authors writing their own view counts', async () => {
+    const asker = await newUser();
+    const questionId = await createQuestion(asker);
+
+    await asClient(db, asker, tx => tx.query(
+      'UPDATE public.questions SET view_count = 10000, answer_count = 50 WHERE id = $1',
+      [questionId]
+    ));
+
+    const { rows } = await db.query<{ view_count: number; answer_count: number }>(
+      'SELECT view_count, answer_count FROM public.questions WHERE id = $1',
+      [questionId]
+    );
+    expect(rows[0]).toEqual({ view_count: 0, answer_count: 0 });
+    expect(await badgesOf(asker)).toEqual([]);
+  });
+
+  it('ignores counts sent with new posts', async () => {
+    const asker = await newUser();
+    const answerer = await newUser();
+
+    const questionId = await asClient(db, asker, async tx => {
+      const { rows } = await tx.query<{ id: string }>(
+        `INSERT INTO public.questions (title, description, tags, user_id, view_count)
+         VALUES ('How do I farm badges?', 'Asking for a friend.', ARRAY['javascript'], $1, 10000)
+         RETURNING id`,
+        [asker]
+      );
+      return rows[0].id;
+    });
+    await asClient(db, answerer, tx => tx.query(
+      `INSERT INTO public.answers (question_id, content, user_id, upvote_count, is_accepted)
+       VALUES ($1, 'Like this.', $2, 1000, true)`,
+      [questionId, answerer]
+    ));
+    await db.query('SELECT public.evaluate_badges($1)', [asker]);
+    await db.query('SELECT public.evaluate_badges($1)', [answerer]);
+
+    expect(await badgesOf(asker)).toEqual([]);
+    expect(await badgesOf(answerer)).toEqual([]);
+  });
+});
+
+describe('increment_question_views', () => {
+  const viewCount = async (questionId: string) => {
+    const { rows } = await db.query<{ view_count: number }>(
+      'SELECT view_count FROM public.questions WHERE id = $1',
+      [questionId]
+    );
+    return rows[0].view_count;
+  };
+
+  const view = (questionId: string, userId: string | null, headers: Record<string, string> = {}) =>
+    asClient(db, userId, tx => tx.query('SELECT public.increment_question_views($1)', [questionId]), headers);
+
+  it('counts each signed-in viewer once', async () => {
+    const questionId = await createQuestion(await newUser());
+    const viewer = await newUser();
+    const otherViewer = await newUser();
+
+    await view(questionId, viewer);
+    await view(questionId, viewer);
+    await view(questionId, otherViewer);
+
+    expect(await viewCount(questionId)).toBe(2);
+  });
+
+  it('counts each anonymous address once', async () => {
+    const questionId = await createQuestion(await newUser());
+
+    await view(questionId, null, { 'x-forwarded-for': '203.0.113.7' });
+    await view(questionId, null, { 'x-forwarded-for': '203.0.113.7' });
+    await view(questionId, null, { 'x-forwarded-for': '198.51.100.2' });
+
+    expect(await viewCount(questionId)).toBe(2);
+  });
+
+  it('identifies anonymous viewers by the address the proxy appended', async () => {
+    const questionId = await createQuestion(await newUser());
+
+    await view(questionId, null, { 'x-forwarded-for': '10.0.0.1, 203.0.113.7' });
+    await view(questionId, null, { 'x-forwarded-for': '10.0.0.2, 203.0.113.7' });
+    await view(questionId, null, { 'x-forwarded-for': '203.0.113.7' });
+
+    expect(await viewCount(questionId)).toBe(1);
+  });
+
+  it('skips anonymous views with no address', async () => {
+    const questionId = await createQuestion(await newUser());
+
+    await view(questionId, null);
+
+    expect(await viewCount(questionId)).toBe(0);
+  });
+});
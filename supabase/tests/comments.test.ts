@@ -0,0 +1,66 @@
+// @vitest-environment node
+import { beforeAll, describe, expect, it } from 'vitest';
+import { PGlite } from '@electric-sql/pglite';
+import { asClient, createTestDatabase, createUser } from './database';
+
+let db: PGlite;
+let userCount = 0;
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+}, 120_000);
+
+const newUser = () => createUser(db, `user${++userCount}`);
+
+const createQuestion = async (userId: string) => {
+  const { rows } = await db.query<{ id: string }>(
+    `INSERT INTO public.questions (title, description, tags, user_id)
+     VALUES ('How do I do this?', 'Some details about the problem.', ARRAY['general'], $1)
+     RETURNING id`,
+    [userId]
+  );
+  return rows[0].id;
+};
+
+const commentOf = async (commentId: string) => {
+  const { rows } = await db.query<{ question_id: string; user_id: string; upvote_count: number }>(
+    'SELECT question_id, user_id, upvote_count FROM public.comments WHERE id = $1',
+    [commentId]
+  );
+  return rows[0];
+};
+
+describe('comments', () => {
+  it('start with no upvotes whatever the client sends', async () => {
+    const author = await newUser();
+    const questionId = await createQuestion(author);
+
+    const { rows } = await asClient(db, author, tx => tx.query<{ id: string }>(
+      `INSERT INTO public.comments (question_id, user_id, content, upvote_count)
+       VALUES ($1, $2, 'Could you add an example?', 500)
+       RETURNING id`,
+      [questionId, author]
+    ));
+
+    expect((await commentOf(rows[0].id)).upvote_count).toBe(0);
+  });
+
+  it('stay on their post and with their author when edited', async () => {
+    const author = await newUser();
+    const questionId = await createQuestion(author);
+    const otherQuestionId = await createQuestion(await newUser());
+    const { rows } = await db.query<{ id: string }>(
+      `INSERT INTO public.comments (question_id, user_id, content)
+       VALUES ($1, $2, 'Could you add an example?')
+       RETURNING id`,
+      [questionId, author]
+    );
+
+    await asClient(db, author, tx => tx.query(
+      `UPDATE public.comments SET question_id = $1, upvote_count = 500, content = 'Edited.' WHERE id = $2`,
+      [otherQuestionId, rows[0].id]
+    ));
+
+    expect(await commentOf(rows[0].id)).toEqual({ question_id: questionId, user_id: author, upvote_count: 0 });
+  });
+});
@@ -0,0 +1,199 @@
+// @vitest-environment node
+import { beforeAll, describe, expect, it } from 'vitest';
+import { PGlite } from '@electric-sql/pglite';
+import { asClient, createTestDatabase, createUser } from './database';
+
+let db: PGlite;
+let userCount = 0;
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+  await db.query(
+    `INSERT INTO public.blocked_terms (kind, pattern)
+     VALUES ('word', 'casino'), ('word', 'c++'), ('word', '.net')`
+  );
+}, 120_000);
+
+const newUser = () => createUser(db, `user${++userCount}`);
+
+// New accounts may only ask one question an hour, so each question gets its own author
+const postQuestion = async (description: string, userId?: string) => {
+  userId ??= await newUser();
+  const { rows } = await asClient(db, userId, tx => tx.query<{ id: string }>(
+    `INSERT INTO public.questions (title, description, tags, user_id)
+     VALUES ('How do I do this?', $1, ARRAY['javascript'], $2)
+     RETURNING id`,
+    [description, userId]
+  ));
+  return rows[0].id;
+};
+
+const postAnswer = async (userId: string, questionId: string, content: string) => {
+  const { rows } = await asClient(db, userId, tx => tx.query<{ id: string }>(
+    `INSERT INTO public.answers (question_id, content, user_id)
+     VALUES ($1, $2, $3)
+     RETURNING id`,
+    [questionId, content, userId]
+  ));
+  return rows[0].id;
+};
+
+const heldReason = async (table: 'questions' | 'answers', id: string) => {
+  const { rows } = await db.query<{ held_reason: string | null }>(
+    `SELECT held_reason FROM public.${table} WHERE id = $1`,
+    [id]
+  );
+  return rows[0].held_reason;
+};
+
+describe('word terms', () => {
+  it('match whole words only', async () => {
+    expect(await heldReason('questions', await postQuestion('Visit my casino today.')))
+      .toBe('Contains the blocked word "casino"');
+    expect(await heldReason('questions', await postQuestion('A list of casinos.'))).toBeNull();
+  });
+
+  it('match terms that start or end with punctuation', async () => {
+    expect(await heldReason('questions', await postQuestion('Is C++ hard?')))
+      .toBe('Contains the blocked word "c++"');
+    expect(await heldReason('questions', await postQuestion('Moving to .NET soon.')))
+      .toBe('Contains the blocked word ".net"');
+    expect(await heldReason('questions', await postQuestion('See example.network for details.')))
+      .toBeNull();
+  });
+});
+
+describe('held questions', () => {
+  it('hide their revisions and answers from other users', async () => {
+    const author = await newUser();
+    const other = await newUser();
+    const questionId = await postQuestion('Why does my build fail?', author);
+    const answerId = await postAnswer(other, questionId, 'Clear the cache first.');
+
+    await db.query(`UPDATE public.questions SET held_at = NOW(), held_reason = 'test' WHERE id = $1`, [questionId]);
+
+    const visible = await asClient(db, null, async tx => ({
+      revisions: (await tx.query('SELECT 1 FROM public.question_revisions WHERE question_id = $1', [questionId])).rows.length,
+      answers: (await tx.query('SELECT 1 FROM public.answers WHERE id = $1', [answerId])).rows.length,
+      answerRevisions: (await tx.query('SELECT 1 FROM public.answer_revisions WHERE answer_id = $1', [answerId])).rows.length,
+    }));
+    expect(visible).toEqual({ revisions: 0, answers: 0, answerRevisions: 0 });
+  });
+
+  it('take no new answers', async () => {
+    const author = await newUser();
+    const questionId = await postQuestion('Try my casino.', author);
+
+    await expect(postAnswer(await newUser(), questionId, 'Not here.')).rejects.toThrow(/row-level security/);
+    await expect(postAnswer(author, questionId, 'Nor here.')).rejects.toThrow(/row-level security/);
+  });
+});
+
+describe('held answers', () => {
+  const searchable = async (questionId: string, term: string) => {
+    const { rows } = await db.query<{ found: boolean }>(
+      `SELECT search_vector @@ plainto_tsquery('english', $2) AS found FROM public.questions WHERE id = $1`,
+      [questionId, term]
+    );
+    return rows[0].found;
+  };
+
+  const answerCount = async (questionId: string) => {
+    const { rows } = await db.query<{ answer_count: number }>(
+      'SELECT answer_count FROM public.questions WHERE id = $1',
+      [questionId]
+    );
+    return rows[0].answer_count;
+  };
+
+  it('don\'t count towards their question\'s answers until approved', async () => {
+    const questionId = await postQuestion('How do I parse a date?');
+    const approved = await postAnswer(await newUser(), questionId, 'Play at the casino instead.');
+    const rejected = await postAnswer(await newUser(), questionId, 'The casino is open late.');
+
+    expect(await answerCount(questionId)).toBe(0);
+
+    await db.query('UPDATE public.answers SET held_at = NULL, held_reason = NULL WHERE id = $1', [approved]);
+    await db.query(
+      'UPDATE public.answers SET held_at = NULL, held_reason = NULL, deleted_at = NOW() WHERE id = $1',
+      [rejected]
+    );
+    expect(await answerCount(questionId)).toBe(1);
+  });
+
+  it('stay out of their question\'s search document until approved', async () => {
+    const questionId = await postQuestion('How do I sort an array?');
+    const answerId = await postAnswer(await newUser(), questionId, 'Win big at the casino with zebras.');
+
+    expect(await heldReason('answers', answerId)).not.toBeNull();
+    expect(await searchable(questionId, 'zebras')).toBe(false);
+
+    await db.query('UPDATE public.answers SET held_at = NULL, held_reason = NULL WHERE id = $1', [answerId]);
+    expect(await searchable(questionId, 'zebras')).toBe(true);
+  });
+
+  it('stay out of the search document once rejected', async () => {
+    const questionId = await postQuestion('How do I reverse a string?');
+    const answerId = await postAnswer(await newUser(), questionId, 'Win big at the casino with giraffes.');
+
+    await db.query(
+      'UPDATE public.answers SET held_at = NULL, held_reason = NULL, deleted_at = NOW() WHERE id = $1',
+      [answerId]
+    );
+    expect(await searchable(questionId, 'giraffes')).toBe(false);
+  });
+});
+
+describe('review_held_post', () => {
+  const notificationsOf = async (userId: string) => {
+    const { rows } = await db.query<{ type: string }>(
+      'SELECT type FROM public.notifications WHERE user_id = $1 ORDER BY type',
+      [userId]
+    );
+    return rows.map(row => row.type);
+  };
+
+  const review = async (approve: boolean, answerId: string) => {
+    const moderator = await newUser();
+    await db.query(`UPDATE public.profiles SET role = 'moderator' WHERE user_id = $1`, [moderator]);
+    await asClient(db, moderator, tx => tx.query(
+      'SELECT public.review_held_post($1, NULL, $2)',
+      [approve, answerId]
+    ));
+  };
+
+  const heldAnswerScenario = async (question: string) => {
+    const asker = await newUser();
+    const questionId = await postQuestion(question, asker);
+    const follower = await newUser();
+    await asClient(db, follower, tx => tx.query(
+      'INSERT INTO public.question_followers (user_id, question_id) VALUES ($1, $2)',
+      [follower, questionId]
+    ));
+    const mentionedName = `mentioned${userCount}`;
+    const mentioned = await createUser(db, mentionedName);
+    const answerId = await postAnswer(await newUser(), questionId, `Ask @${mentionedName} at the casino.`);
+    return { asker, follower, mentioned, answerId };
+  };
+
+  it('sends an approved answer\'s notifications', async () => {
+    const { asker, follower, mentioned, answerId } = await heldAnswerScenario('How do I center a div?');
+    expect(await notificationsOf(asker)).toEqual([]);
+
+    await review(true, answerId);
+
+    expect(await notificationsOf(asker)).toEqual(['answer']);
+    expect(await notificationsOf(follower)).toEqual(['activity']);
+    expect(await notificationsOf(mentioned)).toEqual(['mention']);
+  });
+
+  it('sends nothing for a rejected answer', async () => {
+    const { asker, follower, mentioned, answerId } = await heldAnswerScenario('How do I read a file?');
+
+    await review(false, answerId);
+
+    expect(await notificationsOf(asker)).toEqual([]);
+    expect(await notificationsOf(follower)).toEqual([]);
+    expect(await notificationsOf(mentioned)).toEqual([]);
+  });
+});
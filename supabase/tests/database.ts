@@ -0,0 +1,89 @@
+import { PGlite, Transaction } from '@electric-sql/pglite';
+import { readdirSync, readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+
+const MIGRATIONS_DIR = fileURLToPath(new URL('../migrations/', import.meta.url));
+
+// The parts of the Supabase platform the migrations rely on: the API roles,
+// the auth schema, the realtime publication and pg_cron's scheduler
+const PLATFORM_SQL = `
+  CREATE ROLE anon NOLOGIN;
+  CREATE ROLE authenticated NOLOGIN;
+  GRANT USAGE ON SCHEMA public TO anon, authenticated;
+  ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON TABLES TO anon, authenticated;
+  ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON SEQUENCES TO anon, authenticated;
+
+  CREATE SCHEMA auth;
+  GRANT USAGE ON SCHEMA auth TO anon, authenticated;
+
+  CREATE TABLE auth.users (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    email TEXT,
+    raw_user_meta_data JSONB
+  );
+
+  CREATE FUNCTION auth.uid() RETURNS UUID AS $$
+    SELECT NULLIF(current_setting('request.jwt.claim.sub', true), '')::UUID;
+  $$ LANGUAGE sql STABLE;
+
+  CREATE FUNCTION auth.role() RETURNS TEXT AS $$
+    SELECT NULLIF(current_setting('request.jwt.claim.role', true), '');
+  $$ LANGUAGE sql STABLE;
+
+  CREATE PUBLICATION supabase_realtime;
+
+  CREATE SCHEMA cron;
+  CREATE FUNCTION cron.schedule(_name TEXT, _schedule TEXT, _command TEXT) RETURNS BIGINT AS $$
+    SELECT 1::BIGINT;
+  $$ LANGUAGE sql;
+`;
+
+// A fresh in-memory database with every migration applied
+export async function createTestDatabase(): Promise<PGlite> {
+  const db = new PGlite();
+  await db.exec(PLATFORM_SQL);
+
+  const migrations = readdirSync(MIGRATIONS_DIR).filter(file => file.endsWith('.sql')).sort();
+  for (const migration of migrations) {
+    // pg_cron can't be installed here; cron.schedule comes from PLATFORM_SQL
+    const sql = readFileSync(MIGRATIONS_DIR + migration, 'utf8')
+      .replace('CREATE EXTENSION IF NOT EXISTS pg_cron;', '');
+    await db.exec(sql);
+  }
+
+  return db;
+}
+
+// Signs a user up; their profile is created by the handle_new_user trigger
+export async function createUser(db: PGlite, username: string): Promise<string> {
+  const { rows } = await db.query<{ id: string }>(
+    `INSERT INTO auth.users (email, raw_user_meta_data)
+     VALUES ($1, jsonb_build_object('username', $2::TEXT))
+     RETURNING id`,
+    [`${username}@example.com`, username]
+  );
+  return rows[0].id;
+}
+
+// Runs queries the way PostgREST does for a request: as the anon or
+// authenticated role, with the caller's JWT claims and request headers set
+export async function asClient<T>(
+  db: PGlite,
+  userId: string | null,
+  run: (tx: Transaction) => Promise<T>,
+  headers: Record<string, string> = {}
+): Promise<T> {
+  const role = userId ? 'authenticated' : 'anon';
+
+  return db.transaction(async (tx) => {
+    await tx.query(
+      `SELECT
+         set_config('request.jwt.claim.sub', $1, true),
+         set_config('request.jwt.claim.role', $2, true),
+         set_config('request.headers', $3, true)`,
+      [userId ?? '', role, JSON.stringify(headers)]
+    );
+    await tx.exec(`SET LOCAL ROLE ${role}`);
+    return run(tx);
+  });
+}
@@ -0,0 +1,74 @@
+// @vitest-environment node
+import { beforeAll, describe, expect, it } from 'vitest';
+import { PGlite } from '@electric-sql/pglite';
+import { asClient, createTestDatabase, createUser } from './database';
+
+let db: PGlite;
+let userCount = 0;
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+}, 120_000);
+
+const newUser = () => createUser(db, `user${++userCount}`);
+
+const createQuestion = async (userId: string, deleted = false) => {
+  const { rows } = await db.query<{ id: string }>(
+    `INSERT INTO public.questions (title, description, tags, user_id, deleted_at)
+     VALUES ('How do I do this?', 'Some details about the problem.', ARRAY['javascript'], $1, $2)
+     RETURNING id`,
+    [userId, deleted ? new Date() : null]
+  );
+  return rows[0].id;
+};
+
+const follow = (userId: string, questionId: string) =>
+  asClient(db, userId, tx => tx.query(
+    'INSERT INTO public.question_followers (user_id, question_id) VALUES ($1, $2)',
+    [userId, questionId]
+  ));
+
+const notificationsOf = async (userId: string) => {
+  const { rows } = await db.query<{ type: string }>(
+    'SELECT type FROM public.notifications WHERE user_id = $1 ORDER BY type',
+    [userId]
+  );
+  return rows.map(row => row.type);
+};
+
+describe('following', () => {
+  it('works for questions the user can see', async () => {
+    const questionId = await createQuestion(await newUser());
+    const follower = await newUser();
+
+    await follow(follower, questionId);
+
+    const { rows } = await db.query('SELECT 1 FROM public.question_followers WHERE user_id = $1', [follower]);
+    expect(rows).toHaveLength(1);
+  });
+
+  it('is refused for deleted questions', async () => {
+    const questionId = await createQuestion(await newUser(), true);
+
+    await expect(follow(await newUser(), questionId)).rejects.toThrow(/row-level security/);
+  });
+});
+
+describe('follower notifications', () => {
+  it('skip followers the new answer mentions', async () => {
+    const questionId = await createQuestion(await newUser());
+    const answerer = await newUser();
+    const mentioned = await createUser(db, 'mentioned');
+    const bystander = await newUser();
+    await follow(mentioned, questionId);
+    await follow(bystander, questionId);
+
+    await asClient(db, answerer, tx => tx.query(
+      `INSERT INTO public.answers (question_id, content, user_id) VALUES ($1, 'Ask @mentioned about it.', $2)`,
+      [questionId, answerer]
+    ));
+
+    expect(await notificationsOf(mentioned)).toEqual(['mention']);
+    expect(await notificationsOf(bystander)).toEqual(['activity']);
+  });
+});
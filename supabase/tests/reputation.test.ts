@@ -0,0 +1,121 @@
+// @vitest-environment node
+import { beforeAll, describe, expect, it } from 'vitest';
+import { PGlite } from '@electric-sql/pglite';
+import { asClient, createTestDatabase, createUser } from './database';
+
+let db: PGlite;
+let userCount = 0;
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+}, 120_000);
+
+const newUser = () => createUser(db, `user${++userCount}`);
+
+const reputationOf = async (userId: string) => {
+  const { rows } = await db.query<{ reputation: number }>(
+    'SELECT reputation FROM public.profiles WHERE user_id = $1',
+    [userId]
+  );
+  return rows[0].reputation;
+};
+
+describe('posting', () => {
+  it('ignores vote counts and acceptance sent with a new question or answer', async () => {
+    const author = await newUser();
+
+    const question = await asClient(db, author, async tx => {
+      const { rows } = await tx.query<{ id: string }>(
+        `INSERT INTO public.questions (title, description, tags, user_id, upvote_count, downvote_count, answer_count, has_accepted_answer)
+         VALUES ('How do I do this?', 'Some details about the problem.', ARRAY['javascript'], $1, 1000, 0, 50, true)
+         RETURNING id`,
+        [author]
+      );
+      return rows[0].id;
+    });
+    await asClient(db, author, tx => tx.query(
+      `INSERT INTO public.answers (question_id, content, user_id, upvote_count, downvote_count, is_accepted)
+       VALUES ($1, 'Try this approach.', $2, 1000, 0, true)`,
+      [question, author]
+    ));
+
+    const { rows: questions } = await db.query(
+      'SELECT upvote_count, downvote_count, answer_count, has_accepted_answer FROM public.questions WHERE id = $1',
+      [question]
+    );
+    const { rows: answers } = await db.query(
+      'SELECT upvote_count, downvote_count, is_accepted, score FROM public.answers WHERE question_id = $1',
+      [question]
+    );
+
+    expect(questions[0]).toEqual({ upvote_count: 0, downvote_count: 0, answer_count: 1, has_accepted_answer: false });
+    expect(answers[0]).toEqual({ upvote_count: 0, downvote_count: 0, is_accepted: false, score: 0 });
+    expect(await reputationOf(author)).toBe(1);
+  });
+});
+
+describe('deleted posts', () => {
+  // Moderators can still see deleted posts, so only the deleted check stops them
+  const newModerator = async () => {
+    const userId = await newUser();
+    await db.query(`UPDATE public.profiles SET role = 'moderator', reputation = 1000 WHERE user_id = $1`, [userId]);
+    return userId;
+  };
+
+  const createDeletedQuestion = async () => {
+    const author = await newUser();
+    const { rows } = await db.query<{ id: string }>(
+      `INSERT INTO public.questions (title, description, tags, user_id, deleted_at)
+       VALUES ('How do I do this?', 'Some details about the problem.', ARRAY['javascript'], $1, NOW())
+       RETURNING id`,
+      [author]
+    );
+    return { author, questionId: rows[0].id };
+  };
+
+  it('take no votes', async () => {
+    const { author, questionId } = await createDeletedQuestion();
+    const voter = await newModerator();
+
+    await expect(asClient(db, voter, tx => tx.query(
+      `INSERT INTO public.votes (user_id, question_id, vote_type) VALUES ($1, $2, 'upvote')`,
+      [voter, questionId]
+    ))).rejects.toThrow(/row-level security/);
+    expect(await reputationOf(author)).toBe(1);
+  });
+
+  it('take no comment votes', async () => {
+    const { author, questionId } = await createDeletedQuestion();
+    const voter = await newModerator();
+    const { rows } = await db.query<{ id: string }>(
+      `INSERT INTO public.comments (question_id, user_id, content) VALUES ($1, $2, 'Any update?') RETURNING id`,
+      [questionId, author]
+    );
+
+    await expect(asClient(db, voter, tx => tx.query(
+      'INSERT INTO public.comment_votes (user_id, comment_id) VALUES ($1, $2)',
+      [voter, rows[0].id]
+    ))).rejects.toThrow(/row-level security/);
+  });
+
+  it('can\'t be accepted', async () => {
+    const asker = await newUser();
+    const answerer = await newUser();
+    const { rows: questions } = await db.query<{ id: string }>(
+      `INSERT INTO public.questions (title, description, tags, user_id)
+       VALUES ('How do I do this?', 'Some details about the problem.', ARRAY['javascript'], $1)
+       RETURNING id`,
+      [asker]
+    );
+    const { rows: answers } = await db.query<{ id: string }>(
+      `INSERT INTO public.answers (question_id, content, user_id, deleted_at)
+       VALUES ($1, 'Try this approach.', $2, NOW())
+       RETURNING id`,
+      [questions[0].id, answerer]
+    );
+
+    await expect(asClient(db, asker, tx => tx.query('SELECT public.accept_answer($1)', [answers[0].id])))
+      .rejects.toThrow('Deleted answers can\'t be accepted');
+    expect(await reputationOf(answerer)).toBe(1);
+  });
+});
@@ -0,0 +1,35 @@
+// @vitest-environment node
+import { beforeAll, describe, expect, it } from 'vitest';
+import { PGlite } from '@electric-sql/pglite';
+import { asClient, createTestDatabase, createUser } from './database';
+
+let db: PGlite;
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+}, 120_000);
+
+describe('search_vector', () => {
+  it('is recomputed when a client writes it directly', async () => {
+    const author = await createUser(db, 'author');
+    const { rows } = await db.query<{ id: string }>(
+      `INSERT INTO public.questions (title, description, tags, user_id)
+       VALUES ('How do I sort an array?', 'Some details about the problem.', ARRAY['javascript'], $1)
+       RETURNING id`,
+      [author]
+    );
+
+    await asClient(db, author, tx => tx.query(
+      `UPDATE public.questions SET search_vector = to_tsvector('english', 'kubernetes') WHERE id = $1`,
+      [rows[0].id]
+    ));
+
+    const { rows: matches } = await db.query<{ stuffed: boolean; real: boolean }>(
+      `SELECT search_vector @@ plainto_tsquery('english', 'kubernetes') AS stuffed,
+              search_vector @@ plainto_tsquery('english', 'sort array') AS real
+       FROM public.questions WHERE id = $1`,
+      [rows[0].id]
+    );
+    expect(matches[0]).toEqual({ stuffed: false, real: true });
+  });
+});
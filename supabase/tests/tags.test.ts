@@ -0,0 +1,30 @@
+// @vitest-environment node
+import { beforeAll, describe, expect, it } from 'vitest';
+import { PGlite } from '@electric-sql/pglite';
+import { asClient, createTestDatabase, createUser } from './database';
+
+let db: PGlite;
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+}, 120_000);
+
+describe('tag wikis', () => {
+  it('let trusted users edit only the excerpt and wiki', async () => {
+    const editor = await createUser(db, 'editor');
+    await db.query('UPDATE public.profiles SET reputation = 2000 WHERE user_id = $1', [editor]);
+
+    await asClient(db, editor, tx => tx.query(
+      `UPDATE public.tags
+       SET name = 'renamed', usage_count = 9999, excerpt = 'A scripting language.', wiki = 'More about it.'
+       WHERE name = 'javascript'`
+    ));
+
+    const { rows } = await db.query(
+      `SELECT name, usage_count, excerpt, wiki FROM public.tags WHERE excerpt = 'A scripting language.'`
+    );
+    expect(rows).toEqual([
+      { name: 'javascript', usage_count: 0, excerpt: 'A scripting language.', wiki: 'More about it.' },
+    ]);
+  });
+});